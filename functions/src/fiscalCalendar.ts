@@ -0,0 +1,204 @@
+/**
+ * Fiscal calendar shared by the Cloud Functions and the PWA.
+ *
+ * Every calculation runs on the India Standard Time wall clock regardless of the
+ * host time zone, so the server (UTC) and the browser put a visit in the same
+ * week and month. The PWA re-exports this file from panels-pwa/src/utils/fiscalCalendar.ts,
+ * so it must stay free of Node and firebase-admin imports.
+ */
+
+export interface FiscalCalendarConfig {
+  // Month the fiscal year starts in, 1-12 (4 = April for the Indian financial year)
+  fiscalYearStartMonth: number;
+  // Day weeks start on, 0 = Sunday ... 6 = Saturday
+  weekStartsOn: number;
+}
+
+export interface FiscalWeek {
+  // Identifier in FY{YYYY}-W{WW} format, where YYYY is the year the fiscal year starts in
+  weekId: string;
+  fiscalYear: number;
+  weekNumber: number;
+  start: Date;
+  end: Date;
+}
+
+export interface IstDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+}
+
+export const IST_TIME_ZONE = 'Asia/Kolkata';
+
+export const DEFAULT_FISCAL_CALENDAR: FiscalCalendarConfig = {
+  fiscalYearStartMonth: 4,
+  weekStartsOn: 1,
+};
+
+// IST has no daylight saving, so a fixed offset is exact
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toInteger = (value: unknown): number | null => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isInteger(parsed) ? parsed : null;
+};
+
+/**
+ * Build a config from loosely typed overrides (environment or runtime config),
+ * falling back to the defaults for missing or out-of-range values
+ */
+export const resolveFiscalCalendarConfig = (
+  overrides?: { fiscalYearStartMonth?: unknown; weekStartsOn?: unknown }
+): FiscalCalendarConfig => {
+  const month = toInteger(overrides?.fiscalYearStartMonth);
+  const weekday = toInteger(overrides?.weekStartsOn);
+  return {
+    fiscalYearStartMonth: month !== null && month >= 1 && month <= 12
+      ? month
+      : DEFAULT_FISCAL_CALENDAR.fiscalYearStartMonth,
+    weekStartsOn: weekday !== null && weekday >= 0 && weekday <= 6
+      ? weekday
+      : DEFAULT_FISCAL_CALENDAR.weekStartsOn,
+  };
+};
+
+/**
+ * Calendar date of an instant as seen on an IST wall clock
+ */
+export const getIstDateParts = (date: Date): IstDateParts => {
+  const shifted = new Date(date.getTime() + IST_OFFSET_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    weekday: shifted.getUTCDay(),
+  };
+};
+
+/**
+ * Instant of 00:00 IST on the given date. Out-of-range days and months roll
+ * over the same way they do for Date.UTC.
+ */
+export const istMidnight = (year: number, month: number, day: number): Date => {
+  return new Date(Date.UTC(year, month - 1, day) - IST_OFFSET_MS);
+};
+
+export const getStartOfIstDay = (date: Date): Date => {
+  const { year, month, day } = getIstDateParts(date);
+  return istMidnight(year, month, day);
+};
+
+export const getEndOfIstDay = (date: Date): Date => {
+  return new Date(getStartOfIstDay(date).getTime() + DAY_MS - 1);
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getTime() + days * DAY_MS);
+};
+
+/**
+ * Parse a YYYY-MM-DD string as an IST calendar date
+ */
+export const parseIstDay = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = istMidnight(year, month, day);
+  const parts = getIstDateParts(date);
+  // Reject dates that rolled over, e.g. 2025-02-30
+  return parts.month === month && parts.day === day ? date : null;
+};
+
+/**
+ * Format an instant as YYYY-MM-DD on the IST calendar
+ */
+export const formatIstDayKey = (date: Date): string => {
+  const { year, month, day } = getIstDateParts(date);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+export const getStartOfWeek = (date: Date, config: FiscalCalendarConfig = DEFAULT_FISCAL_CALENDAR): Date => {
+  const { year, month, day, weekday } = getIstDateParts(date);
+  const offset = (weekday - config.weekStartsOn + 7) % 7;
+  return istMidnight(year, month, day - offset);
+};
+
+export const getEndOfWeek = (date: Date, config: FiscalCalendarConfig = DEFAULT_FISCAL_CALENDAR): Date => {
+  return new Date(addDays(getStartOfWeek(date, config), 7).getTime() - 1);
+};
+
+/**
+ * Fiscal year containing a date, named after the calendar year it starts in
+ */
+export const getFiscalYear = (date: Date, config: FiscalCalendarConfig = DEFAULT_FISCAL_CALENDAR): number => {
+  const { year, month } = getIstDateParts(date);
+  return month >= config.fiscalYearStartMonth ? year : year - 1;
+};
+
+export const getFiscalYearStart = (fiscalYear: number, config: FiscalCalendarConfig = DEFAULT_FISCAL_CALENDAR): Date => {
+  return istMidnight(fiscalYear, config.fiscalYearStartMonth, 1);
+};
+
+/**
+ * Display label for a fiscal year, e.g. FY2025-26 (or FY2025 when it matches the calendar year)
+ */
+export const formatFiscalYear = (fiscalYear: number, config: FiscalCalendarConfig = DEFAULT_FISCAL_CALENDAR): string => {
+  if (config.fiscalYearStartMonth === 1) {
+    return `FY${fiscalYear}`;
+  }
+  return `FY${fiscalYear}-${String((fiscalYear + 1) % 100).padStart(2, '0')}`;
+};
+
+/**
+ * Fiscal week containing a date. A week belongs to the fiscal year its first
+ * day falls in, so the week straddling the fiscal-year start is the last week
+ * of the old year and week 1 is the first week starting on or after it.
+ */
+export const getFiscalWeek = (date: Date, config: FiscalCalendarConfig = DEFAULT_FISCAL_CALENDAR): FiscalWeek => {
+  const start = getStartOfWeek(date, config);
+  const fiscalYear = getFiscalYear(start, config);
+  const daysIntoYear = Math.round((start.getTime() - getFiscalYearStart(fiscalYear, config).getTime()) / DAY_MS);
+  const weekNumber = Math.floor(daysIntoYear / 7) + 1;
+  return {
+    weekId: `FY${fiscalYear}-W${String(weekNumber).padStart(2, '0')}`,
+    fiscalYear,
+    weekNumber,
+    start,
+    end: new Date(addDays(start, 7).getTime() - 1),
+  };
+};
+
+export const getWeekId = (date: Date, config: FiscalCalendarConfig = DEFAULT_FISCAL_CALENDAR): string => {
+  return getFiscalWeek(date, config).weekId;
+};
+
+/**
+ * Row label used for a week in Stats, e.g. "W27 - 6/10/2025 - 12/10/2025"
+ */
+export const formatFiscalWeekLabel = (week: FiscalWeek): string => {
+  const format = (date: Date) => date.toLocaleDateString('en-IN', { timeZone: IST_TIME_ZONE });
+  return `W${week.weekNumber} - ${format(week.start)} - ${format(week.end)}`;
+};
+
+/**
+ * Month identifier in YYYY-MM format on the IST calendar
+ */
+export const getMonthId = (date: Date): string => {
+  const { year, month } = getIstDateParts(date);
+  return `${year}-${String(month).padStart(2, '0')}`;
+};
+
+export const getStartOfMonth = (date: Date): Date => {
+  const { year, month } = getIstDateParts(date);
+  return istMidnight(year, month, 1);
+};
+
+export const getEndOfMonth = (date: Date): Date => {
+  const { year, month } = getIstDateParts(date);
+  return new Date(istMidnight(year, month + 1, 1).getTime() - 1);
+};
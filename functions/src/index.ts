@@ -1,20 +1,62 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
+import * as ExcelJS from "exceljs";
+import { createHash, randomBytes } from "crypto";
+import archiver = require("archiver");
 import type { UserDoc, CreateData } from "./types/firestore";
+import {
+  IST_TIME_ZONE,
+  addDays,
+  formatFiscalYear,
+  formatIstDayKey,
+  getEndOfMonth,
+  getEndOfWeek,
+  getFiscalWeek,
+  getFiscalYear,
+  getFiscalYearStart,
+  getIstDateParts,
+  getMonthId,
+  getStartOfIstDay,
+  getStartOfMonth,
+  getStartOfWeek,
+  getWeekId,
+  istMidnight,
+  parseIstDay,
+  resolveFiscalCalendarConfig,
+} from "./fiscalCalendar";
 
 admin.initializeApp();
 
 export const createUserRecord = functions.auth.user().onCreate(async (user) => {
   try {
     const userRef = admin.firestore().collection("users").doc(user.uid);
+    // Accounts created by an admin already have a profile and role
+    const existing = await userRef.get();
+    if (existing.exists && existing.data()?.role) {
+      console.log(`User record for ${user.email} already exists with role: ${existing.data()?.role}`);
+      return;
+    }
+
+    const entry = await findAllowlistEntry(user.email || "");
     const userData: CreateData<UserDoc> = {
       email: user.email || '',
       uid: user.uid,
       role: "Pending",
       status: "Active",
+      reviewStatus: "pending",
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
     };
+    if (entry && !user.emailVerified) {
+      // Approved once the address is verified, see claimAutoApproval
+      userData.pendingAutoApproval = entry.id;
+    }
     await userRef.set(userData, { merge: true });
+
+    if (entry && user.emailVerified) {
+      await applyAutoApproval(user.uid, user.email || "", entry);
+      console.log(`User record created for ${user.email} and auto-approved as ${entry.role} by allowlist entry ${entry.id}`);
+      return;
+    }
     await admin.auth().setCustomUserClaims(user.uid, { role: "Pending" });
     console.log(`User record created and custom claim set for ${user.email} with role: Pending`);
   } catch (error) {
@@ -33,21 +75,86 @@ export const updateUserRoleClaim = functions.firestore
     console.log(`updateUserRoleClaim: Previous data: ${JSON.stringify(previousValue)}`);
     console.log(`updateUserRoleClaim: New data: ${JSON.stringify(newValue)}`);
 
-    if (newValue.role === previousValue.role) {
-      console.log("updateUserRoleClaim: Role has not changed, no need to update custom claims.");
+    const wasDeactivated = previousValue.status === "Inactive";
+    const isDeactivated = newValue.status === "Inactive";
+    const seeAllChanged = (previousValue.canSeeAllVisits === true) !== (newValue.canSeeAllVisits === true);
+    if (newValue.role === previousValue.role && wasDeactivated === isDeactivated && !seeAllChanged) {
+      console.log("updateUserRoleClaim: Role, status and visit access have not changed, no need to update custom claims.");
       return null;
     }
 
-    console.log(`updateUserRoleClaim: Attempting to set custom claim for user ${userId} with role: ${newValue.role}`);
+    console.log(`updateUserRoleClaim: Attempting to set custom claims for user ${userId} with role: ${newValue.role}, deactivated: ${isDeactivated}`);
     try {
-      await admin.auth().setCustomUserClaims(userId, { role: newValue.role });
-      console.log(`updateUserRoleClaim: Custom claim for user ${userId} successfully updated to role: ${newValue.role}`);
+      await admin.auth().setCustomUserClaims(userId, userClaims(newValue));
+      console.log(`updateUserRoleClaim: Custom claims for user ${userId} successfully updated to role: ${newValue.role}`);
     } catch (error) {
-      console.error(`updateUserRoleClaim: Error updating custom claim for user ${userId}:`, error);
+      console.error(`updateUserRoleClaim: Error updating custom claims for user ${userId}:`, error);
+    }
+
+    if (wasDeactivated !== isDeactivated) {
+      try {
+        await setAccountDeactivated(userId, isDeactivated);
+        console.log(`updateUserRoleClaim: Account for user ${userId} ${isDeactivated ? "deactivated" : "reactivated"}`);
+      } catch (error) {
+        console.error(`updateUserRoleClaim: Error changing account status for user ${userId}:`, error);
+      }
     }
     return null;
   });
 
+/**
+ * Custom claims for a user document. Deactivated users keep their role but
+ * carry status "deactivated", which the rules and RequireAuth both check.
+ * seeAllVisits is the grant behind the See All toggle for non-admins.
+ */
+function userClaims(user: admin.firestore.DocumentData): Record<string, string | boolean> {
+  const claims: Record<string, string | boolean> = { role: user.role };
+  if (user.status === "Inactive") {
+    claims.status = "deactivated";
+  }
+  if (user.canSeeAllVisits === true) {
+    claims.seeAllVisits = true;
+  }
+  return claims;
+}
+
+/**
+ * Disable the auth account and end every session, or re-enable it.
+ * Revoking refresh tokens stops the client from minting new ID tokens, so a
+ * deactivated user is signed out within the hour even if the app stays open.
+ */
+async function setAccountDeactivated(uid: string, deactivated: boolean): Promise<void> {
+  await admin.auth().updateUser(uid, { disabled: deactivated });
+  if (deactivated) {
+    await admin.auth().revokeRefreshTokens(uid);
+  }
+}
+
+/**
+ * Create the auth account, profile document and role claim for a new user
+ */
+async function createUserAccount(email: string, password: string, role: string, username: string): Promise<string> {
+  const userRecord = await admin.auth().createUser({
+    email,
+    password,
+    displayName: username || undefined,
+    emailVerified: false,
+    disabled: false,
+  });
+  const uid = userRecord.uid;
+  const userData: CreateData<UserDoc> = {
+    uid,
+    email,
+    role: role as UserDoc['role'],
+    username: username || undefined,
+    status: "Active",
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  await admin.firestore().collection("users").doc(uid).set(userData, { merge: true });
+  await admin.auth().setCustomUserClaims(uid, { role });
+  return uid;
+}
+
 export const panelCreateUser = functions.https.onCall(async (data, context) => {
   if (!context.auth) {
     throw new functions.https.HttpsError("unauthenticated", "Must be authenticated.");
@@ -71,24 +178,14 @@ export const panelCreateUser = functions.https.onCall(async (data, context) => {
   }
 
   try {
-    const userRecord = await admin.auth().createUser({
-      email,
-      password,
-      displayName: username || undefined,
-      emailVerified: false,
-      disabled: false,
+    const uid = await createUserAccount(email, password, newRole, username);
+    await writeAuditLog(context, {
+      action: "user.create",
+      targetType: "user",
+      targetId: uid,
+      targetLabel: email,
+      after: { email, role: newRole, username: username || null, status: "Active" },
     });
-    const uid = userRecord.uid;
-    const userData: CreateData<UserDoc> = {
-      uid,
-      email,
-      role: newRole as UserDoc['role'],
-      username: username || undefined,
-      status: "Active",
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-    };
-    await admin.firestore().collection("users").doc(uid).set(userData, { merge: true });
-    await admin.auth().setCustomUserClaims(uid, { role: newRole });
     return { uid };
   } catch (err: any) {
     console.error("panelCreateUser error", err);
@@ -96,10 +193,770 @@ export const panelCreateUser = functions.https.onCall(async (data, context) => {
   }
 });
 
-const IST_TIME_ZONE = "Asia/Kolkata";
+const AUDIT_LOG_COLLECTION = "audit_log";
+const USER_ROLES = ["Pending", "EM", "Supervisor", "CM", "Academy", "Management", "Guest", "Admin", "Inactive"];
+const USER_STATUSES = ["Active", "Inactive"];
+const ADMIN_BATCH_LIMIT = 200;
+
+type AuditAction =
+  | "user.create"
+  | "user.update"
+  | "user.approve"
+  | "user.reject"
+  | "allowlist.update"
+  | "allowlist.delete"
+  | "team.update"
+  | "team.delete"
+  | "cci.delete"
+  | "assignments.update"
+  | "visit.delete"
+  | "visit_history.clear"
+  | "visits.restore";
+
+interface AuditEntry {
+  action: AuditAction;
+  targetType: "user" | "cci" | "cci_user_link" | "visit" | "backup" | "allowlist" | "team";
+  targetId: string;
+  targetLabel?: string | null;
+  before?: unknown;
+  after?: unknown;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Add an audit log entry for a privileged action to a batch, so it commits
+ * together with the change it describes. Entries are only written from
+ * functions; the rules let admins read them and nobody change them.
+ * Without a callable context the action is recorded as automatic.
+ */
+function addAuditLog(
+  batch: admin.firestore.WriteBatch,
+  context: functions.https.CallableContext | null,
+  entry: AuditEntry
+): void {
+  const token: Record<string, unknown> = context?.auth?.token || {};
+  batch.set(admin.firestore().collection(AUDIT_LOG_COLLECTION).doc(), {
+    action: entry.action,
+    actorUid: context?.auth?.uid ?? null,
+    actorEmail: (token.email as string | undefined) ?? null,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    targetLabel: entry.targetLabel ?? null,
+    before: entry.before === undefined ? null : toArchiveJson(entry.before),
+    after: entry.after === undefined ? null : toArchiveJson(entry.after),
+    details: entry.details ? toArchiveJson(entry.details) : null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+async function writeAuditLog(context: functions.https.CallableContext, entry: AuditEntry): Promise<void> {
+  const batch = admin.firestore().batch();
+  addAuditLog(batch, context, entry);
+  await batch.commit();
+}
+
+function pickFields(data: admin.firestore.DocumentData | undefined, fields: string[]) {
+  return Object.fromEntries(fields.map((field) => [field, data?.[field] ?? null]));
+}
+
+/**
+ * Apply staged role, status, username and See All access changes from Admin
+ * Settings. Custom claims and account deactivation follow through
+ * updateUserRoleClaim.
+ */
+export const panelUpdateUsers = functions.https.onCall(async (data, context) => {
+  const adminUid = requireAdmin(context);
+  const changes = data?.changes;
+  if (!changes || typeof changes !== "object" || Array.isArray(changes)) {
+    throw new functions.https.HttpsError("invalid-argument", "changes must map user IDs to fields.");
+  }
+  const entries = Object.entries(changes as Record<string, Record<string, unknown>>);
+  if (entries.length === 0 || entries.length > ADMIN_BATCH_LIMIT) {
+    throw new functions.https.HttpsError("invalid-argument", `Update between 1 and ${ADMIN_BATCH_LIMIT} users at a time.`);
+  }
+
+  const usersRef = admin.firestore().collection("users");
+  const snapshots = await Promise.all(entries.map(([uid]) => usersRef.doc(uid).get()));
+  const batch = admin.firestore().batch();
+  let updated = 0;
+
+  entries.forEach(([uid, fields], index) => {
+    const snapshot = snapshots[index];
+    if (!snapshot.exists) {
+      throw new functions.https.HttpsError("not-found", `User ${uid} not found.`);
+    }
+    const current = snapshot.data() || {};
+    const update: Record<string, unknown> = {};
+
+    for (const field of ["role", "status", "username"]) {
+      if (!fields || !(field in fields)) {
+        continue;
+      }
+      const value = toPlainString(fields[field]).trim();
+      if (field === "role" && !USER_ROLES.includes(value)) {
+        throw new functions.https.HttpsError("invalid-argument", `Unknown role "${value}".`);
+      }
+      if (field === "status" && !USER_STATUSES.includes(value)) {
+        throw new functions.https.HttpsError("invalid-argument", `Unknown status "${value}".`);
+      }
+      if (field === "status" && value === "Inactive" && uid === adminUid) {
+        throw new functions.https.HttpsError("failed-precondition", "You cannot deactivate your own account.");
+      }
+      if (value !== (current[field] ?? "")) {
+        update[field] = value;
+      }
+    }
+    if (fields && "canSeeAllVisits" in fields) {
+      const value = fields.canSeeAllVisits === true;
+      if (value !== (current.canSeeAllVisits === true)) {
+        update.canSeeAllVisits = value;
+      }
+    }
+
+    const changedFields = Object.keys(update);
+    if (changedFields.length === 0) {
+      return;
+    }
+    const statusStamp = update.status === "Inactive"
+      ? { deactivatedAt: admin.firestore.FieldValue.serverTimestamp(), deactivatedByUid: adminUid }
+      : update.status === "Active"
+        ? { deactivatedAt: admin.firestore.FieldValue.delete(), deactivatedByUid: admin.firestore.FieldValue.delete() }
+        : {};
+    batch.update(snapshot.ref, { ...update, ...statusStamp, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    addAuditLog(batch, context, {
+      action: "user.update",
+      targetType: "user",
+      targetId: uid,
+      targetLabel: current.email ?? null,
+      before: pickFields(current, changedFields),
+      after: update,
+    });
+    updated++;
+  });
+
+  await batch.commit();
+  return { updated };
+});
+
+/**
+ * Replace the CCI assignments of one or more users
+ */
+export const panelSaveCciAssignments = functions.https.onCall(async (data, context) => {
+  requireAdmin(context);
+  const assignments = data?.assignments;
+  if (!assignments || typeof assignments !== "object" || Array.isArray(assignments)) {
+    throw new functions.https.HttpsError("invalid-argument", "assignments must map user IDs to CCI IDs.");
+  }
+  const entries = Object.entries(assignments as Record<string, unknown>)
+    .map(([uid, cciIds]) => [uid, Array.from(new Set(toStringList(cciIds)))] as const);
+  if (entries.length === 0 || entries.length > ADMIN_BATCH_LIMIT) {
+    throw new functions.https.HttpsError("invalid-argument", `Save between 1 and ${ADMIN_BATCH_LIMIT} users at a time.`);
+  }
+
+  const linksRef = admin.firestore().collection("cci_user_links");
+  const [snapshots, users] = await Promise.all([
+    Promise.all(entries.map(([uid]) => linksRef.doc(uid).get())),
+    Promise.all(entries.map(([uid]) => admin.firestore().collection("users").doc(uid).get())),
+  ]);
+  const batch = admin.firestore().batch();
+
+  entries.forEach(([uid, cciIds], index) => {
+    const before: string[] = snapshots[index].data()?.cci_id || [];
+    batch.set(linksRef.doc(uid), {
+      user_id: uid,
+      cci_id: cciIds,
+      isEM: "yes",
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+    addAuditLog(batch, context, {
+      action: "assignments.update",
+      targetType: "cci_user_link",
+      targetId: uid,
+      targetLabel: users[index].data()?.email ?? null,
+      before: { cci_id: before },
+      after: { cci_id: cciIds },
+      details: {
+        added: cciIds.filter((id) => !before.includes(id)),
+        removed: before.filter((id) => !cciIds.includes(id)),
+      },
+    });
+  });
+
+  await batch.commit();
+  return { saved: entries.length };
+});
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type InviteCredential = "password" | "reset_link";
+
+interface InviteResult {
+  row: number;
+  email: string;
+  status: "created" | "skipped" | "failed";
+  uid?: string;
+  password?: string;
+  resetLink?: string;
+  assignedCcis?: number;
+  message?: string;
+}
+
+// One-time password handed to the user with their invite; they should change it
+function generateOneTimePassword(): string {
+  return randomBytes(12).toString("base64url");
+}
+
+/**
+ * Create accounts for a CSV of invitees. Every row is validated again here;
+ * invalid rows and emails that already have an account are skipped, and one
+ * failing row does not stop the rest. Each account gets a generated one-time
+ * password or a password reset link, and optionally its CCI assignments.
+ */
+export const panelBulkInviteUsers = functions
+  .runWith({ timeoutSeconds: 540 })
+  .https.onCall(async (data, context) => {
+    requireAdmin(context);
+    const rows: unknown[] = Array.isArray(data?.rows) ? data.rows : [];
+    if (rows.length === 0 || rows.length > ADMIN_BATCH_LIMIT) {
+      throw new functions.https.HttpsError("invalid-argument", `Invite between 1 and ${ADMIN_BATCH_LIMIT} users at a time.`);
+    }
+    const credential: InviteCredential = data?.credential === "password" ? "password" : "reset_link";
+    const assignCcis = data?.assignCcis !== false;
+
+    const cciSnapshot = await admin.firestore().collection("ccis").get();
+    const cciIds = new Set(cciSnapshot.docs.map((doc) => doc.id));
+    const seen = new Set<string>();
+    const results: InviteResult[] = [];
+
+    for (const [index, raw] of rows.entries()) {
+      const row = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+      const email = toPlainString(row.email).trim().toLowerCase();
+      const username = toPlainString(row.username).trim();
+      const role = toPlainString(row.role).trim() || "Pending";
+      const rowCcis = Array.from(new Set(toStringList(row.cciIds)));
+      const result: InviteResult = { row: index + 1, email, status: "skipped" };
+      results.push(result);
+
+      if (!EMAIL_PATTERN.test(email)) {
+        result.message = "Invalid email address.";
+        continue;
+      }
+      if (seen.has(email)) {
+        result.message = "Duplicate email in this file.";
+        continue;
+      }
+      seen.add(email);
+      if (!USER_ROLES.includes(role) || role === "Inactive") {
+        result.message = `Unknown role "${role}".`;
+        continue;
+      }
+      const unknownCcis = rowCcis.filter((id) => !cciIds.has(id));
+      if (unknownCcis.length > 0) {
+        result.message = `Unknown CCI ${unknownCcis.join(", ")}.`;
+        continue;
+      }
+
+      try {
+        const existing = await admin.auth().getUserByEmail(email).catch(() => null);
+        if (existing) {
+          result.uid = existing.uid;
+          result.message = "An account with this email already exists.";
+          continue;
+        }
+
+        const password = generateOneTimePassword();
+        const uid = await createUserAccount(email, password, role, username);
+        result.uid = uid;
+        result.status = "created";
+        if (credential === "password") {
+          result.password = password;
+        } else {
+          result.resetLink = await admin.auth().generatePasswordResetLink(email);
+        }
+
+        const batch = admin.firestore().batch();
+        addAuditLog(batch, context, {
+          action: "user.create",
+          targetType: "user",
+          targetId: uid,
+          targetLabel: email,
+          after: { email, role, username: username || null, status: "Active" },
+          details: { source: "bulk_invite", credential },
+        });
+        if (assignCcis && rowCcis.length > 0) {
+          batch.set(admin.firestore().collection("cci_user_links").doc(uid), {
+            user_id: uid,
+            cci_id: rowCcis,
+            isEM: "yes",
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          addAuditLog(batch, context, {
+            action: "assignments.update",
+            targetType: "cci_user_link",
+            targetId: uid,
+            targetLabel: email,
+            before: { cci_id: [] },
+            after: { cci_id: rowCcis },
+            details: { source: "bulk_invite", added: rowCcis, removed: [] },
+          });
+          result.assignedCcis = rowCcis.length;
+        }
+        await batch.commit();
+      } catch (err: any) {
+        functions.logger.error("Bulk invite row failed", { row: index + 1, email, err });
+        result.status = result.uid ? "created" : "failed";
+        result.message = err?.message || "Failed to create user.";
+      }
+    }
+
+    const count = (status: InviteResult["status"]) => results.filter((r) => r.status === status).length;
+    functions.logger.info("Bulk invite finished", {
+      created: count("created"),
+      skipped: count("skipped"),
+      failed: count("failed"),
+    });
+    return { credential, results };
+  });
+
+const SIGNUP_NOTE_MAX_LENGTH = 1000;
+
+/**
+ * Called by a new applicant right after sign-up to attach their name and a
+ * note for the admins reviewing the approval queue
+ */
+export const submitAccessRequest = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "Authentication required.");
+  }
+  const username = toPlainString(data?.username).trim().slice(0, 100);
+  const signupNote = toPlainString(data?.note).trim().slice(0, SIGNUP_NOTE_MAX_LENGTH);
+
+  const ref = admin.firestore().collection("users").doc(context.auth.uid);
+  const snapshot = await ref.get();
+  // createUserRecord may not have run yet; anything else is past review
+  if (snapshot.exists && snapshot.data()?.role !== "Pending") {
+    throw new functions.https.HttpsError("failed-precondition", "This account has already been reviewed.");
+  }
+  await ref.set({
+    ...(username ? { username } : {}),
+    signupNote,
+    reviewStatus: "pending",
+    signupSubmittedAt: admin.firestore.FieldValue.serverTimestamp(),
+  }, { merge: true });
+  return { submitted: true };
+});
+
+/**
+ * Approve a pending applicant with a role and CCI assignments, or reject
+ * them with a reason the applicant sees on the Awaiting Review screen.
+ * Custom claims follow through updateUserRoleClaim.
+ */
+export const panelReviewApplicant = functions.https.onCall(async (data, context) => {
+  const adminUid = requireAdmin(context);
+  const uid = typeof data?.uid === "string" ? data.uid : "";
+  const decision = data?.decision;
+  if (!uid || (decision !== "approve" && decision !== "reject")) {
+    throw new functions.https.HttpsError("invalid-argument", "uid and a decision of approve or reject are required.");
+  }
+
+  const userRef = admin.firestore().collection("users").doc(uid);
+  const snapshot = await userRef.get();
+  if (!snapshot.exists) {
+    throw new functions.https.HttpsError("not-found", "User not found.");
+  }
+  const current = snapshot.data() || {};
+  if (current.role !== "Pending") {
+    throw new functions.https.HttpsError("failed-precondition", "This user is no longer pending review.");
+  }
+
+  const reviewStamp = {
+    reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+    reviewedByUid: adminUid,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  const batch = admin.firestore().batch();
+
+  if (decision === "reject") {
+    const reason = toPlainString(data?.reason).trim().slice(0, SIGNUP_NOTE_MAX_LENGTH);
+    if (!reason) {
+      throw new functions.https.HttpsError("invalid-argument", "A reason is required to reject an applicant.");
+    }
+    batch.update(userRef, { reviewStatus: "rejected", rejectionReason: reason, ...reviewStamp });
+    addAuditLog(batch, context, {
+      action: "user.reject",
+      targetType: "user",
+      targetId: uid,
+      targetLabel: current.email ?? null,
+      before: pickFields(current, ["reviewStatus"]),
+      after: { reviewStatus: "rejected" },
+      details: { reason },
+    });
+    await batch.commit();
+    return { uid, decision };
+  }
+
+  const role = toPlainString(data?.role).trim();
+  if (!USER_ROLES.includes(role) || role === "Pending" || role === "Inactive") {
+    throw new functions.https.HttpsError("invalid-argument", `Choose a role to approve with, not "${role}".`);
+  }
+  const cciIds = Array.from(new Set(toStringList(data?.cciIds)));
+  if (cciIds.length > 0) {
+    const ccis = await Promise.all(cciIds.map((id) => admin.firestore().collection("ccis").doc(id).get()));
+    const unknown = ccis.filter((cci) => !cci.exists).map((cci) => cci.id);
+    if (unknown.length > 0) {
+      throw new functions.https.HttpsError("invalid-argument", `Unknown CCI ${unknown.join(", ")}.`);
+    }
+  }
+
+  batch.update(userRef, {
+    role,
+    reviewStatus: "approved",
+    rejectionReason: admin.firestore.FieldValue.delete(),
+    pendingAutoApproval: admin.firestore.FieldValue.delete(),
+    ...reviewStamp,
+  });
+  addAuditLog(batch, context, {
+    action: "user.approve",
+    targetType: "user",
+    targetId: uid,
+    targetLabel: current.email ?? null,
+    before: pickFields(current, ["role", "reviewStatus"]),
+    after: { role, reviewStatus: "approved" },
+  });
+  if (cciIds.length > 0) {
+    const linkRef = admin.firestore().collection("cci_user_links").doc(uid);
+    const before: string[] = (await linkRef.get()).data()?.cci_id || [];
+    batch.set(linkRef, {
+      user_id: uid,
+      cci_id: cciIds,
+      isEM: "yes",
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+    addAuditLog(batch, context, {
+      action: "assignments.update",
+      targetType: "cci_user_link",
+      targetId: uid,
+      targetLabel: current.email ?? null,
+      before: { cci_id: before },
+      after: { cci_id: cciIds },
+      details: {
+        source: "approval",
+        added: cciIds.filter((id) => !before.includes(id)),
+        removed: before.filter((id) => !cciIds.includes(id)),
+      },
+    });
+  }
+  await batch.commit();
+  return { uid, decision, role, assignedCcis: cciIds.length };
+});
+
+const SIGNUP_ALLOWLIST_COLLECTION = "signup_allowlist";
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+interface AllowlistEntry {
+  id: string;
+  kind: "email" | "domain";
+  role: string;
+  cciIds: string[];
+}
+
+/**
+ * Normalise an allowlist value to its document ID: a full email address or
+ * a bare domain, lowercased. Returns null when it is neither.
+ */
+function normalizeAllowlistValue(value: unknown): { id: string; kind: AllowlistEntry["kind"] } | null {
+  const id = toPlainString(value).trim().toLowerCase().replace(/^@/, "");
+  if (id.includes("@")) {
+    return EMAIL_PATTERN.test(id) ? { id, kind: "email" } : null;
+  }
+  return DOMAIN_PATTERN.test(id) ? { id, kind: "domain" } : null;
+}
+
+/**
+ * Allowlist entry for an email address; an exact address wins over its domain
+ */
+async function findAllowlistEntry(email: string): Promise<AllowlistEntry | null> {
+  const address = email.trim().toLowerCase();
+  const domain = address.split("@")[1];
+  if (!address || !domain) {
+    return null;
+  }
+  const collection = admin.firestore().collection(SIGNUP_ALLOWLIST_COLLECTION);
+  for (const id of [address, domain]) {
+    const snapshot = await collection.doc(id).get();
+    const data = snapshot.data();
+    if (data && USER_ROLES.includes(data.role) && data.role !== "Pending" && data.role !== "Inactive") {
+      return { id, kind: data.kind, role: data.role, cciIds: toStringList(data.cciIds) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Give a new user the role and CCIs of their allowlist entry. Only called
+ * once the email address is verified, since sign-up does not prove it.
+ */
+async function applyAutoApproval(uid: string, email: string, entry: AllowlistEntry): Promise<void> {
+  const batch = admin.firestore().batch();
+  batch.set(admin.firestore().collection("users").doc(uid), {
+    role: entry.role,
+    reviewStatus: "approved",
+    approvedByAllowlist: entry.id,
+    pendingAutoApproval: admin.firestore.FieldValue.delete(),
+    reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  }, { merge: true });
+  addAuditLog(batch, null, {
+    action: "user.approve",
+    targetType: "user",
+    targetId: uid,
+    targetLabel: email,
+    before: { role: "Pending" },
+    after: { role: entry.role, reviewStatus: "approved" },
+    details: { source: "allowlist", entry: entry.id, cciIds: entry.cciIds },
+  });
+  if (entry.cciIds.length > 0) {
+    batch.set(admin.firestore().collection("cci_user_links").doc(uid), {
+      user_id: uid,
+      cci_id: entry.cciIds,
+      isEM: "yes",
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+  }
+  await batch.commit();
+  // Set here as well as by updateUserRoleClaim, which does not see creates
+  await admin.auth().setCustomUserClaims(uid, { role: entry.role });
+}
+
+/**
+ * Finish an allowlist approval after the applicant verifies their email
+ */
+export const claimAutoApproval = functions.https.onCall(async (_data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "Authentication required.");
+  }
+  const uid = context.auth.uid;
+  const userRecord = await admin.auth().getUser(uid);
+  if (!userRecord.emailVerified) {
+    throw new functions.https.HttpsError("failed-precondition", "Verify your email address first.");
+  }
+  const profile = (await admin.firestore().collection("users").doc(uid).get()).data();
+  if (!profile || profile.role !== "Pending" || profile.reviewStatus === "rejected") {
+    throw new functions.https.HttpsError("failed-precondition", "This account is not waiting for approval.");
+  }
+  // Looked up again so removing an entry also cancels approvals not yet claimed
+  const entry = await findAllowlistEntry(userRecord.email || "");
+  if (!entry) {
+    throw new functions.https.HttpsError("not-found", "Your email address is no longer on the allowlist; an admin will review your request.");
+  }
+  await applyAutoApproval(uid, userRecord.email || "", entry);
+  return { role: entry.role };
+});
+
+/**
+ * Add or update an allowlist entry: a domain or exact address, the role new
+ * matching accounts get and the CCIs they are assigned
+ */
+export const panelSaveAllowlistEntry = functions.https.onCall(async (data, context) => {
+  const adminUid = requireAdmin(context);
+  const normalized = normalizeAllowlistValue(data?.value);
+  if (!normalized) {
+    throw new functions.https.HttpsError("invalid-argument", "Enter an email address or a domain such as example.org.");
+  }
+  const role = toPlainString(data?.role).trim();
+  if (!USER_ROLES.includes(role) || role === "Pending" || role === "Inactive") {
+    throw new functions.https.HttpsError("invalid-argument", `Choose a default role, not "${role}".`);
+  }
+  const cciIds = Array.from(new Set(toStringList(data?.cciIds)));
+  if (cciIds.length > 0) {
+    const ccis = await Promise.all(cciIds.map((id) => admin.firestore().collection("ccis").doc(id).get()));
+    const unknown = ccis.filter((cci) => !cci.exists).map((cci) => cci.id);
+    if (unknown.length > 0) {
+      throw new functions.https.HttpsError("invalid-argument", `Unknown CCI ${unknown.join(", ")}.`);
+    }
+  }
+
+  const ref = admin.firestore().collection(SIGNUP_ALLOWLIST_COLLECTION).doc(normalized.id);
+  const before = (await ref.get()).data();
+  const after = { value: normalized.id, kind: normalized.kind, role, cciIds };
+  const batch = admin.firestore().batch();
+  batch.set(ref, {
+    ...after,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedByUid: adminUid,
+    ...(before ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() }),
+  }, { merge: true });
+  addAuditLog(batch, context, {
+    action: "allowlist.update",
+    targetType: "allowlist",
+    targetId: normalized.id,
+    targetLabel: normalized.id,
+    before: before ? pickFields(before, ["role", "cciIds"]) : undefined,
+    after: { role, cciIds },
+  });
+  await batch.commit();
+  return { id: normalized.id };
+});
+
+export const panelDeleteAllowlistEntry = functions.https.onCall(async (data, context) => {
+  requireAdmin(context);
+  const id = typeof data?.id === "string" ? data.id : "";
+  if (!id) {
+    throw new functions.https.HttpsError("invalid-argument", "id is required.");
+  }
+  const ref = admin.firestore().collection(SIGNUP_ALLOWLIST_COLLECTION).doc(id);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    throw new functions.https.HttpsError("not-found", "Allowlist entry not found.");
+  }
+  const batch = admin.firestore().batch();
+  batch.delete(ref);
+  addAuditLog(batch, context, {
+    action: "allowlist.delete",
+    targetType: "allowlist",
+    targetId: id,
+    targetLabel: id,
+    before: pickFields(snapshot.data(), ["role", "cciIds"]),
+  });
+  await batch.commit();
+  return { deleted: id };
+});
+
+const TEAMS_COLLECTION = "teams";
+
+/**
+ * Create or update a supervisor's team. Each supervisor leads one team, kept
+ * at teams/{supervisorUid}, so the rules can find it from the signed-in user.
+ */
+export const panelSaveTeam = functions.https.onCall(async (data, context) => {
+  const adminUid = requireAdmin(context);
+  const supervisorUid = toPlainString(data?.supervisorUid).trim();
+  const name = toPlainString(data?.name).trim();
+  if (!supervisorUid || !name) {
+    throw new functions.https.HttpsError("invalid-argument", "A team needs a name and a supervisor.");
+  }
+  const supervisor = (await admin.firestore().collection("users").doc(supervisorUid).get()).data();
+  if (!supervisor || supervisor.role !== "Supervisor") {
+    throw new functions.https.HttpsError("invalid-argument", "Choose a user with the Supervisor role to lead the team.");
+  }
+  const memberUids = Array.from(new Set(toStringList(data?.memberUids))).filter((uid) => uid !== supervisorUid);
+  if (memberUids.length > ADMIN_BATCH_LIMIT) {
+    throw new functions.https.HttpsError("invalid-argument", `A team can have at most ${ADMIN_BATCH_LIMIT} members.`);
+  }
+  if (memberUids.length > 0) {
+    const members = await Promise.all(memberUids.map((uid) => admin.firestore().collection("users").doc(uid).get()));
+    const unknown = members.filter((member) => !member.exists).map((member) => member.id);
+    if (unknown.length > 0) {
+      throw new functions.https.HttpsError("invalid-argument", `Unknown user ${unknown.join(", ")}.`);
+    }
+  }
+
+  const ref = admin.firestore().collection(TEAMS_COLLECTION).doc(supervisorUid);
+  const before = (await ref.get()).data();
+  const batch = admin.firestore().batch();
+  batch.set(ref, {
+    name,
+    supervisorUid,
+    memberUids,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedByUid: adminUid,
+    ...(before ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() }),
+  }, { merge: true });
+  addAuditLog(batch, context, {
+    action: "team.update",
+    targetType: "team",
+    targetId: supervisorUid,
+    targetLabel: name,
+    before: before ? pickFields(before, ["name", "memberUids"]) : undefined,
+    after: { name, memberUids },
+  });
+  await batch.commit();
+  return { id: supervisorUid };
+});
+
+export const panelDeleteTeam = functions.https.onCall(async (data, context) => {
+  requireAdmin(context);
+  const id = typeof data?.id === "string" ? data.id : "";
+  if (!id) {
+    throw new functions.https.HttpsError("invalid-argument", "id is required.");
+  }
+  const ref = admin.firestore().collection(TEAMS_COLLECTION).doc(id);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    throw new functions.https.HttpsError("not-found", "Team not found.");
+  }
+  const batch = admin.firestore().batch();
+  batch.delete(ref);
+  addAuditLog(batch, context, {
+    action: "team.delete",
+    targetType: "team",
+    targetId: id,
+    targetLabel: snapshot.get("name") ?? null,
+    before: pickFields(snapshot.data(), ["name", "memberUids"]),
+  });
+  await batch.commit();
+  return { deleted: id };
+});
+
+export const panelDeleteCci = functions.https.onCall(async (data, context) => {
+  requireAdmin(context);
+  const cciId = typeof data?.cciId === "string" ? data.cciId : "";
+  if (!cciId) {
+    throw new functions.https.HttpsError("invalid-argument", "cciId is required.");
+  }
+  const ref = admin.firestore().collection("ccis").doc(cciId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    throw new functions.https.HttpsError("not-found", "CCI not found.");
+  }
+  const before = snapshot.data() || {};
+  const batch = admin.firestore().batch();
+  batch.delete(ref);
+  addAuditLog(batch, context, {
+    action: "cci.delete",
+    targetType: "cci",
+    targetId: cciId,
+    targetLabel: before.name || before.cci_name || null,
+    before,
+  });
+  await batch.commit();
+  return { deleted: cciId };
+});
+
+/**
+ * Delete a visit, keeping its fields in the audit log. Its events and
+ * snapshots subcollections are left for the archive export to pick up.
+ */
+export const panelDeleteVisit = functions.https.onCall(async (data, context) => {
+  requireAdmin(context);
+  const visitId = typeof data?.visitId === "string" ? data.visitId : "";
+  if (!visitId) {
+    throw new functions.https.HttpsError("invalid-argument", "visitId is required.");
+  }
+  const ref = admin.firestore().collection("visits").doc(visitId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    throw new functions.https.HttpsError("not-found", "Visit not found.");
+  }
+  const before = snapshot.data() || {};
+  const batch = admin.firestore().batch();
+  batch.delete(ref);
+  addAuditLog(batch, context, {
+    action: "visit.delete",
+    targetType: "visit",
+    targetId: visitId,
+    targetLabel: [before.cci_name, before.date?.toDate ? formatIstDayKey(before.date.toDate()) : null]
+      .filter(Boolean).join(" · ") || null,
+    before,
+  });
+  await batch.commit();
+  return { deleted: visitId };
+});
+
 const CSV_HEADERS = [
   "id",
   "date",
+  "status",
   "cci_id",
   "cci_name",
   "filledByUid",
@@ -114,10 +971,20 @@ const CSV_INJECTION_PREFIX = /^[=+\-@]/;
 const CSV_LINE_BREAK_REGEX = /\r\n|\n|\r/g;
 const VISIT_BATCH_SIZE = 500;
 const DEFAULT_STORAGE_PREFIX = "backups/visits";
+const DEFAULT_EXPORT_PREFIX = "exports/visits";
+const DEFAULT_ARCHIVE_PREFIX = "backups/archives";
+const EXPORT_URL_TTL_MS = 60 * 60 * 1000;
+const BACKUPS_COLLECTION = "backups";
+const DEFAULT_BACKUP_RETENTION = { daily: 14, weekly: 8, monthly: 12 };
+// Archives are written weekly, so only the weekly and monthly tiers apply
+const DEFAULT_ARCHIVE_RETENTION = { daily: 0, weekly: 8, monthly: 12 };
+const DEFAULT_EXPORT_RETENTION_DAYS = 30;
+const DEFAULT_SNAPSHOT_POLICY = { everyEvents: 10, idleMinutes: 30 };
 
 interface VisitCsvRow {
   id: string;
   date: string;
+  status: string;
   cci_id: string;
   cci_name: string;
   filledByUid: string;
@@ -249,6 +1116,7 @@ async function fetchVisitRows(): Promise<VisitCsvRow[]> {
       rows.push({
         id: doc.id,
         date: formatIstDate(data.date),
+        status: toPlainString(data.status),
         cci_id: toPlainString(data.cci_id),
         cci_name: toPlainString(data.cci_name),
         filledByUid: toPlainString(data.filledByUid),
@@ -277,6 +1145,7 @@ function buildCsv(rows: VisitCsvRow[]): string {
     const values = [
       row.id,
       row.date,
+      row.status,
       row.cci_id,
       row.cci_name,
       row.filledByUid,
@@ -295,48 +1164,273 @@ function buildCsv(rows: VisitCsvRow[]): string {
 function getStorageTarget() {
   const bucketName = functions.config().exports?.bucket as string | undefined;
   const prefix = (functions.config().exports?.prefix as string | undefined) ?? DEFAULT_STORAGE_PREFIX;
+  const exportPrefix = (functions.config().exports?.adhoc_prefix as string | undefined) ?? DEFAULT_EXPORT_PREFIX;
+  const archivePrefix = (functions.config().exports?.archive_prefix as string | undefined) ?? DEFAULT_ARCHIVE_PREFIX;
   return {
     bucketName,
     prefix: prefix.replace(/^\/+|\/+$/g, ""),
+    exportPrefix: exportPrefix.replace(/^\/+|\/+$/g, ""),
+    archivePrefix: archivePrefix.replace(/^\/+|\/+$/g, ""),
   };
 }
 
-async function uploadCsvToStorage(csvContent: string, fileName: string) {
-  const { bucketName, prefix } = getStorageTarget();
+async function saveToStorage(content: string | Buffer, filePathWithinBucket: string, contentType: string) {
+  const { bucketName } = getStorageTarget();
   const bucket = bucketName ? admin.storage().bucket(bucketName) : admin.storage().bucket();
-  const normalizedPrefix = prefix ? `${prefix}/` : "";
-  const filePath = `${normalizedPrefix}${fileName}`;
-  const file = bucket.file(filePath);
-  await file.save(csvContent, {
-    contentType: "text/csv",
+  const file = bucket.file(filePathWithinBucket);
+  await file.save(content, {
+    contentType,
     resumable: false,
   });
   return {
+    file,
     bucket: bucket.name,
-    filePath,
-    gsUri: `gs://${bucket.name}/${filePath}`,
+    filePath: filePathWithinBucket,
+    gsUri: `gs://${bucket.name}/${filePathWithinBucket}`,
+    sizeBytes: Buffer.byteLength(content),
+    checksumSha256: createHash("sha256").update(content).digest("hex"),
   };
 }
 
-async function exportVisitsCsvInternal() {
+async function uploadCsvToStorage(csvContent: string, fileName: string) {
+  const { prefix } = getStorageTarget();
+  const normalizedPrefix = prefix ? `${prefix}/` : "";
+  const { bucket, filePath, gsUri, sizeBytes, checksumSha256 } = await saveToStorage(
+    csvContent,
+    `${normalizedPrefix}${fileName}`,
+    "text/csv"
+  );
+  return { bucket, filePath, gsUri, sizeBytes, checksumSha256 };
+}
+
+type BackupTrigger = "scheduled" | "manual";
+
+interface BackupActor {
+  uid: string;
+  email: string | null;
+}
+
+/**
+ * Record an export in the backups manifest collection
+ */
+async function recordBackupManifest(entry: {
+  kind: "backup" | "export" | "archive";
+  trigger: BackupTrigger;
+  actor: BackupActor | null;
+  fileName: string;
+  filePath: string;
+  bucket: string;
+  gsUri: string;
+  format: string;
+  rowCount: number;
+  sizeBytes: number;
+  checksumSha256: string;
+  details?: Record<string, unknown>;
+}): Promise<string> {
+  const { actor, details, ...fields } = entry;
+  const ref = await admin.firestore().collection(BACKUPS_COLLECTION).add({
+    ...fields,
+    ...(details ? { details } : {}),
+    status: "available",
+    createdByUid: actor?.uid ?? null,
+    createdByEmail: actor?.email ?? null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return ref.id;
+}
+
+async function exportVisitsCsvInternal(trigger: BackupTrigger, actor: BackupActor | null = null) {
   const rows = await fetchVisitRows();
   const csvContent = buildCsv(rows);
   const fileName = `visits_${formatIstTimestampForFilename(new Date())}.csv`;
   const uploadResult = await uploadCsvToStorage(csvContent, fileName);
-  return { ...uploadResult, fileName, rowCount: rows.length };
+  const backupId = await recordBackupManifest({
+    kind: "backup",
+    trigger,
+    actor,
+    fileName,
+    format: "csv",
+    rowCount: rows.length,
+    ...uploadResult,
+  });
+  return { ...uploadResult, fileName, rowCount: rows.length, backupId };
 }
 
-export const exportVisitsCsvNightly = functions.pubsub
-  .schedule("0 3 * * *")
-  .timeZone(IST_TIME_ZONE)
-  .onRun(async () => {
-    try {
-      const result = await exportVisitsCsvInternal();
-      functions.logger.info("Visits CSV export completed", result);
-    } catch (error) {
+type BackupRetention = { daily: number; weekly: number; monthly: number };
+
+function parseRetentionValue(value: unknown, fallback: number) {
+  const parsed = Number(value);
+  return value !== undefined && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function getBackupRetention(): BackupRetention {
+  const config = functions.config().exports ?? {};
+  return {
+    daily: parseRetentionValue(config.retention_daily, DEFAULT_BACKUP_RETENTION.daily),
+    weekly: parseRetentionValue(config.retention_weekly, DEFAULT_BACKUP_RETENTION.weekly),
+    monthly: parseRetentionValue(config.retention_monthly, DEFAULT_BACKUP_RETENTION.monthly),
+  };
+}
+
+function getArchiveRetention(): BackupRetention {
+  const config = functions.config().exports ?? {};
+  return {
+    daily: DEFAULT_ARCHIVE_RETENTION.daily,
+    weekly: parseRetentionValue(config.archive_retention_weekly, DEFAULT_ARCHIVE_RETENTION.weekly),
+    monthly: parseRetentionValue(config.archive_retention_monthly, DEFAULT_ARCHIVE_RETENTION.monthly),
+  };
+}
+
+const BACKUP_NAME_PATTERN = /^visits_(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})\.csv$/;
+const EXPORT_NAME_PATTERN = /^visits_(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})\.(?:csv|xlsx|ndjson)$/;
+const ARCHIVE_NAME_PATTERN = /^visits_archive_(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})\.zip$/;
+
+/**
+ * Read the IST timestamp embedded in a backup name such as
+ * visits_YYYYMMDD_HHMMSS.csv
+ */
+function parseBackupTimestamp(fileName: string, pattern: RegExp = BACKUP_NAME_PATTERN): Date | null {
+  const match = pattern.exec(fileName);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  return new Date(istMidnight(year, month, day).getTime() + ((hour * 60 + minute) * 60 + second) * 1000);
+}
+
+/**
+ * Grandfather-father-son selection: keep the newest backup of each of the most
+ * recent N days, weeks and months. The newest backup overall is always kept.
+ */
+function selectBackupsToKeep(
+  backups: Array<{ name: string; createdAt: Date }>,
+  retention: BackupRetention
+): Set<string> {
+  const sorted = [...backups].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const keep = new Set<string>(sorted.slice(0, 1).map((backup) => backup.name));
+  const calendar = getFiscalCalendar();
+  const tiers: Array<{ limit: number; key: (date: Date) => string }> = [
+    { limit: retention.daily, key: (date) => formatIstDayKey(date) },
+    { limit: retention.weekly, key: (date) => getWeekId(date, calendar) },
+    { limit: retention.monthly, key: (date) => getMonthId(date) },
+  ];
+
+  for (const tier of tiers) {
+    const seen = new Set<string>();
+    for (const backup of sorted) {
+      if (seen.size >= tier.limit) {
+        break;
+      }
+      const key = tier.key(backup.createdAt);
+      if (!seen.has(key)) {
+        seen.add(key);
+        keep.add(backup.name);
+      }
+    }
+  }
+  return keep;
+}
+
+/**
+ * Delete files under a prefix that fall outside the retention policy and mark
+ * their manifest entries as pruned. Only names matching the pattern are
+ * considered.
+ */
+async function pruneBackupFiles(prefix: string, pattern: RegExp, retention: BackupRetention) {
+  const { bucketName } = getStorageTarget();
+  const bucket = bucketName ? admin.storage().bucket(bucketName) : admin.storage().bucket();
+  const normalizedPrefix = prefix ? `${prefix}/` : "";
+  const [files] = await bucket.getFiles({ prefix: normalizedPrefix });
+
+  const backups = files.flatMap((file) => {
+    const createdAt = parseBackupTimestamp(file.name.slice(normalizedPrefix.length), pattern);
+    return createdAt ? [{ name: file.name, createdAt, file }] : [];
+  });
+  const keep = selectBackupsToKeep(backups, retention);
+  const pruned = backups.filter((backup) => !keep.has(backup.name));
+
+  for (const backup of pruned) {
+    await deleteBackupFile(backup.file);
+  }
+
+  return { retention, kept: keep.size, pruned: pruned.map((backup) => backup.name) };
+}
+
+/**
+ * Delete a stored export and mark its manifest entries as pruned
+ */
+async function deleteBackupFile(file: { name: string; delete: (options: { ignoreNotFound: boolean }) => Promise<unknown> }) {
+  await file.delete({ ignoreNotFound: true });
+  const manifestSnapshot = await admin.firestore().collection(BACKUPS_COLLECTION)
+    .where("filePath", "==", file.name)
+    .get();
+  await Promise.all(manifestSnapshot.docs.map((doc) => doc.ref.update({
+    status: "pruned",
+    prunedAt: admin.firestore.FieldValue.serverTimestamp(),
+  })));
+}
+
+async function pruneVisitBackups() {
+  return pruneBackupFiles(getStorageTarget().prefix, BACKUP_NAME_PATTERN, getBackupRetention());
+}
+
+async function pruneVisitArchives() {
+  return pruneBackupFiles(getStorageTarget().archivePrefix, ARCHIVE_NAME_PATTERN, getArchiveRetention());
+}
+
+/**
+ * Delete filtered exports older than the configured number of days. They are
+ * one-off downloads, so age is the only policy. Skipped when the export prefix
+ * is shared with scheduled backups, whose names look the same.
+ */
+async function pruneAdhocExports() {
+  const { bucketName, prefix, exportPrefix, archivePrefix } = getStorageTarget();
+  if (exportPrefix === prefix || exportPrefix === archivePrefix) {
+    return { skipped: "exports.adhoc_prefix is shared with scheduled backups" };
+  }
+  const maxAgeDays = parseRetentionValue(functions.config().exports?.adhoc_retention_days, DEFAULT_EXPORT_RETENTION_DAYS);
+  const bucket = bucketName ? admin.storage().bucket(bucketName) : admin.storage().bucket();
+  const normalizedPrefix = exportPrefix ? `${exportPrefix}/` : "";
+  const [files] = await bucket.getFiles({ prefix: normalizedPrefix });
+
+  const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+  const expired = files.filter((file) => {
+    const createdAt = parseBackupTimestamp(file.name.slice(normalizedPrefix.length), EXPORT_NAME_PATTERN);
+    return createdAt && createdAt.getTime() < cutoff;
+  });
+  for (const file of expired) {
+    await deleteBackupFile(file);
+  }
+
+  return { maxAgeDays, pruned: expired.map((file) => file.name) };
+}
+
+export const exportVisitsCsvNightly = functions.pubsub
+  .schedule("0 3 * * *")
+  .timeZone(IST_TIME_ZONE)
+  .onRun(async () => {
+    try {
+      const result = await exportVisitsCsvInternal("scheduled");
+      functions.logger.info("Visits CSV export completed", result);
+    } catch (error) {
       functions.logger.error("Visits CSV export failed", error as Error);
       throw error;
     }
+
+    try {
+      const pruneResult = await pruneVisitBackups();
+      functions.logger.info("Visits backup retention applied", pruneResult);
+    } catch (error) {
+      // A failed prune only leaves extra files behind; the new backup is already safe
+      functions.logger.error("Visits backup retention failed", error as Error);
+    }
+
+    try {
+      const pruneResult = await pruneAdhocExports();
+      functions.logger.info("Filtered export retention applied", pruneResult);
+    } catch (error) {
+      functions.logger.error("Filtered export retention failed", error as Error);
+    }
   });
 
 export const panelExportVisitsCsv = functions.https.onCall(async (_data, context) => {
@@ -349,7 +1443,10 @@ export const panelExportVisitsCsv = functions.https.onCall(async (_data, context
   }
 
   try {
-    const result = await exportVisitsCsvInternal();
+    const result = await exportVisitsCsvInternal("manual", {
+      uid: context.auth.uid,
+      email: (token.email as string | undefined) ?? null,
+    });
     functions.logger.info("Visits CSV export triggered by admin", {
       uid: context.auth.uid,
       ...result,
@@ -360,7 +1457,907 @@ export const panelExportVisitsCsv = functions.https.onCall(async (_data, context
     functions.logger.error("Admin-triggered visits CSV export failed", error as Error);
     throw new functions.https.HttpsError("internal", `Failed to export visits CSV: ${message}`);
   }
-});
+});
+
+type ExportFormat = "csv" | "xlsx" | "ndjson";
+
+interface VisitExportFilters {
+  from: Date | null;
+  to: Date | null;
+  cciIds: string[];
+  cohorts: string[];
+  emUids: string[];
+  statuses: string[];
+}
+
+interface VisitExportContext {
+  cohortsByCci: Map<string, string>;
+}
+
+interface VisitExportColumn {
+  header: string;
+  value: (id: string, visit: admin.firestore.DocumentData, context: VisitExportContext) => string;
+}
+
+const EXPORT_FORMATS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  csv: { extension: "csv", contentType: "text/csv" },
+  xlsx: { extension: "xlsx", contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+  ndjson: { extension: "ndjson", contentType: "application/x-ndjson" },
+};
+
+function formatIstDateTime(value: unknown): string {
+  const date = ensureDate(value);
+  if (!date) {
+    return "";
+  }
+  return `${formatIstDate(date)} ${new Intl.DateTimeFormat("en-GB", {
+    timeZone: IST_TIME_ZONE,
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).format(date)}`;
+}
+
+function formatVisitNotes(value: unknown): string {
+  if (!Array.isArray(value)) {
+    return "";
+  }
+  return value
+    .map((note) => stripHtml(toPlainString(note?.text)))
+    .filter(Boolean)
+    .join(" | ");
+}
+
+const VISIT_EXPORT_COLUMNS: Record<string, VisitExportColumn> = {
+  id: { header: "id", value: (id) => id },
+  date: { header: "date", value: (_id, visit) => formatIstDate(visit.date) },
+  status: { header: "status", value: (_id, visit) => toPlainString(visit.status) },
+  cci_id: { header: "cci_id", value: (_id, visit) => toPlainString(visit.cci_id) },
+  cci_name: { header: "cci_name", value: (_id, visit) => toPlainString(visit.cci_name) },
+  cohort: { header: "cohort", value: (_id, visit, context) => context.cohortsByCci.get(visit.cci_id) ?? "" },
+  filledByUid: { header: "filledByUid", value: (_id, visit) => toPlainString(visit.filledByUid) },
+  filledBy: { header: "filledBy", value: (_id, visit) => toPlainString(visit.filledBy) },
+  personMet: { header: "personMet", value: (_id, visit) => toPlainString(visit.personMet) },
+  quality: { header: "quality", value: (_id, visit) => toPlainString(visit.quality) },
+  visitHours: { header: "visitHours", value: (_id, visit) => toPlainString(visit.visitHours) },
+  agenda: { header: "agenda", value: (_id, visit) => stripHtml(toPlainString(visit.agenda)) },
+  debrief: { header: "debrief", value: (_id, visit) => stripHtml(toPlainString(visit.debrief)) },
+  notes: { header: "notes", value: (_id, visit) => formatVisitNotes(visit.notes) },
+  createdAt: { header: "createdAt", value: (_id, visit) => formatIstDateTime(visit.createdAt) },
+  updatedAt: { header: "updatedAt", value: (_id, visit) => formatIstDateTime(visit.updatedAt) },
+};
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((item): item is string => typeof item === "string" && item.trim() !== "").map((item) => item.trim());
+}
+
+function parseVisitExportRequest(data: any): { format: ExportFormat; columns: string[]; filters: VisitExportFilters } {
+  const format = (data?.format ?? "csv") as ExportFormat;
+  if (!EXPORT_FORMATS[format]) {
+    throw new functions.https.HttpsError("invalid-argument", `Unsupported export format: ${String(data?.format)}.`);
+  }
+
+  const requestedColumns = toStringList(data?.columns);
+  const columns = requestedColumns.length > 0 ? requestedColumns : CSV_HEADERS;
+  const unknownColumns = columns.filter((column) => !VISIT_EXPORT_COLUMNS[column]);
+  if (unknownColumns.length > 0) {
+    throw new functions.https.HttpsError("invalid-argument", `Unknown export column(s): ${unknownColumns.join(", ")}.`);
+  }
+
+  const rawFilters = data?.filters ?? {};
+  const from = typeof rawFilters.from === "string" && rawFilters.from ? parseIstDay(rawFilters.from) : null;
+  const toDay = typeof rawFilters.to === "string" && rawFilters.to ? parseIstDay(rawFilters.to) : null;
+  if ((rawFilters.from && !from) || (rawFilters.to && !toDay)) {
+    throw new functions.https.HttpsError("invalid-argument", "from and to must be dates in YYYY-MM-DD format.");
+  }
+  const to = toDay ? new Date(addDays(toDay, 1).getTime() - 1) : null;
+  if (from && to && from > to) {
+    throw new functions.https.HttpsError("invalid-argument", "from must be on or before to.");
+  }
+
+  return {
+    format,
+    columns,
+    filters: {
+      from,
+      to,
+      cciIds: toStringList(rawFilters.cciIds),
+      cohorts: toStringList(rawFilters.cohorts),
+      emUids: toStringList(rawFilters.emUids),
+      statuses: toStringList(rawFilters.statuses).map((status) => status.toLowerCase()),
+    },
+  };
+}
+
+/**
+ * Page through visits inside the date range, applying the remaining filters in
+ * memory so no extra composite indexes are needed
+ */
+async function fetchFilteredVisits(filters: VisitExportFilters, context: VisitExportContext) {
+  const visits: Array<{ id: string; data: admin.firestore.DocumentData }> = [];
+  let query: admin.firestore.Query = admin.firestore().collection("visits");
+  if (filters.from) {
+    query = query.where("date", ">=", admin.firestore.Timestamp.fromDate(filters.from));
+  }
+  if (filters.to) {
+    query = query.where("date", "<=", admin.firestore.Timestamp.fromDate(filters.to));
+  }
+  query = query.orderBy("date").limit(VISIT_BATCH_SIZE);
+
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+  while (true) {
+    const snapshot: admin.firestore.QuerySnapshot = await (lastDoc ? query.startAfter(lastDoc) : query).get();
+    if (snapshot.empty) {
+      break;
+    }
+
+    for (const doc of snapshot.docs) {
+      const visit = doc.data();
+      if (filters.cciIds.length > 0 && !filters.cciIds.includes(visit.cci_id)) {
+        continue;
+      }
+      if (filters.cohorts.length > 0 && !filters.cohorts.includes(context.cohortsByCci.get(visit.cci_id) ?? "")) {
+        continue;
+      }
+      if (filters.emUids.length > 0 && !filters.emUids.includes(visit.filledByUid)) {
+        continue;
+      }
+      if (filters.statuses.length > 0 && !filters.statuses.includes((visit.status || "scheduled").toLowerCase())) {
+        continue;
+      }
+      visits.push({ id: doc.id, data: visit });
+    }
+
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    if (snapshot.size < VISIT_BATCH_SIZE) {
+      break;
+    }
+  }
+  return visits;
+}
+
+async function serializeVisitExport(format: ExportFormat, columns: string[], rows: string[][]): Promise<string | Buffer> {
+  const headers = columns.map((column) => VISIT_EXPORT_COLUMNS[column].header);
+  if (format === "ndjson") {
+    return rows
+      .map((row) => JSON.stringify(Object.fromEntries(headers.map((header, index) => [header, row[index]]))))
+      .join("\n") + "\n";
+  }
+  if (format === "xlsx") {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet("Visits");
+    sheet.addRow(headers).font = { bold: true };
+    rows.forEach((row) => sheet.addRow(row));
+    sheet.views = [{ state: "frozen", ySplit: 1 }];
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+  const lines = [headers, ...rows].map((row) => row.map(escapeCsvValue).join(","));
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * Admin callable producing a filtered visits export in CSV, XLSX or NDJSON and
+ * returning a time-limited download URL
+ */
+export const panelExportVisits = functions
+  .runWith({ timeoutSeconds: 300, memory: "1GB" })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError("unauthenticated", "Authentication required.");
+    }
+    const token: Record<string, unknown> = context.auth.token || {};
+    if (token.role !== "Admin") {
+      throw new functions.https.HttpsError("permission-denied", "Admin privileges required.");
+    }
+
+    const { format, columns, filters } = parseVisitExportRequest(data);
+
+    try {
+      const ccisSnapshot = await admin.firestore().collection("ccis").get();
+      const exportContext: VisitExportContext = {
+        cohortsByCci: new Map(ccisSnapshot.docs.map((doc) => [doc.id, toPlainString(doc.get("cohort"))])),
+      };
+
+      const visits = await fetchFilteredVisits(filters, exportContext);
+      const rows = visits.map(({ id, data: visit }) =>
+        columns.map((column) => VISIT_EXPORT_COLUMNS[column].value(id, visit, exportContext))
+      );
+      const content = await serializeVisitExport(format, columns, rows);
+
+      const { extension, contentType } = EXPORT_FORMATS[format];
+      const { exportPrefix } = getStorageTarget();
+      const fileName = `visits_${formatIstTimestampForFilename(new Date())}.${extension}`;
+      const stored = await saveToStorage(content, `${exportPrefix ? `${exportPrefix}/` : ""}${fileName}`, contentType);
+      const expiresAt = Date.now() + EXPORT_URL_TTL_MS;
+      const [downloadUrl] = await stored.file.getSignedUrl({ action: "read", expires: expiresAt });
+      const backupId = await recordBackupManifest({
+        kind: "export",
+        trigger: "manual",
+        actor: { uid: context.auth.uid, email: (token.email as string | undefined) ?? null },
+        fileName,
+        filePath: stored.filePath,
+        bucket: stored.bucket,
+        gsUri: stored.gsUri,
+        format,
+        rowCount: rows.length,
+        sizeBytes: stored.sizeBytes,
+        checksumSha256: stored.checksumSha256,
+        details: {
+          columns,
+          // The validated filters, with dates as the IST days they cover
+          filters: {
+            ...filters,
+            from: filters.from ? formatIstDayKey(filters.from) : null,
+            to: filters.to ? formatIstDayKey(filters.to) : null,
+          },
+        },
+      });
+
+      const result = {
+        bucket: stored.bucket,
+        filePath: stored.filePath,
+        gsUri: stored.gsUri,
+        fileName,
+        format,
+        rowCount: rows.length,
+        downloadUrl,
+        expiresAt: new Date(expiresAt).toISOString(),
+        backupId,
+      };
+      functions.logger.info("Filtered visits export triggered by admin", {
+        uid: context.auth.uid,
+        columns,
+        filters,
+        ...result,
+        downloadUrl: undefined,
+      });
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      functions.logger.error("Filtered visits export failed", error as Error);
+      throw new functions.https.HttpsError("internal", `Failed to export visits: ${message}`);
+    }
+  });
+
+const RESTORE_BATCH_SIZE = 400;
+const BACKUP_FILE_PATTERN = /^visits_\d{8}_\d{6}\.csv$/;
+
+type VisitRestoreField = Exclude<keyof VisitCsvRow, "id">;
+
+// Backups written before status was exported don't carry it
+const OPTIONAL_BACKUP_FIELDS: VisitRestoreField[] = ["status"];
+
+const RESTORABLE_FIELDS: VisitRestoreField[] = [
+  "date",
+  "status",
+  "cci_id",
+  "cci_name",
+  "filledByUid",
+  "filledBy",
+  "personMet",
+  "quality",
+  "visitHours",
+  "agenda",
+  "debrief",
+];
+
+function requireAdmin(context: functions.https.CallableContext): string {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "Authentication required.");
+  }
+  const token: Record<string, unknown> = context.auth.token || {};
+  if (token.role !== "Admin") {
+    throw new functions.https.HttpsError("permission-denied", "Admin privileges required.");
+  }
+  return context.auth.uid;
+}
+
+/**
+ * Parse CSV text into rows keyed by header, handling quoted fields and line breaks
+ */
+function parseCsv(text: string): Array<Record<string, string>> {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      if (inQuotes && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === "," && !inQuotes) {
+      record.push(field);
+      field = "";
+    } else if ((ch === "\n" || ch === "\r") && !inQuotes) {
+      if (ch === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const headers = (records.shift() ?? []).map((header) => header.trim());
+  return records
+    .filter((values) => values.some((value) => value.trim() !== ""))
+    .map((values) => Object.fromEntries(headers.map((header, index) => [header, values[index] ?? ""])));
+}
+
+/**
+ * Undo the quoting applied by escapeCsvValue so values compare with live data
+ */
+function unescapeCsvValue(value: string): string {
+  return /^'[=+\-@]/.test(value) ? value.slice(1) : value;
+}
+
+/**
+ * Apply the same normalisation the CSV export does, so live values can be
+ * compared with the backup text
+ */
+function normalizeForBackup(value: string): string {
+  return value.replace(CSV_LINE_BREAK_REGEX, " ").trim();
+}
+
+function resolveBackupPath(filePath: unknown): string {
+  const { prefix } = getStorageTarget();
+  const normalizedPrefix = prefix ? `${prefix}/` : "";
+  if (typeof filePath !== "string" || !filePath.startsWith(normalizedPrefix)
+    || !BACKUP_FILE_PATTERN.test(filePath.slice(normalizedPrefix.length))) {
+    throw new functions.https.HttpsError("invalid-argument", "filePath must point to a visits backup in the configured prefix.");
+  }
+  return filePath;
+}
+
+async function readBackupRows(filePath: string): Promise<Map<string, VisitCsvRow>> {
+  const { bucketName } = getStorageTarget();
+  const bucket = bucketName ? admin.storage().bucket(bucketName) : admin.storage().bucket();
+  const file = bucket.file(filePath);
+  const [exists] = await file.exists();
+  if (!exists) {
+    throw new functions.https.HttpsError("not-found", `Backup ${filePath} was not found.`);
+  }
+  const [contents] = await file.download();
+  const records = parseCsv(contents.toString("utf8"));
+  const missingHeaders = CSV_HEADERS.filter((header) =>
+    records.length > 0 && !(header in records[0]) && !OPTIONAL_BACKUP_FIELDS.includes(header as VisitRestoreField)
+  );
+  if (missingHeaders.length > 0) {
+    throw new functions.https.HttpsError("failed-precondition", `Backup is missing column(s): ${missingHeaders.join(", ")}.`);
+  }
+
+  const rows = new Map<string, VisitCsvRow>();
+  for (const record of records) {
+    const row = Object.fromEntries(
+      CSV_HEADERS.map((header) => [header, unescapeCsvValue(record[header] ?? "")])
+    ) as unknown as VisitCsvRow;
+    if (row.id) {
+      rows.set(row.id, row);
+    }
+  }
+  return rows;
+}
+
+interface VisitRestoreDiff {
+  new: VisitCsvRow[];
+  changed: Array<{ backup: VisitCsvRow; current: VisitCsvRow; fields: VisitRestoreField[] }>;
+  missing: VisitCsvRow[];
+}
+
+async function diffBackupAgainstFirestore(backupRows: Map<string, VisitCsvRow>): Promise<VisitRestoreDiff> {
+  const currentRows = new Map((await fetchVisitRows()).map((row) => [row.id, row]));
+  const diff: VisitRestoreDiff = { new: [], changed: [], missing: [] };
+
+  backupRows.forEach((backup, id) => {
+    const current = currentRows.get(id);
+    if (!current) {
+      diff.new.push(backup);
+      return;
+    }
+    const fields = RESTORABLE_FIELDS.filter((field) =>
+      !(OPTIONAL_BACKUP_FIELDS.includes(field) && backup[field] === "")
+      && normalizeForBackup(current[field]) !== backup[field]
+    );
+    if (fields.length > 0) {
+      diff.changed.push({ backup, current, fields });
+    }
+  });
+  currentRows.forEach((current, id) => {
+    if (!backupRows.has(id)) {
+      diff.missing.push(current);
+    }
+  });
+  return diff;
+}
+
+// Live values the backup cannot reproduce: the rich text and the time of day
+interface LiveVisitContent {
+  date: Date | null;
+  agenda: string;
+  debrief: string;
+}
+
+async function fetchLiveVisitContent(ids: string[]): Promise<Map<string, LiveVisitContent>> {
+  const visitsRef = admin.firestore().collection("visits");
+  const live = new Map<string, LiveVisitContent>();
+  for (let i = 0; i < ids.length; i += RESTORE_BATCH_SIZE) {
+    const refs = ids.slice(i, i + RESTORE_BATCH_SIZE).map((id) => visitsRef.doc(id));
+    if (refs.length === 0) {
+      continue;
+    }
+    const snapshots = await admin.firestore().getAll(...refs);
+    for (const snapshot of snapshots) {
+      const data = snapshot.data();
+      if (data) {
+        live.set(snapshot.id, {
+          date: ensureDate(data.date),
+          agenda: toPlainString(data.agenda),
+          debrief: toPlainString(data.debrief),
+        });
+      }
+    }
+  }
+  return live;
+}
+
+/**
+ * What reverting a field loses. Agenda and debrief only differ when their text
+ * does, since the diff compares stripped HTML, but the revert still replaces
+ * formatted text with the backup's plain text.
+ */
+function restoreLossNote(field: VisitRestoreField, live: LiveVisitContent | undefined): string | null {
+  if ((field === "agenda" || field === "debrief") && live && /<[^>]+>/.test(live[field])) {
+    return "Formatting is lost: the backup only has plain text.";
+  }
+  return null;
+}
+
+/**
+ * Firestore fields for a backup row; agenda and debrief come back as plain
+ * text because the export strips their HTML. The backup has the visit's day
+ * only, so a reverted date keeps the live visit's time of day.
+ */
+function visitFieldsFromBackup(row: VisitCsvRow, fields: VisitRestoreField[], live?: LiveVisitContent): Record<string, unknown> {
+  const update: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (field === "date") {
+      const day = parseIstDay(row.date);
+      if (day) {
+        const timeOfDay = live?.date ? live.date.getTime() - getStartOfIstDay(live.date).getTime() : 0;
+        update.date = admin.firestore.Timestamp.fromDate(new Date(day.getTime() + timeOfDay));
+      }
+    } else if (!(OPTIONAL_BACKUP_FIELDS.includes(field) && row[field] === "")) {
+      update[field] = row[field];
+    }
+  }
+  return update;
+}
+
+/**
+ * List visit CSV backups in the configured bucket/prefix, newest first
+ */
+export const panelListVisitBackups = functions.https.onCall(async (_data, context) => {
+  requireAdmin(context);
+  const { bucketName, prefix } = getStorageTarget();
+  const bucket = bucketName ? admin.storage().bucket(bucketName) : admin.storage().bucket();
+  const normalizedPrefix = prefix ? `${prefix}/` : "";
+  const [files] = await bucket.getFiles({ prefix: normalizedPrefix });
+
+  const backups = files
+    .filter((file) => BACKUP_FILE_PATTERN.test(file.name.slice(normalizedPrefix.length)))
+    .map((file) => ({
+      fileName: file.name.slice(normalizedPrefix.length),
+      filePath: file.name,
+      size: Number(file.metadata.size ?? 0),
+      updated: file.metadata.updated ?? null,
+    }))
+    .sort((a, b) => b.fileName.localeCompare(a.fileName));
+
+  return { bucket: bucket.name, backups };
+});
+
+/**
+ * Compare a backup with the live visits collection
+ */
+export const panelPreviewVisitRestore = functions
+  .runWith({ timeoutSeconds: 300, memory: "1GB" })
+  .https.onCall(async (data, context) => {
+    requireAdmin(context);
+    const filePath = resolveBackupPath(data?.filePath);
+    const diff = await diffBackupAgainstFirestore(await readBackupRows(filePath));
+    const live = await fetchLiveVisitContent(diff.changed
+      .filter(({ fields }) => fields.includes("agenda") || fields.includes("debrief"))
+      .map(({ backup }) => backup.id));
+
+    const summarize = (row: VisitCsvRow) => ({ id: row.id, date: row.date, cci_name: row.cci_name, filledBy: row.filledBy });
+    return {
+      filePath,
+      new: diff.new.map(summarize),
+      changed: diff.changed.map(({ backup, current, fields }) => ({
+        ...summarize(backup),
+        changes: fields.map((field) => ({
+          field,
+          current: current[field],
+          backup: backup[field],
+          loss: restoreLossNote(field, live.get(backup.id)),
+        })),
+      })),
+      missing: diff.missing.map(summarize),
+    };
+  });
+
+/**
+ * Apply selected differences from a backup: recreate visits that were deleted,
+ * revert changed fields and optionally delete visits absent from the backup.
+ * The diff is recomputed here so only what the backup actually says is written.
+ */
+export const panelApplyVisitRestore = functions
+  .runWith({ timeoutSeconds: 540, memory: "1GB" })
+  .https.onCall(async (data, context) => {
+    const uid = requireAdmin(context);
+    const filePath = resolveBackupPath(data?.filePath);
+    const recreateIds = new Set(toStringList(data?.recreate));
+    const revertIds = new Set(toStringList(data?.revert));
+    const deleteIds = new Set(toStringList(data?.delete));
+    if (recreateIds.size + revertIds.size + deleteIds.size === 0) {
+      throw new functions.https.HttpsError("invalid-argument", "Select at least one change to apply.");
+    }
+
+    const diff = await diffBackupAgainstFirestore(await readBackupRows(filePath));
+    const visitsRef = admin.firestore().collection("visits");
+    const restoreMarker = {
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      restoredFrom: filePath,
+      restoredByUid: uid,
+      lastEditedByUid: uid,
+    };
+
+    const operations: Array<(batch: admin.firestore.WriteBatch) => void> = [];
+    for (const row of diff.new.filter((entry) => recreateIds.has(entry.id))) {
+      operations.push((batch) => batch.set(visitsRef.doc(row.id), {
+        status: "Scheduled",
+        ...visitFieldsFromBackup(row, RESTORABLE_FIELDS),
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        ...restoreMarker,
+      }));
+    }
+    const reverted = diff.changed.filter((entry) => revertIds.has(entry.backup.id));
+    const live = await fetchLiveVisitContent(reverted
+      .filter(({ fields }) => fields.includes("date"))
+      .map(({ backup }) => backup.id));
+    for (const { backup, fields } of reverted) {
+      operations.push((batch) => batch.update(visitsRef.doc(backup.id), {
+        ...visitFieldsFromBackup(backup, fields, live.get(backup.id)),
+        ...restoreMarker,
+      }));
+    }
+    for (const row of diff.missing.filter((entry) => deleteIds.has(entry.id))) {
+      operations.push((batch) => batch.delete(visitsRef.doc(row.id)));
+    }
+
+    let committed = 0;
+    for (let i = 0; i < operations.length; i += RESTORE_BATCH_SIZE) {
+      const batch = admin.firestore().batch();
+      operations.slice(i, i + RESTORE_BATCH_SIZE).forEach((apply) => apply(batch));
+      await batch.commit();
+      committed += Math.min(RESTORE_BATCH_SIZE, operations.length - i);
+    }
+
+    const result = {
+      filePath,
+      recreated: diff.new.filter((entry) => recreateIds.has(entry.id)).length,
+      reverted: reverted.length,
+      deleted: diff.missing.filter((entry) => deleteIds.has(entry.id)).length,
+      committed,
+    };
+    await writeAuditLog(context, {
+      action: "visits.restore",
+      targetType: "backup",
+      targetId: filePath,
+      targetLabel: filePath.split("/").pop() || filePath,
+      details: {
+        recreated: diff.new.filter((entry) => recreateIds.has(entry.id)).map((entry) => entry.id),
+        reverted: reverted.map((entry) => entry.backup.id),
+        deleted: diff.missing.filter((entry) => deleteIds.has(entry.id)).map((entry) => entry.id),
+      },
+    });
+    functions.logger.info("Visits restored from backup", { uid, ...result });
+    return result;
+  });
+
+/**
+ * Signed download URL for a file recorded in the backups manifest
+ */
+export const panelGetBackupDownloadUrl = functions.https.onCall(async (data, context) => {
+  requireAdmin(context);
+  const backupId = typeof data?.backupId === "string" ? data.backupId : "";
+  if (!backupId) {
+    throw new functions.https.HttpsError("invalid-argument", "backupId is required.");
+  }
+
+  const manifest = await admin.firestore().collection(BACKUPS_COLLECTION).doc(backupId).get();
+  if (!manifest.exists || manifest.get("status") !== "available") {
+    throw new functions.https.HttpsError("not-found", "Backup is not available.");
+  }
+
+  const file = admin.storage().bucket(manifest.get("bucket")).file(manifest.get("filePath"));
+  const [exists] = await file.exists();
+  if (!exists) {
+    throw new functions.https.HttpsError("not-found", "Backup file no longer exists in storage.");
+  }
+  const expiresAt = Date.now() + EXPORT_URL_TTL_MS;
+  const [downloadUrl] = await file.getSignedUrl({ action: "read", expires: expiresAt });
+  return { downloadUrl, expiresAt: new Date(expiresAt).toISOString() };
+});
+
+// Only these user fields go into archives; email and pinned visits stay out
+const USER_ARCHIVE_FIELDS = ["uid", "username", "displayName", "role", "status", "createdAt", "updatedAt"];
+
+/**
+ * Convert Firestore values into plain JSON (timestamps as ISO strings,
+ * references as paths)
+ */
+function toArchiveJson(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof admin.firestore.DocumentReference) {
+    return value.path;
+  }
+  if (value instanceof admin.firestore.GeoPoint) {
+    return { latitude: value.latitude, longitude: value.longitude };
+  }
+  if (Array.isArray(value)) {
+    return value.map(toArchiveJson);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toArchiveJson(entry)]));
+  }
+  return value;
+}
+
+function archiveDocs(snapshot: admin.firestore.QuerySnapshot, fields?: string[]) {
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    const picked = fields ? Object.fromEntries(fields.filter((field) => field in data).map((field) => [field, data[field]])) : data;
+    return { id: doc.id, ...(toArchiveJson(picked) as Record<string, unknown>) };
+  });
+}
+
+/**
+ * Stream a zip of every visit (with notes, version events, snapshots, action
+ * items and feedback comments) plus CCIs, users and CCI links to Cloud Storage
+ */
+async function exportVisitArchiveInternal(trigger: BackupTrigger, actor: BackupActor | null = null) {
+  const firestore = admin.firestore();
+  const { bucketName, archivePrefix } = getStorageTarget();
+  const bucket = bucketName ? admin.storage().bucket(bucketName) : admin.storage().bucket();
+  const fileName = `visits_archive_${formatIstTimestampForFilename(new Date())}.zip`;
+  const filePath = `${archivePrefix ? `${archivePrefix}/` : ""}${fileName}`;
+  const file = bucket.file(filePath);
+
+  const archive = archiver("zip", { zlib: { level: 9 } });
+  const hash = createHash("sha256");
+  let sizeBytes = 0;
+  archive.on("data", (chunk: Buffer) => {
+    hash.update(chunk);
+    sizeBytes += chunk.length;
+  });
+  const upload = new Promise<void>((resolve, reject) => {
+    const stream = file.createWriteStream({ contentType: "application/zip", resumable: false });
+    stream.on("finish", resolve);
+    stream.on("error", reject);
+    archive.on("error", reject);
+    archive.pipe(stream);
+  });
+  const addJson = (name: string, value: unknown) => {
+    archive.append(JSON.stringify(value, null, 2), { name });
+  };
+
+  const [ccisSnapshot, usersSnapshot, linksSnapshot] = await Promise.all([
+    firestore.collection("ccis").get(),
+    firestore.collection("users").get(),
+    firestore.collection("cci_user_links").get(),
+  ]);
+  addJson("ccis.json", archiveDocs(ccisSnapshot));
+  addJson("users.json", archiveDocs(usersSnapshot, USER_ARCHIVE_FIELDS));
+  addJson("cci_user_links.json", archiveDocs(linksSnapshot));
+
+  let visitCount = 0;
+  let eventCount = 0;
+  let snapshotCount = 0;
+  let actionItemCount = 0;
+  let commentCount = 0;
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+  while (true) {
+    let query = firestore.collection("visits")
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(VISIT_BATCH_SIZE);
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+    const visitsSnapshot = await query.get();
+    if (visitsSnapshot.empty) {
+      break;
+    }
+
+    // Read the page's subcollections together rather than one visit at a time
+    const histories = await Promise.all(visitsSnapshot.docs.map((visitDoc) => Promise.all([
+      visitDoc.ref.collection("events").get(),
+      visitDoc.ref.collection("snapshots").get(),
+      visitDoc.ref.collection(ACTION_ITEMS_SUBCOLLECTION).get(),
+      visitDoc.ref.collection(COMMENTS_SUBCOLLECTION).get(),
+    ])));
+    for (const [index, visitDoc] of visitsSnapshot.docs.entries()) {
+      const { notes, ...visit } = visitDoc.data();
+      const [eventsSnapshot, snapshotsSnapshot, actionItemsSnapshot, commentsSnapshot] = histories[index];
+      const folder = `visits/${visitDoc.id}`;
+      addJson(`${folder}/visit.json`, { id: visitDoc.id, ...(toArchiveJson(visit) as Record<string, unknown>) });
+      addJson(`${folder}/notes.json`, toArchiveJson(Array.isArray(notes) ? notes : []));
+      addJson(`${folder}/events.json`, archiveDocs(eventsSnapshot));
+      addJson(`${folder}/snapshots.json`, archiveDocs(snapshotsSnapshot));
+      addJson(`${folder}/action_items.json`, archiveDocs(actionItemsSnapshot));
+      addJson(`${folder}/comments.json`, archiveDocs(commentsSnapshot));
+      visitCount++;
+      eventCount += eventsSnapshot.size;
+      snapshotCount += snapshotsSnapshot.size;
+      actionItemCount += actionItemsSnapshot.size;
+      commentCount += commentsSnapshot.size;
+    }
+
+    lastDoc = visitsSnapshot.docs[visitsSnapshot.docs.length - 1];
+    if (visitsSnapshot.size < VISIT_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  const counts = {
+    visits: visitCount,
+    events: eventCount,
+    snapshots: snapshotCount,
+    actionItems: actionItemCount,
+    comments: commentCount,
+    ccis: ccisSnapshot.size,
+    users: usersSnapshot.size,
+    cciUserLinks: linksSnapshot.size,
+  };
+  addJson("manifest.json", {
+    generatedAt: new Date().toISOString(),
+    trigger,
+    generatedBy: actor?.uid ?? null,
+    counts,
+  });
+  await archive.finalize();
+  await upload;
+
+  const result = {
+    bucket: bucket.name,
+    filePath,
+    gsUri: `gs://${bucket.name}/${filePath}`,
+    fileName,
+    sizeBytes,
+    checksumSha256: hash.digest("hex"),
+    counts,
+  };
+  const backupId = await recordBackupManifest({
+    kind: "archive",
+    trigger,
+    actor,
+    fileName,
+    filePath,
+    bucket: result.bucket,
+    gsUri: result.gsUri,
+    format: "zip",
+    rowCount: visitCount,
+    sizeBytes: result.sizeBytes,
+    checksumSha256: result.checksumSha256,
+    details: { counts },
+  });
+  return { ...result, rowCount: visitCount, backupId };
+}
+
+export const exportVisitArchiveWeekly = functions
+  .runWith({ timeoutSeconds: 540, memory: "1GB" })
+  .pubsub.schedule("0 4 * * 0")
+  .timeZone(IST_TIME_ZONE)
+  .onRun(async () => {
+    try {
+      const result = await exportVisitArchiveInternal("scheduled");
+      functions.logger.info("Visits archive export completed", result);
+    } catch (error) {
+      functions.logger.error("Visits archive export failed", error as Error);
+      throw error;
+    }
+
+    try {
+      const pruneResult = await pruneVisitArchives();
+      functions.logger.info("Visits archive retention applied", pruneResult);
+    } catch (error) {
+      functions.logger.error("Visits archive retention failed", error as Error);
+    }
+  });
+
+export const panelExportVisitArchive = functions
+  .runWith({ timeoutSeconds: 540, memory: "1GB" })
+  .https.onCall(async (_data, context) => {
+    const uid = requireAdmin(context);
+    const token: Record<string, unknown> = context.auth?.token || {};
+
+    try {
+      const result = await exportVisitArchiveInternal("manual", {
+        uid,
+        email: (token.email as string | undefined) ?? null,
+      });
+      const expiresAt = Date.now() + EXPORT_URL_TTL_MS;
+      const [downloadUrl] = await admin.storage().bucket(result.bucket).file(result.filePath)
+        .getSignedUrl({ action: "read", expires: expiresAt });
+      functions.logger.info("Visits archive export triggered by admin", { uid, ...result });
+      return { ...result, downloadUrl, expiresAt: new Date(expiresAt).toISOString() };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      functions.logger.error("Admin-triggered visits archive export failed", error as Error);
+      throw new functions.https.HttpsError("internal", `Failed to export visits archive: ${message}`);
+    }
+  });
+
+// Visit detail fields tracked as visit_edit events, with their display labels
+const VISIT_EDIT_FIELDS: Array<{ field: string; label: string }> = [
+  { field: "status", label: "Status" },
+  { field: "quality", label: "Quality" },
+  { field: "personMet", label: "Person met" },
+  { field: "visitHours", label: "Visit hours" },
+  { field: "date", label: "Date" },
+  { field: "cci_id", label: "CCI" },
+  { field: "reviewState", label: "Review" },
+];
+
+// Display labels for the debrief review states; visits without one are drafts
+const REVIEW_STATE_LABELS: Record<string, string> = {
+  draft: "Draft",
+  awaiting_review: "Awaiting review",
+  returned: "Returned",
+  approved: "Approved",
+};
+
+/**
+ * Human-readable value of a tracked visit field, as shown in version history
+ */
+function formatVisitEditValue(visit: admin.firestore.DocumentData, field: string): string {
+  const value = visit[field];
+  if (field === "date") {
+    const date = value?.toDate ? value.toDate() : (value ? new Date(value) : null);
+    return date && !isNaN(date.getTime()) ? formatIstDayKey(date) : "Not set";
+  }
+  if (field === "cci_id") {
+    return toPlainString(visit.cci_name) || toPlainString(value) || "Not set";
+  }
+  if (field === "reviewState") {
+    const state = toPlainString(value) || "draft";
+    const label = REVIEW_STATE_LABELS[state] || state;
+    const comment = toPlainString(visit.reviewComment).trim();
+    return state === "returned" && comment ? `${label}: ${comment}` : label;
+  }
+  const text = toPlainString(value).trim();
+  return text && text !== "none" ? text : "Not set";
+}
 
 // Version History Cloud Function
 export const captureVersionHistory = functions.firestore
@@ -377,10 +2374,12 @@ export const captureVersionHistory = functions.firestore
     });
 
     try {
-      // Get user info from the update
-      const userId = after.filledByUid;
+      // Attribute events to whoever made this write. Client edits must stamp
+      // lastEditedByUid (enforced by the rules); visits edited before that
+      // existed fall back to the owner.
+      const userId = after.lastEditedByUid || after.filledByUid;
       if (!userId) {
-        functions.logger.warn(`No filledByUid found for visit ${visitId}`);
+        functions.logger.warn(`No lastEditedByUid or filledByUid found for visit ${visitId}`);
         return null;
       }
 
@@ -419,6 +2418,25 @@ export const captureVersionHistory = functions.firestore
         });
       }
 
+      // Check for visit detail changes. Values are compared as displayed, so a
+      // date moving within the same IST day is not recorded.
+      for (const { field, label } of VISIT_EDIT_FIELDS) {
+        const beforeValue = formatVisitEditValue(before, field);
+        const afterValue = formatVisitEditValue(after, field);
+        if (beforeValue !== afterValue) {
+          events.push({
+            type: "visit_edit",
+            field,
+            beforeValue,
+            afterValue,
+            userId,
+            userName,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+            metadata: { fieldName: label },
+          });
+        }
+      }
+
       // Check for notes changes
       const beforeNotes = before.notes || [];
       const afterNotes = after.notes || [];
@@ -477,17 +2495,17 @@ export const captureVersionHistory = functions.firestore
         });
       }
 
-      // Save all events
+      // Save all events, counting them as pending on the visit in the same
+      // batch so checkAndCreateSnapshot sees both or neither
       if (events.length > 0) {
         const batch = admin.firestore().batch();
+        const visitRef = admin.firestore().collection("visits").doc(visitId);
         for (const event of events) {
-          const eventRef = admin.firestore()
-            .collection("visits")
-            .doc(visitId)
-            .collection("events")
-            .doc();
-          batch.set(eventRef, event);
+          batch.set(visitRef.collection("events").doc(), { ...event, snapshotted: false });
         }
+        batch.update(visitRef, {
+          "historyState.pendingEventCount": admin.firestore.FieldValue.increment(events.length),
+        });
         await batch.commit();
         
         functions.logger.info(`Captured ${events.length} version history events for visit ${visitId}`, {
@@ -496,7 +2514,7 @@ export const captureVersionHistory = functions.firestore
           eventTypes: events.map(e => e.type),
         });
 
-        // Check if we need to create a snapshot (every 10 events)
+        // Snapshot now if enough events are pending; otherwise the idle check will
         await checkAndCreateSnapshot(visitId);
       }
 
@@ -507,121 +2525,260 @@ export const captureVersionHistory = functions.firestore
     }
   });
 
-// Helper function to check and create snapshots
-async function checkAndCreateSnapshot(visitId: string) {
-  try {
-    functions.logger.info(`checkAndCreateSnapshot called for visit ${visitId}`);
-    
-    const firestore = admin.firestore();
-    const eventsRef = firestore
-      .collection("visits")
-      .doc(visitId)
-      .collection("events");
-    const snapshotsRef = firestore
-      .collection("visits")
-      .doc(visitId)
-      .collection("snapshots");
-    
-    // Get all events (without ordering first to avoid index issues)
-    const eventsSnapshot = await eventsRef.get();
-    
-    const allEvents = eventsSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })).sort((a: any, b: any) => {
-      // Sort by timestamp (ascending - oldest first)
-      const aTime = a.timestamp?.toDate ? a.timestamp.toDate() : new Date(a.timestamp);
-      const bTime = b.timestamp?.toDate ? b.timestamp.toDate() : new Date(b.timestamp);
-      return aTime.getTime() - bTime.getTime();
-    });
-    
-    functions.logger.info(`Found ${allEvents.length} total events for visit ${visitId}`);
-    
-    if (allEvents.length === 0) {
-      functions.logger.info(`No events found for visit ${visitId}, skipping snapshot creation`);
-      return; // No events to process
+// Action items copy their visit's owner and CCI so the open-items view can be
+// queried with the visit read scope; these are the copied fields
+const ACTION_ITEMS_SUBCOLLECTION = "action_items";
+const ACTION_ITEM_VISIT_FIELDS = ["filledByUid", "cci_id", "cci_name"] as const;
+
+/**
+ * Keep action items in step with their visit: re-copy the owner and CCI when
+ * either changes, and remove the items when the visit is deleted
+ */
+export const syncActionItemsWithVisit = functions.firestore
+  .document("visits/{visitId}")
+  .onWrite(async (change, context) => {
+    const before = change.before.exists ? change.before.data() : undefined;
+    const after = change.after.exists ? change.after.data() : undefined;
+    const visitId = context.params.visitId;
+    if (!before) {
+      return null;
     }
-    
-    // Get existing snapshots to see which events are already snapshotted
-    const existingSnapshotsSnapshot = await snapshotsRef.get();
-    const existingSnapshots = existingSnapshotsSnapshot.docs.map(doc => doc.data());
-    
-    functions.logger.info(`Found ${existingSnapshots.length} existing snapshots for visit ${visitId}`);
-    
-    // Get all event IDs that are already in snapshots
-    const snapshottedEventIds = new Set<string>();
-    existingSnapshots.forEach(snapshot => {
-      if (snapshot.eventIds) {
-        snapshot.eventIds.forEach((eventId: string) => snapshottedEventIds.add(eventId));
+    if (after && ACTION_ITEM_VISIT_FIELDS.every((field) => toPlainString(before[field]) === toPlainString(after[field]))) {
+      return null;
+    }
+
+    try {
+      const items = await change.before.ref.collection(ACTION_ITEMS_SUBCOLLECTION).get();
+      for (let start = 0; start < items.docs.length; start += ADMIN_BATCH_LIMIT) {
+        const batch = admin.firestore().batch();
+        for (const item of items.docs.slice(start, start + ADMIN_BATCH_LIMIT)) {
+          if (after) {
+            batch.update(item.ref, {
+              filledByUid: toPlainString(after.filledByUid),
+              cci_id: toPlainString(after.cci_id),
+              cci_name: toPlainString(after.cci_name),
+            });
+          } else {
+            batch.delete(item.ref);
+          }
+        }
+        await batch.commit();
       }
-    });
-    
-    functions.logger.info(`Found ${snapshottedEventIds.size} events already in snapshots for visit ${visitId}`);
-    
-    // Filter out events that are already in snapshots
-    const unsnapshottedEvents = allEvents.filter(event => !snapshottedEventIds.has(event.id));
-    
-    functions.logger.info(`Found ${unsnapshottedEvents.length} unsnapshotted events for visit ${visitId}`);
-    
-    if (unsnapshottedEvents.length === 0) {
-      functions.logger.info(`All events are already snapshotted for visit ${visitId}, skipping snapshot creation`);
-      return; // All events are already snapshotted
+      if (items.size > 0) {
+        functions.logger.info(`${after ? "Updated" : "Deleted"} ${items.size} action item(s) for visit ${visitId}`);
+      }
+    } catch (error) {
+      functions.logger.error(`Failed to sync action items for visit ${visitId}:`, error);
     }
-    
-    // Only create snapshots for full batches of 10 events
-    // Leave remaining events (less than 10) as "Recent Edits"
-    const fullBatches = [];
-    for (let i = 0; i < unsnapshottedEvents.length; i += 10) {
-      const batch = unsnapshottedEvents.slice(i, i + 10);
-      if (batch.length === 10) {
-        fullBatches.push(batch);
+    return null;
+  });
+
+const COMMENTS_SUBCOLLECTION = "comments";
+
+/**
+ * Keep a summary of a visit's cluster feedback on the visit, so timeline cards
+ * can flag unread feedback without listening to every thread. Resolving or
+ * reopening a thread does not change it.
+ */
+export const summarizeVisitFeedback = functions.firestore
+  .document("visits/{visitId}/comments/{commentId}")
+  .onWrite(async (change, context) => {
+    if (change.before.exists && change.after.exists) {
+      return null;
+    }
+    const visitId = context.params.visitId;
+    const visitRef = admin.firestore().collection("visits").doc(visitId);
+
+    try {
+      const comments = visitRef.collection(COMMENTS_SUBCOLLECTION);
+      const [countSnapshot, latestSnapshot] = await Promise.all([
+        comments.count().get(),
+        comments.orderBy("createdAt", "desc").limit(1).get(),
+      ]);
+      const latest = latestSnapshot.docs[0]?.data();
+      await visitRef.update({
+        feedbackSummary: {
+          count: countSnapshot.data().count,
+          lastCommentAt: latest?.createdAt ?? null,
+          lastAuthorUid: latest?.authorUid ?? null,
+        },
+      });
+    } catch (error) {
+      // The visit may have been deleted along with its comments
+      functions.logger.warn(`Failed to summarize feedback for visit ${visitId}:`, error);
+    }
+    return null;
+  });
+
+/**
+ * Snapshot policy for version history. Set with
+ * `firebase functions:config:set history.snapshot_every_events=10 history.snapshot_idle_minutes=30`;
+ * an idle value of 0 turns off idle snapshots.
+ */
+function getSnapshotPolicy() {
+  const config = functions.config().history ?? {};
+  const parse = (value: unknown, fallback: number, min: number) => {
+    const parsed = Number(value);
+    return value !== undefined && Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+  };
+  return {
+    everyEvents: parse(config.snapshot_every_events, DEFAULT_SNAPSHOT_POLICY.everyEvents, 1),
+    idleMinutes: parse(config.snapshot_idle_minutes, DEFAULT_SNAPSHOT_POLICY.idleMinutes, 0),
+  };
+}
+
+type SnapshotTrigger = "events" | "idle";
+
+/**
+ * Group the visit's unsnapshotted events into a new version once the policy
+ * says so: when at least `everyEvents` are pending, or on any pending events
+ * for the idle trigger. The snapshot stores the visit's full agenda, debrief
+ * and notes, so history can be shown and restored without replaying events.
+ *
+ * The visit's historyState counts pending events, so most edits decide from
+ * the visit alone. The snapshot is created in a transaction that reads the
+ * visit; captureVersionHistory bumps the count in the same batch as the
+ * events, so a concurrent edit or idle run retries instead of duplicating a
+ * version. Snapshotted events are marked with their version.
+ */
+async function checkAndCreateSnapshot(
+  visitId: string,
+  trigger: SnapshotTrigger = "events"
+): Promise<boolean> {
+  try {
+    const policy = getSnapshotPolicy();
+    const firestore = admin.firestore();
+    const visitRef = firestore.collection("visits").doc(visitId);
+    const eventsRef = visitRef.collection("events");
+
+    const created = await firestore.runTransaction(async (transaction) => {
+      const visitSnapshot = await transaction.get(visitRef);
+      const visit = visitSnapshot.data();
+      if (!visit) {
+        return null;
+      }
+      // Counts are only trusted once a snapshot check has set lastSnapshotVersion
+      const state = typeof visit.historyState?.lastSnapshotVersion === "number"
+        ? visit.historyState as { pendingEventCount?: number; lastSnapshotVersion: number }
+        : undefined;
+      if (state && (state.pendingEventCount ?? 0) === 0) {
+        return null;
+      }
+      if (state && trigger === "events" && (state.pendingEventCount ?? 0) < policy.everyEvents) {
+        return null;
+      }
+
+      let latestVersion = state ? state.lastSnapshotVersion : 0;
+      let pendingDocs: admin.firestore.QueryDocumentSnapshot[];
+      if (state) {
+        pendingDocs = (await transaction.get(eventsRef.where("snapshotted", "==", false))).docs;
       } else {
-        // This is a partial batch (less than 10 events)
-        // Don't create a snapshot for it - these will remain as "Recent Edits"
-        functions.logger.info(`Skipping partial batch of ${batch.length} events for visit ${visitId} - will remain as Recent Edits`);
-        break; // Stop processing since we've reached the partial batch
+        // Visits from before historyState: work it out from the history once
+        const [eventsSnapshot, existingSnapshots] = await Promise.all([
+          transaction.get(eventsRef),
+          transaction.get(visitRef.collection("snapshots")),
+        ]);
+        const snapshottedEventIds = new Set<string>();
+        existingSnapshots.docs.forEach((doc) => {
+          const data = doc.data();
+          (data.eventIds || []).forEach((eventId: string) => snapshottedEventIds.add(eventId));
+          latestVersion = Math.max(latestVersion, Number(data.version) || 0);
+        });
+        pendingDocs = eventsSnapshot.docs.filter((doc) => !snapshottedEventIds.has(doc.id));
       }
-    }
-    
-    functions.logger.info(`Found ${fullBatches.length} full batches (10 events each) to snapshot for visit ${visitId}`);
-    
-    // Process only full batches
-    for (const batch of fullBatches) {
-      // Get the latest snapshot number for this visit
-      const latestSnapshotSnapshot = await snapshotsRef
-        .orderBy("version", "desc")
-        .limit(1)
-        .get();
-      
-      const latestVersion = latestSnapshotSnapshot.empty ? 0 : latestSnapshotSnapshot.docs[0].data().version;
+
+      // Oldest first; events still waiting for their server timestamp sort last
+      const eventTime = (event: admin.firestore.DocumentData) =>
+        event.timestamp?.toDate ? event.timestamp.toDate().getTime() : Number.MAX_SAFE_INTEGER;
+      const pending = pendingDocs
+        .map((doc) => ({ id: doc.id, ...doc.data() } as admin.firestore.DocumentData & { id: string }))
+        .sort((a, b) => eventTime(a) - eventTime(b));
+
+      if (pending.length === 0 || (trigger === "events" && pending.length < policy.everyEvents)) {
+        if (!state) {
+          transaction.update(visitRef, {
+            historyState: { pendingEventCount: pending.length, lastSnapshotVersion: latestVersion },
+          });
+        }
+        return null;
+      }
+
       const newVersion = latestVersion + 1;
-      
-      // Create the snapshot with event IDs (not full event data)
-      const snapshotData = {
+      const lastEvent = pending[pending.length - 1];
+      transaction.create(visitRef.collection("snapshots").doc(), {
         version: newVersion,
         title: `Version ${newVersion}`,
-        eventIds: batch.map(event => event.id), // Store only event IDs
+        eventIds: pending.map((event) => event.id),
+        eventCount: pending.length,
+        summary: generateSnapshotSummary(pending),
+        trigger,
+        asOf: lastEvent.timestamp ?? admin.firestore.FieldValue.serverTimestamp(),
+        content: {
+          agenda: visit.agenda || "",
+          debrief: visit.debrief || "",
+          notes: visit.notes || [],
+        },
         createdAt: admin.firestore.FieldValue.serverTimestamp(),
-        eventCount: batch.length,
-        summary: generateSnapshotSummary(batch)
-      };
-      
-      // Save the snapshot
-      const snapshotRef = snapshotsRef.doc();
-      await snapshotRef.set(snapshotData);
-      
-      functions.logger.info(`Created snapshot Version ${newVersion} for visit ${visitId}`, {
-        visitId,
-        version: newVersion,
-        eventCount: batch.length,
-        eventIds: batch.map(e => e.id)
       });
+      pending.forEach((event) => transaction.update(eventsRef.doc(event.id), {
+        snapshotted: true,
+        snapshotVersion: newVersion,
+      }));
+      transaction.update(visitRef, {
+        historyState: { pendingEventCount: 0, lastSnapshotVersion: newVersion },
+      });
+      return { version: newVersion, eventCount: pending.length };
+    });
+
+    if (!created) {
+      return false;
     }
+    functions.logger.info(`Created snapshot Version ${created.version} for visit ${visitId}`, {
+      visitId,
+      trigger,
+      ...created,
+    });
+    return true;
   } catch (error) {
     functions.logger.error(`Error creating snapshot for visit ${visitId}:`, error);
+    return false;
   }
 }
 
+/**
+ * Snapshot visits whose last edit is older than the idle window, so a visit
+ * with only a few edits still gets a version. Looks back a day past the
+ * window so a missed run is caught up on the next one.
+ */
+export const snapshotIdleVisitHistory = functions.pubsub
+  .schedule("every 15 minutes")
+  .timeZone(IST_TIME_ZONE)
+  .onRun(async () => {
+    const { idleMinutes } = getSnapshotPolicy();
+    if (idleMinutes === 0) {
+      return null;
+    }
+
+    const idleBefore = new Date(Date.now() - idleMinutes * 60 * 1000);
+    const lookbackFrom = new Date(idleBefore.getTime() - 24 * 60 * 60 * 1000);
+    const visitsSnapshot = await admin.firestore().collection("visits")
+      .where("updatedAt", ">", admin.firestore.Timestamp.fromDate(lookbackFrom))
+      .where("updatedAt", "<=", admin.firestore.Timestamp.fromDate(idleBefore))
+      .get();
+
+    let created = 0;
+    for (const doc of visitsSnapshot.docs) {
+      if (await checkAndCreateSnapshot(doc.id, "idle")) {
+        created++;
+      }
+    }
+    functions.logger.info("Idle version snapshots checked", {
+      visitsChecked: visitsSnapshot.size,
+      snapshotsCreated: created,
+    });
+    return null;
+  });
+
 // Helper function to generate a summary for the snapshot
 function generateSnapshotSummary(events: any[]): string {
   const eventTypes = events.map(e => e.type);
@@ -636,16 +2793,22 @@ function generateSnapshotSummary(events: any[]): string {
   if (typeCounts.note_add) summaryParts.push(`${typeCounts.note_add} note${typeCounts.note_add > 1 ? 's' : ''} added`);
   if (typeCounts.note_edit) summaryParts.push(`${typeCounts.note_edit} note${typeCounts.note_edit > 1 ? 's' : ''} edited`);
   if (typeCounts.note_delete) summaryParts.push(`${typeCounts.note_delete} note${typeCounts.note_delete > 1 ? 's' : ''} deleted`);
+  if (typeCounts.visit_edit) {
+    const detailEdits = events.filter(e => e.type === "visit_edit");
+    // Spell out a couple of detail changes; more than that only gets a count
+    if (detailEdits.length <= 2) {
+      detailEdits.forEach(e => summaryParts.push(`${e.metadata?.fieldName || e.field}: ${e.beforeValue} → ${e.afterValue}`));
+    } else {
+      summaryParts.push(`${detailEdits.length} detail changes`);
+    }
+  }
   
   return summaryParts.join(', ');
 }
 
 // Cloud Function to clear version history for a specific visit
 export const clearVersionHistory = functions.https.onCall(async (data, context) => {
-  // Check if user is authenticated
-  if (!context.auth) {
-    throw new functions.https.HttpsError('unauthenticated', 'Must be authenticated to clear version history');
-  }
+  requireAdmin(context);
 
   const { visitId } = data;
   
@@ -671,7 +2834,21 @@ export const clearVersionHistory = functions.https.onCall(async (data, context)
     snapshotsSnapshot.docs.forEach(doc => {
       snapshotBatch.delete(doc.ref);
     });
+    // Versions start again from 1
+    snapshotBatch.update(visitRef, { historyState: { pendingEventCount: 0, lastSnapshotVersion: 0 } });
     await snapshotBatch.commit();
+
+    const visit = (await visitRef.get()).data();
+    await writeAuditLog(context, {
+      action: 'visit_history.clear',
+      targetType: 'visit',
+      targetId: visitId,
+      targetLabel: visit?.cci_name ?? null,
+      details: {
+        eventsDeleted: eventsSnapshot.docs.length,
+        snapshotsDeleted: snapshotsSnapshot.docs.length,
+      },
+    });
     
     functions.logger.info(`Cleared version history for visit ${visitId}`, {
       visitId,
@@ -692,43 +2869,16 @@ export const clearVersionHistory = functions.https.onCall(async (data, context)
 
 // Insight Data Aggregator Functions
 /**
- * Get week identifier in YYYY-WW format
- */
-function getWeekId(date: Date): string {
-  const year = date.getFullYear();
-  const week = getWeekNumber(date);
-  return `${year}-W${week.toString().padStart(2, '0')}`;
-}
-
-/**
- * Get week number of the year
- */
-function getWeekNumber(date: Date): number {
-  const firstDayOfYear = new Date(date.getFullYear(), 0, 1);
-  const pastDaysOfYear = (date.getTime() - firstDayOfYear.getTime()) / 86400000;
-  return Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
-}
-
-/**
- * Get start of week (Monday)
- */
-function getStartOfWeek(date: Date): Date {
-  const startOfWeek = new Date(date);
-  const day = startOfWeek.getDay();
-  const diff = startOfWeek.getDate() - day + (day === 0 ? -6 : 1);
-  startOfWeek.setDate(diff);
-  startOfWeek.setHours(0, 0, 0, 0);
-  return startOfWeek;
-}
-
-/**
- * Get end of week (Sunday)
+ * Fiscal calendar used for weekly buckets. Set with
+ * `firebase functions:config:set calendar.fiscal_year_start_month=4 calendar.week_starts_on=1`
+ * and keep in sync with the PWA's VITE_FISCAL_YEAR_START_MONTH / VITE_WEEK_STARTS_ON.
  */
-function getEndOfWeek(date: Date): Date {
-  const endOfWeek = getStartOfWeek(date);
-  endOfWeek.setDate(endOfWeek.getDate() + 6);
-  endOfWeek.setHours(23, 59, 59, 999);
-  return endOfWeek;
+function getFiscalCalendar() {
+  const calendarConfig = functions.config().calendar ?? {};
+  return resolveFiscalCalendarConfig({
+    fiscalYearStartMonth: calendarConfig.fiscal_year_start_month,
+    weekStartsOn: calendarConfig.week_starts_on,
+  });
 }
 
 type AggregatedUserStats = {
@@ -748,15 +2898,37 @@ type AggregatedUserStats = {
   lastVisitDate: Date | null;
 };
 
+/**
+ * Remove weekly documents for the same week stored under a different ID, e.g.
+ * ones written before weeks were keyed by fiscal week or with another week start
+ */
+async function deleteSupersededWeeklyInsights(weekStart: Date, weekEnd: Date, weekId: string): Promise<void> {
+  const snapshot = await admin.firestore().collection('insight_data')
+    .where('dataType', '==', 'weekly_visits_count')
+    .where('data.weekStart', '>=', admin.firestore.Timestamp.fromDate(weekStart))
+    .where('data.weekStart', '<=', admin.firestore.Timestamp.fromDate(weekEnd))
+    .get();
+
+  const superseded = snapshot.docs.filter(doc => doc.id !== `weekly_visits_count_${weekId}`);
+  if (superseded.length === 0) {
+    return;
+  }
+
+  const batch = admin.firestore().batch();
+  superseded.forEach(doc => batch.delete(doc.ref));
+  await batch.commit();
+  functions.logger.info(`Removed ${superseded.length} superseded weekly insight doc(s) for week ${weekId}`, {
+    docIds: superseded.map(doc => doc.id)
+  });
+}
+
 /**
  * Aggregate weekly visits data
  */
 async function aggregateWeeklyVisitsCount(targetDate: Date): Promise<void> {
   try {
-    const weekId = getWeekId(targetDate);
-    const weekStart = getStartOfWeek(targetDate);
-    const weekEnd = getEndOfWeek(targetDate);
-    
+    const { weekId, fiscalYear, weekNumber, start: weekStart, end: weekEnd } = getFiscalWeek(targetDate, getFiscalCalendar());
+
     functions.logger.info(`Aggregating weekly visits for week ${weekId}`, {
       weekStart: weekStart.toISOString(),
       weekEnd: weekEnd.toISOString()
@@ -770,6 +2942,9 @@ async function aggregateWeeklyVisitsCount(targetDate: Date): Promise<void> {
 
     if (visitsSnapshot.empty) {
       functions.logger.info(`No visits found for week ${weekId}`);
+      // Drop any stale aggregate left behind after the week's last visit moved or was deleted
+      await admin.firestore().collection('insight_data').doc(`weekly_visits_count_${weekId}`).delete();
+      await deleteSupersededWeeklyInsights(weekStart, weekEnd, weekId);
       return;
     }
 
@@ -1143,16 +3318,203 @@ async function aggregateWeeklyVisitsCount(targetDate: Date): Promise<void> {
       )
     };
 
-    // Create the insight document
+    // Create the insight document
+    const insightDoc: any = {
+      dataType: 'weekly_visits_count',
+      data: {
+        weekId,
+        fiscalYear,
+        weekNumber,
+        weekStart: admin.firestore.Timestamp.fromDate(weekStart),
+        weekEnd: admin.firestore.Timestamp.fromDate(weekEnd),
+        counts,
+        userBreakdown,
+        cciBreakdown
+      },
+      lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+      lastUpdatedDisplay: new Date().toLocaleString('en-IN', {
+        timeZone: 'Asia/Kolkata',
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+      }),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      version: 1
+    };
+
+    // Store in Firestore
+    await admin.firestore().collection('insight_data').doc(`weekly_visits_count_${weekId}`).set(insightDoc);
+    await deleteSupersededWeeklyInsights(weekStart, weekEnd, weekId);
+
+        // Log per-user statistics summary
+        const perUserStatsSummary = Object.entries(userBreakdown.perUserStatsByUid || {}).slice(0, 5).map(([uid, userData]) => ({
+          uid,
+          email: userData.email,
+          username: userData.username,
+          displayName: userData.displayName,
+          role: userData.role,
+          weeklyVisits: userData.weeklyStats.totalVisits,
+          completeVisits: userData.weeklyStats.completeVisits
+        }));
+
+        functions.logger.info(`Successfully aggregated weekly visits for week ${weekId}`, {
+          totalVisits: counts.total,
+          uniqueUsers: uniqueUsers.size,
+          uniqueCcis: cciStats.size,
+          userBreakdown: {
+            totalUsers: userBreakdown.totalUsers,
+            emUsers: userBreakdown.usersByRole.em,
+            visitorUsers: userBreakdown.usersByRole.visitor,
+            adminUsers: userBreakdown.usersByRole.admin,
+            topUser: userBreakdown.topUsers[0] ? {
+              uid: userBreakdown.topUsers[0].uid,
+              email: userBreakdown.topUsers[0].email,
+              username: userBreakdown.topUsers[0].username,
+              displayName: userBreakdown.topUsers[0].displayName,
+              visitCount: userBreakdown.topUsers[0].visitCount
+            } : null
+          },
+          perUserStatsSummary: perUserStatsSummary,
+          totalPerUserStats: Object.keys(userBreakdown.perUserStatsByUid || {}).length,
+          samplePerUserStats: Object.entries(userBreakdown.perUserStatsByUid || {}).slice(0, 3).map(([uid, data]) => ({
+            uid,
+            email: data.email,
+            username: data.username,
+            displayName: data.displayName,
+            role: data.role,
+            totalVisits: data.weeklyStats.totalVisits
+          }))
+        });
+
+  } catch (error) {
+    functions.logger.error('Error aggregating weekly visits count:', error);
+    throw error;
+  }
+}
+
+const MONTHLY_TOP_LIMIT = 5;
+
+/**
+ * Look up display labels for a set of user IDs
+ */
+async function fetchUserLabels(userIds: string[]): Promise<Map<string, string>> {
+  const labels = new Map<string, string>();
+  const batchSize = 10; // Firestore 'in' queries allow max 10 values
+  for (let i = 0; i < userIds.length; i += batchSize) {
+    const batch = userIds.slice(i, i + batchSize);
+    const usersSnapshot = await admin
+      .firestore()
+      .collection('users')
+      .where(admin.firestore.FieldPath.documentId(), 'in', batch)
+      .get();
+
+    usersSnapshot.forEach(doc => {
+      const data = doc.data();
+      const label = data.username || data.displayName || data.email;
+      if (label) {
+        labels.set(doc.id, label as string);
+      }
+    });
+  }
+  return labels;
+}
+
+/**
+ * Aggregate monthly summary data
+ */
+async function aggregateMonthlySummary(targetDate: Date): Promise<void> {
+  try {
+    const monthId = getMonthId(targetDate);
+    const monthStart = getStartOfMonth(targetDate);
+    const monthEnd = getEndOfMonth(targetDate);
+
+    functions.logger.info(`Aggregating monthly summary for month ${monthId}`, {
+      monthStart: monthStart.toISOString(),
+      monthEnd: monthEnd.toISOString()
+    });
+
+    const visitsSnapshot = await admin.firestore().collection('visits')
+      .where('date', '>=', admin.firestore.Timestamp.fromDate(monthStart))
+      .where('date', '<=', admin.firestore.Timestamp.fromDate(monthEnd))
+      .get();
+
+    if (visitsSnapshot.empty) {
+      functions.logger.info(`No visits found for month ${monthId}`);
+      await admin.firestore().collection('insight_data').doc(`monthly_summary_${monthId}`).delete();
+      return;
+    }
+
+    let totalVisits = 0;
+    let completeVisits = 0;
+    const cciCounts = new Map<string, { cciName: string; visitCount: number }>();
+    const userCounts = new Map<string, { fallbackLabel: string; visitCount: number }>();
+
+    visitsSnapshot.forEach(doc => {
+      const visit = doc.data();
+      totalVisits++;
+
+      if ((visit.status?.toLowerCase() || 'scheduled') === 'complete') {
+        completeVisits++;
+      }
+
+      if (visit.cci_id) {
+        const existing = cciCounts.get(visit.cci_id);
+        if (existing) {
+          existing.visitCount++;
+        } else {
+          cciCounts.set(visit.cci_id, { cciName: visit.cci_name || visit.cci_id, visitCount: 1 });
+        }
+      }
+
+      if (visit.filledByUid) {
+        const existing = userCounts.get(visit.filledByUid);
+        if (existing) {
+          existing.visitCount++;
+        } else {
+          userCounts.set(visit.filledByUid, {
+            fallbackLabel: visit.filledByUsername || visit.filledByEmail || visit.filledByUid,
+            visitCount: 1
+          });
+        }
+      }
+    });
+
+    const topCcis = Array.from(cciCounts.entries())
+      .map(([cciId, stats]) => ({ cciId, cciName: stats.cciName, visitCount: stats.visitCount }))
+      .sort((a, b) => b.visitCount - a.visitCount || a.cciName.localeCompare(b.cciName))
+      .slice(0, MONTHLY_TOP_LIMIT);
+
+    const topUserEntries = Array.from(userCounts.entries())
+      .sort((a, b) => b[1].visitCount - a[1].visitCount || a[0].localeCompare(b[0]))
+      .slice(0, MONTHLY_TOP_LIMIT);
+    const userLabels = await fetchUserLabels(topUserEntries.map(([uid]) => uid));
+    const topUsers = topUserEntries.map(([userId, stats]) => ({
+      userId,
+      userName: userLabels.get(userId) || stats.fallbackLabel,
+      visitCount: stats.visitCount
+    }));
+
+    const daysInMonth = getIstDateParts(monthEnd).day;
+    const averageVisitsPerWeek = Math.round((totalVisits / (daysInMonth / 7)) * 10) / 10;
+    // Stored as a percentage (0-100) rounded to one decimal place
+    const completionRate = Math.round((completeVisits / totalVisits) * 1000) / 10;
+
     const insightDoc: any = {
-      dataType: 'weekly_visits_count',
+      dataType: 'monthly_summary',
       data: {
-        weekId,
-        weekStart: admin.firestore.Timestamp.fromDate(weekStart),
-        weekEnd: admin.firestore.Timestamp.fromDate(weekEnd),
-        counts,
-        userBreakdown,
-        cciBreakdown
+        monthId,
+        monthStart: admin.firestore.Timestamp.fromDate(monthStart),
+        monthEnd: admin.firestore.Timestamp.fromDate(monthEnd),
+        summary: {
+          totalVisits,
+          averageVisitsPerWeek,
+          completionRate,
+          topCcis,
+          topUsers
+        }
       },
       lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
       lastUpdatedDisplay: new Date().toLocaleString('en-IN', {
@@ -1168,51 +3530,143 @@ async function aggregateWeeklyVisitsCount(targetDate: Date): Promise<void> {
       version: 1
     };
 
-    // Store in Firestore
-    await admin.firestore().collection('insight_data').doc(`weekly_visits_count_${weekId}`).set(insightDoc);
+    await admin.firestore().collection('insight_data').doc(`monthly_summary_${monthId}`).set(insightDoc);
 
-        // Log per-user statistics summary
-        const perUserStatsSummary = Object.entries(userBreakdown.perUserStatsByUid || {}).slice(0, 5).map(([uid, userData]) => ({
-          uid,
-          email: userData.email,
-          username: userData.username,
-          displayName: userData.displayName,
-          role: userData.role,
-          weeklyVisits: userData.weeklyStats.totalVisits,
-          completeVisits: userData.weeklyStats.completeVisits
-        }));
+    functions.logger.info(`Successfully aggregated monthly summary for month ${monthId}`, {
+      totalVisits,
+      completeVisits,
+      completionRate,
+      averageVisitsPerWeek,
+      topCci: topCcis[0] ?? null,
+      topUser: topUsers[0] ?? null
+    });
+  } catch (error) {
+    functions.logger.error('Error aggregating monthly summary:', error);
+    throw error;
+  }
+}
 
-        functions.logger.info(`Successfully aggregated weekly visits for week ${weekId}`, {
-          totalVisits: counts.total,
-          uniqueUsers: uniqueUsers.size,
-          uniqueCcis: cciStats.size,
-          userBreakdown: {
-            totalUsers: userBreakdown.totalUsers,
-            emUsers: userBreakdown.usersByRole.em,
-            visitorUsers: userBreakdown.usersByRole.visitor,
-            adminUsers: userBreakdown.usersByRole.admin,
-            topUser: userBreakdown.topUsers[0] ? {
-              uid: userBreakdown.topUsers[0].uid,
-              email: userBreakdown.topUsers[0].email,
-              username: userBreakdown.topUsers[0].username,
-              displayName: userBreakdown.topUsers[0].displayName,
-              visitCount: userBreakdown.topUsers[0].visitCount
-            } : null
-          },
-          perUserStatsSummary: perUserStatsSummary,
-          totalPerUserStats: Object.keys(userBreakdown.perUserStatsByUid || {}).length,
-          samplePerUserStats: Object.entries(userBreakdown.perUserStatsByUid || {}).slice(0, 3).map(([uid, data]) => ({
-            uid,
-            email: data.email,
-            username: data.username,
-            displayName: data.displayName,
-            role: data.role,
-            totalVisits: data.weeklyStats.totalVisits
-          }))
-        });
+/**
+ * Percentage change between two counts, rounded to one decimal place
+ */
+function percentageChange(previous: number, current: number): number {
+  if (previous === 0) {
+    return 0;
+  }
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+/**
+ * Aggregate yearly trends for the fiscal year containing targetDate. Months
+ * and quarters follow the fiscal calendar, so Q1 starts in the fiscal year's
+ * first month, as the weekly stats do.
+ */
+async function aggregateYearlyTrends(targetDate: Date): Promise<void> {
+  try {
+    const calendar = getFiscalCalendar();
+    const year = getFiscalYear(targetDate, calendar);
+    const yearStart = getFiscalYearStart(year, calendar);
+    const yearEnd = new Date(getFiscalYearStart(year + 1, calendar).getTime() - 1);
+    // Include the previous fiscal year's last quarter so Q1 growth has a baseline
+    const startMonth = calendar.fiscalYearStartMonth;
+    const rangeStart = startMonth > 3 ? istMidnight(year, startMonth - 3, 1) : istMidnight(year - 1, startMonth + 9, 1);
+
+    functions.logger.info(`Aggregating yearly trends for fiscal year ${year}`, {
+      yearStart: yearStart.toISOString(),
+      yearEnd: yearEnd.toISOString()
+    });
+
+    const visitsSnapshot = await admin.firestore().collection('visits')
+      .where('date', '>=', admin.firestore.Timestamp.fromDate(rangeStart))
+      .where('date', '<=', admin.firestore.Timestamp.fromDate(yearEnd))
+      .get();
+
+    const monthlyTotals = Array.from({ length: 12 }, () => ({ visitCount: 0, completeCount: 0 }));
+    let previousQuarterCount = 0;
+
+    visitsSnapshot.forEach(doc => {
+      const visit = doc.data();
+      const visitDate = ensureDate(visit.date);
+      if (!visitDate) {
+        return;
+      }
+
+      if (visitDate < yearStart) {
+        previousQuarterCount++;
+        return;
+      }
+
+      const monthTotals = monthlyTotals[(getIstDateParts(visitDate).month - startMonth + 12) % 12];
+      monthTotals.visitCount++;
+      if ((visit.status?.toLowerCase() || 'scheduled') === 'complete') {
+        monthTotals.completeCount++;
+      }
+    });
+
+    const totalVisits = monthlyTotals.reduce((sum, month) => sum + month.visitCount, 0);
+    if (totalVisits === 0) {
+      functions.logger.info(`No visits found for fiscal year ${year}`);
+      await admin.firestore().collection('insight_data').doc(`yearly_trends_${year}`).delete();
+      return;
+    }
+
+    // Listed in fiscal order; month is the calendar month for labels
+    const monthlyBreakdown = monthlyTotals.map((month, index) => ({
+      month: ((startMonth - 1 + index) % 12) + 1,
+      fiscalMonth: index + 1,
+      visitCount: month.visitCount,
+      // Stored as a percentage (0-100) rounded to one decimal place
+      completionRate: month.visitCount > 0
+        ? Math.round((month.completeCount / month.visitCount) * 1000) / 10
+        : 0
+    }));
+
+    const quarterlyTrends: Array<{ quarter: number; visitCount: number; growth: number }> = [];
+    for (let quarter = 1; quarter <= 4; quarter++) {
+      const visitCount = monthlyTotals
+        .slice((quarter - 1) * 3, quarter * 3)
+        .reduce((sum, month) => sum + month.visitCount, 0);
+      const previous = quarter === 1 ? previousQuarterCount : quarterlyTrends[quarter - 2].visitCount;
+      quarterlyTrends.push({
+        quarter,
+        visitCount,
+        growth: percentageChange(previous, visitCount)
+      });
+    }
+
+    const insightDoc: any = {
+      dataType: 'yearly_trends',
+      data: {
+        year,
+        yearLabel: formatFiscalYear(year, calendar),
+        trends: {
+          monthlyBreakdown,
+          quarterlyTrends
+        }
+      },
+      lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+      lastUpdatedDisplay: new Date().toLocaleString('en-IN', {
+        timeZone: 'Asia/Kolkata',
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+      }),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      version: 1
+    };
+
+    await admin.firestore().collection('insight_data').doc(`yearly_trends_${year}`).set(insightDoc);
 
+    functions.logger.info(`Successfully aggregated yearly trends for fiscal year ${year}`, {
+      totalVisits,
+      previousQuarterCount,
+      quarterlyTrends
+    });
   } catch (error) {
-    functions.logger.error('Error aggregating weekly visits count:', error);
+    functions.logger.error('Error aggregating yearly trends:', error);
     throw error;
   }
 }
@@ -1220,10 +3674,10 @@ async function aggregateWeeklyVisitsCount(targetDate: Date): Promise<void> {
 /**
  * Check if insights collection exists and has data
  */
-async function checkInsightsCollectionExists(): Promise<boolean> {
+async function checkInsightsCollectionExists(dataType: string = 'weekly_visits_count'): Promise<boolean> {
   try {
     const snapshot = await admin.firestore().collection('insight_data')
-      .where('dataType', '==', 'weekly_visits_count')
+      .where('dataType', '==', dataType)
       .limit(1)
       .get();
     
@@ -1251,6 +3705,21 @@ function getInitialAggregationDateRange(): Date[] {
   return dates;
 }
 
+/**
+ * Get the month range for initial monthly aggregation (last 12 months)
+ */
+function getInitialMonthlyAggregationDateRange(): Date[] {
+  const dates: Date[] = [];
+  const now = new Date();
+
+  for (let i = 0; i < 12; i++) {
+    const { year, month } = getIstDateParts(now);
+    dates.push(istMidnight(year, month - i, 1));
+  }
+
+  return dates;
+}
+
 /**
  * Main Cloud Function - runs daily at 12:00 AM IST
  */
@@ -1294,9 +3763,50 @@ export const insightDataAggregator = functions.pubsub
       await aggregateWeeklyVisitsCount(targetDate);
     }
 
-    // You can add more aggregation functions here
-    // await aggregateMonthlySummary(targetDate);
-    // await aggregateYearlyTrends(targetDate);
+    const monthlySummariesExist = await checkInsightsCollectionExists('monthly_summary');
+
+    if (!monthlySummariesExist) {
+      functions.logger.info('No monthly summaries found. Running initial monthly aggregation for historical data...');
+
+      const monthsToAggregate = getInitialMonthlyAggregationDateRange();
+
+      for (const date of monthsToAggregate) {
+        try {
+          await aggregateMonthlySummary(date);
+        } catch (error) {
+          functions.logger.warn(`Failed to aggregate monthly summary for date ${date.toISOString()}:`, error);
+        }
+      }
+
+      functions.logger.info(`Initial monthly aggregation completed for ${monthsToAggregate.length} months`);
+    } else {
+      // Recompute the month containing the previous day so month-end visits are included
+      const targetDate = new Date();
+      targetDate.setDate(targetDate.getDate() - 1);
+
+      await aggregateMonthlySummary(targetDate);
+    }
+
+    const yearlyTrendsExist = await checkInsightsCollectionExists('yearly_trends');
+
+    if (!yearlyTrendsExist) {
+      functions.logger.info('No yearly trends found. Running initial yearly aggregation for historical data...');
+
+      const calendar = getFiscalCalendar();
+      const currentYear = getFiscalYear(new Date(), calendar);
+      for (const year of [currentYear - 1, currentYear]) {
+        try {
+          await aggregateYearlyTrends(getFiscalYearStart(year, calendar));
+        } catch (error) {
+          functions.logger.warn(`Failed to aggregate yearly trends for year ${year}:`, error);
+        }
+      }
+    } else {
+      const targetDate = new Date();
+      targetDate.setDate(targetDate.getDate() - 1);
+
+      await aggregateYearlyTrends(targetDate);
+    }
 
     functions.logger.info('Insight data aggregation completed successfully');
 
@@ -1305,3 +3815,307 @@ export const insightDataAggregator = functions.pubsub
     throw error;
   }
 });
+
+// Fields that feed the weekly aggregation; edits to anything else don't dirty a week
+const INSIGHT_RELEVANT_VISIT_FIELDS = [
+  'date',
+  'status',
+  'filledBy',
+  'filledByUid',
+  'quality',
+  'personMet',
+  'visitHours',
+  'cci_id',
+  'cci_name'
+];
+const INSIGHT_DIRTY_WEEKS_COLLECTION = 'insight_dirty_weeks';
+// Minimum quiet period after the last edit before a dirty week is recomputed
+const INSIGHT_RECOMPUTE_DEBOUNCE_MS = 2 * 60 * 1000;
+
+function hasInsightRelevantChange(
+  before: FirebaseFirestore.DocumentData | undefined,
+  after: FirebaseFirestore.DocumentData | undefined
+): boolean {
+  if (!before || !after) {
+    return true;
+  }
+  return INSIGHT_RELEVANT_VISIT_FIELDS.some(field => {
+    const beforeValue = before[field];
+    const afterValue = after[field];
+    if (beforeValue instanceof admin.firestore.Timestamp && afterValue instanceof admin.firestore.Timestamp) {
+      return !beforeValue.isEqual(afterValue);
+    }
+    return toPlainString(beforeValue) !== toPlainString(afterValue);
+  });
+}
+
+/**
+ * Mark the weeks touched by a visit write as dirty so they are recomputed
+ */
+export const markInsightWeeksDirty = functions.firestore
+  .document('visits/{visitId}')
+  .onWrite(async (change, context) => {
+    const before = change.before.exists ? change.before.data() : undefined;
+    const after = change.after.exists ? change.after.data() : undefined;
+    const visitId = context.params.visitId;
+
+    if (!hasInsightRelevantChange(before, after)) {
+      return null;
+    }
+
+    // Both the old and the new date's week are affected when a visit moves
+    const calendar = getFiscalCalendar();
+    const weekStarts = new Map<string, Date>();
+    for (const value of [before?.date, after?.date]) {
+      const date = ensureDate(value);
+      if (date) {
+        const { weekId, start } = getFiscalWeek(date, calendar);
+        weekStarts.set(weekId, start);
+      }
+    }
+
+    if (weekStarts.size === 0) {
+      return null;
+    }
+
+    try {
+      const batch = admin.firestore().batch();
+      weekStarts.forEach((weekStart, weekId) => {
+        const markerRef = admin.firestore().collection(INSIGHT_DIRTY_WEEKS_COLLECTION).doc(weekId);
+        batch.set(markerRef, {
+          weekId,
+          weekStart: admin.firestore.Timestamp.fromDate(weekStart),
+          dirtyAt: admin.firestore.FieldValue.serverTimestamp(),
+          lastVisitId: visitId
+        }, { merge: true });
+      });
+      await batch.commit();
+
+      functions.logger.info(`Marked ${weekStarts.size} insight week(s) dirty for visit ${visitId}`, {
+        visitId,
+        weekIds: Array.from(weekStarts.keys())
+      });
+    } catch (error) {
+      functions.logger.error(`Failed to mark insight weeks dirty for visit ${visitId}:`, error);
+    }
+    return null;
+  });
+
+/**
+ * Recompute dirty weeks (and the months/years they fall in) once they have
+ * been quiet for the debounce window
+ */
+export const processDirtyInsightWeeks = functions.pubsub
+  .schedule('every 5 minutes')
+  .timeZone(IST_TIME_ZONE)
+  .onRun(async () => {
+    const cutoff = admin.firestore.Timestamp.fromMillis(Date.now() - INSIGHT_RECOMPUTE_DEBOUNCE_MS);
+    const dirtySnapshot = await admin.firestore()
+      .collection(INSIGHT_DIRTY_WEEKS_COLLECTION)
+      .where('dirtyAt', '<=', cutoff)
+      .get();
+
+    if (dirtySnapshot.empty) {
+      return null;
+    }
+
+    functions.logger.info(`Recomputing ${dirtySnapshot.size} dirty insight week(s)`);
+
+    // Months and years overlapping the dirty weeks are rolled up once per run
+    const calendar = getFiscalCalendar();
+    const affectedMonths = new Map<string, Date>();
+    const affectedYears = new Set<number>();
+
+    for (const doc of dirtySnapshot.docs) {
+      const weekStart = ensureDate(doc.get('weekStart'));
+      if (!weekStart) {
+        await doc.ref.delete();
+        continue;
+      }
+
+      try {
+        await aggregateWeeklyVisitsCount(weekStart);
+      } catch (error) {
+        functions.logger.warn(`Failed to recompute dirty insight week ${doc.id}:`, error);
+        continue;
+      }
+
+      for (const date of [weekStart, getEndOfWeek(weekStart, calendar)]) {
+        affectedMonths.set(getMonthId(date), date);
+        affectedYears.add(getFiscalYear(date, calendar));
+      }
+
+      try {
+        // Only clear the marker if no further edit re-dirtied the week while we were recomputing
+        await doc.ref.delete({ lastUpdateTime: doc.updateTime });
+      } catch {
+        functions.logger.info(`Insight week ${doc.id} was edited during recompute; it will be picked up on the next run`);
+      }
+    }
+
+    for (const [monthId, date] of affectedMonths) {
+      try {
+        await aggregateMonthlySummary(date);
+      } catch (error) {
+        functions.logger.warn(`Failed to recompute monthly summary ${monthId}:`, error);
+      }
+    }
+
+    for (const year of affectedYears) {
+      try {
+        await aggregateYearlyTrends(getFiscalYearStart(year, calendar));
+      } catch (error) {
+        functions.logger.warn(`Failed to recompute yearly trends ${year}:`, error);
+      }
+    }
+
+    return null;
+  });
+
+const INSIGHT_JOBS_COLLECTION = 'insight_jobs';
+// Roughly three years of weeks keeps a rebuild inside the function timeout
+const MAX_RECOMPUTE_WEEKS = 160;
+// A running job that hasn't reported progress for this long is treated as abandoned
+const STALE_JOB_MS = 10 * 60 * 1000;
+// Lock document in insight_jobs naming the job that holds the rebuild
+const INSIGHT_JOB_LOCK_ID = 'current';
+
+/**
+ * Admin callable that rebuilds weekly insights (and the months/years they
+ * cover) for a date range, reporting progress in an insight_jobs document
+ */
+export const panelRecomputeInsights = functions
+  .runWith({ timeoutSeconds: 540, memory: '512MB' })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'Authentication required.');
+    }
+    const token: Record<string, unknown> = context.auth.token || {};
+    if (token.role !== 'Admin') {
+      throw new functions.https.HttpsError('permission-denied', 'Admin privileges required.');
+    }
+
+    const from = typeof data?.from === 'string' ? parseIstDay(data.from) : null;
+    const to = typeof data?.to === 'string' ? parseIstDay(data.to) : null;
+    if (!from || !to) {
+      throw new functions.https.HttpsError('invalid-argument', 'from and to must be dates in YYYY-MM-DD format.');
+    }
+    if (from > to) {
+      throw new functions.https.HttpsError('invalid-argument', 'from must be on or before to.');
+    }
+
+    const calendar = getFiscalCalendar();
+    const weekStarts: Date[] = [];
+    for (let cursor = getStartOfWeek(from, calendar); cursor <= to; cursor = addDays(cursor, 7)) {
+      weekStarts.push(cursor);
+    }
+    if (weekStarts.length > MAX_RECOMPUTE_WEEKS) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        `Range covers ${weekStarts.length} weeks; the maximum is ${MAX_RECOMPUTE_WEEKS}.`
+      );
+    }
+
+    // insight_jobs/current points at the latest job. It is read and moved in
+    // a transaction, so two requests cannot both start a rebuild. It has no
+    // createdAt, so job listings ordered by createdAt skip it.
+    const jobsRef = admin.firestore().collection(INSIGHT_JOBS_COLLECTION);
+    const lockRef = jobsRef.doc(INSIGHT_JOB_LOCK_ID);
+    const jobRef = jobsRef.doc();
+    const startedByUid = context.auth.uid;
+    await admin.firestore().runTransaction(async (transaction) => {
+      const lock = await transaction.get(lockRef);
+      const currentJobId = lock.get('jobId') as string | undefined;
+      if (currentJobId) {
+        const currentJob = await transaction.get(jobsRef.doc(currentJobId));
+        const updatedAt = ensureDate(currentJob.get('updatedAt'));
+        if (currentJob.get('status') === 'running' && updatedAt && Date.now() - updatedAt.getTime() < STALE_JOB_MS) {
+          throw new functions.https.HttpsError('failed-precondition', 'A stats rebuild is already running.');
+        }
+      }
+
+      transaction.set(lockRef, {
+        jobId: jobRef.id,
+        lockedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      transaction.create(jobRef, {
+        type: 'recompute_insights',
+        status: 'running',
+        from: data.from,
+        to: data.to,
+        totalWeeks: weekStarts.length,
+        completedWeeks: 0,
+        failedWeeks: [],
+        startedByUid,
+        startedByEmail: (token.email as string | undefined) ?? null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    functions.logger.info('Insight recompute started', {
+      jobId: jobRef.id,
+      uid: context.auth.uid,
+      from: data.from,
+      to: data.to,
+      totalWeeks: weekStarts.length,
+    });
+
+    const failedWeeks: string[] = [];
+    try {
+      for (let i = 0; i < weekStarts.length; i++) {
+        const weekStart = weekStarts[i];
+        try {
+          await aggregateWeeklyVisitsCount(weekStart);
+        } catch (error) {
+          const weekId = getWeekId(weekStart, calendar);
+          functions.logger.warn(`Recompute job ${jobRef.id} failed for week ${weekId}:`, error);
+          failedWeeks.push(weekId);
+        }
+        await jobRef.update({
+          completedWeeks: i + 1,
+          failedWeeks,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+
+      // Roll the rebuilt weeks up into their monthly and yearly documents
+      const months = new Map<string, Date>();
+      const years = new Set<number>();
+      for (const weekStart of weekStarts) {
+        for (const date of [weekStart, getEndOfWeek(weekStart, calendar)]) {
+          months.set(getMonthId(date), date);
+          years.add(getFiscalYear(date, calendar));
+        }
+      }
+      for (const date of months.values()) {
+        await aggregateMonthlySummary(date);
+      }
+      for (const year of years) {
+        await aggregateYearlyTrends(getFiscalYearStart(year, calendar));
+      }
+
+      await jobRef.update({
+        status: 'completed',
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        finishedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      functions.logger.info('Insight recompute completed', {
+        jobId: jobRef.id,
+        totalWeeks: weekStarts.length,
+        failedWeeks,
+      });
+      return { jobId: jobRef.id, totalWeeks: weekStarts.length, failedWeeks };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      functions.logger.error(`Insight recompute job ${jobRef.id} failed:`, error);
+      await jobRef.update({
+        status: 'failed',
+        error: message,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        finishedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      throw new functions.https.HttpsError('internal', `Failed to recompute insights: ${message}`);
+    }
+  });
@@ -25,6 +25,20 @@ export interface UserDoc extends TimestampedDocument {
   username?: string
   role: 'Admin' | 'EM' | 'Pending'
   status: 'Active' | 'Inactive'
+  deactivatedAt?: admin.firestore.Timestamp | admin.firestore.FieldValue
+  deactivatedByUid?: string
+  // Approval queue: sign-up details and the admin's decision
+  reviewStatus?: 'pending' | 'approved' | 'rejected'
+  signupNote?: string
+  signupSubmittedAt?: admin.firestore.Timestamp | admin.firestore.FieldValue
+  rejectionReason?: string
+  reviewedAt?: admin.firestore.Timestamp | admin.firestore.FieldValue
+  reviewedByUid?: string
+  // Admin grant that lets a non-admin read every visit (seeAllVisits claim)
+  canSeeAllVisits?: boolean
+  // Sign-up allowlist entry that approves this user once their email is verified
+  pendingAutoApproval?: string
+  approvedByAllowlist?: string
   displayName?: string
   pinnedVisits?: string[] // Array of visit IDs
 }
@@ -41,6 +55,7 @@ export interface CCIDoc extends FirestoreDocument {
   email?: string
   phone?: string
   status?: 'Active' | 'Inactive'
+  assignedEmsCanEdit?: boolean // Opt-in: assigned EMs may edit any visit at this CCI
 }
 
 // Visit-related types
@@ -59,6 +74,7 @@ export interface VisitDoc extends TimestampedDocument {
   personMet?: string
   visitHours?: 'Full' | 'Half' | 'Drop-In' | 'Special'
   order?: number // For timeline ordering
+  lastEditedByUid?: string // Set on every edit, verified by the security rules
 }
 
 // Visit note types
@@ -91,6 +107,10 @@ export interface VersionEventDoc extends FirestoreDocument {
   afterValue?: string
   timestamp: admin.firestore.Timestamp | admin.firestore.FieldValue
   diff?: string
+  metadata?: {
+    noteId?: string
+    fieldName?: string
+  }
 }
 
 export interface VersionSnapshotDoc extends FirestoreDocument {
@@ -101,6 +121,13 @@ export interface VersionSnapshotDoc extends FirestoreDocument {
   createdAt: admin.firestore.Timestamp | admin.firestore.FieldValue
   createdBy: string
   summary?: string
+  trigger?: 'events' | 'idle'
+  asOf?: admin.firestore.Timestamp | admin.firestore.FieldValue
+  content?: {
+    agenda: string
+    debrief: string
+    notes: VisitNote[]
+  }
 }
 
 // Collection names as const
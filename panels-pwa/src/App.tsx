@@ -15,7 +15,10 @@ const AdminSettings = lazy(() => import('./components/AdminSettings'));
 const Stats = lazy(() => import('./components/Stats'));
 const NotesView = lazy(() => import('./components/NotesView'));
 const AwaitingReview = lazy(() => import('./components/AwaitingReview'));
+const AccountDeactivated = lazy(() => import('./components/AccountDeactivated'));
 const MeetingNotes = lazy(() => import('./components/MeetingNotes'));
+const ReviewQueue = lazy(() => import('./components/ReviewQueue'));
+const ActionItemsView = lazy(() => import('./components/ActionItemsView'));
 
 const SuspenseFallback = () => (
   <div className="flex flex-col items-center justify-center min-h-screen bg-background text-foreground">
@@ -65,10 +68,13 @@ const App: React.FC = () => {
                   <Route path="/settings" element={<AdminSettings />} />
                   <Route path="/stats" element={<Stats />} />
                   <Route path="/meeting-notes/:visitId" element={<MeetingNotes />} />
+                  <Route path="/review" element={<ReviewQueue />} />
+                  <Route path="/action-items" element={<ActionItemsView />} />
                 </Route>
                 <Route path="/login" element={!user ? <Login /> : <Navigate to="/" />} />
                 <Route path="/signup" element={!user ? <SignUp /> : <Navigate to="/" />} />
                 <Route path="/awaiting-review" element={<AwaitingReview />} />
+                <Route path="/account-deactivated" element={<AccountDeactivated />} />
               </Routes>
             </Suspense>
           </div>
@@ -0,0 +1,39 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import useAuthStore from '../store/authStore';
+import { Button } from '@/components/ui/button';
+
+const AccountDeactivated: React.FC = () => {
+  const { user, logout } = useAuthStore();
+  const navigate = useNavigate();
+
+  const handleBackToLogin = async () => {
+    // The session is usually gone already; sign out anyway to clear local state
+    if (user) {
+      try { await logout() } catch { /* nothing left to clear */ }
+    }
+    navigate('/login', { replace: true });
+  };
+
+  return (
+    <div className="hero min-h-screen bg-base-200">
+      <div className="hero-content text-center">
+        <div className="max-w-md">
+          <h1 className="text-5xl font-bold">Account Deactivated</h1>
+          <p className="py-6">
+            Your account has been deactivated by an administrator and you have been signed out.
+            Your visits and notes are kept and will be available again if the account is reactivated.
+          </p>
+          <p className="text-sm text-gray-500 mb-6">
+            Contact an administrator if you think this is a mistake.
+          </p>
+          <Button variant="outline" onClick={handleBackToLogin}>
+            Back to sign in
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountDeactivated;
@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { TextSelect } from '@/components/ui/text-select'
+import { Circle, CheckCircle2, ListChecks, Plus, Trash2 } from 'lucide-react'
+import { usePermissionsStore } from '@/store/permissionsStore'
+import { isOverdue, setActionItemStatus, useVisitActionItems, type VisitActionItems } from '@/hooks/useActionItems'
+import { notify } from '@/utils/notify'
+import { timestampToDate } from '@/types/firestore'
+import type { ActionItemDoc, VisitDoc } from '@/types/firestore'
+
+const MAX_ACTION_ITEM_LENGTH = 1000
+
+type ActionItemUser = { uid: string; email?: string; username?: string; role?: string }
+
+const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase()
+
+// Due dates are picked as calendar days in local time
+const parseDueDate = (value: string): Date | null => (value ? new Date(`${value}T00:00:00`) : null)
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string } | undefined)?.message || fallback
+
+interface DueDateBadgeProps {
+  item: Pick<ActionItemDoc, 'dueDate' | 'status'>
+}
+
+// Overdue items are highlighted wherever they are listed
+export const DueDateBadge: React.FC<DueDateBadgeProps> = ({ item }) => {
+  const due = timestampToDate(item.dueDate)
+  if (!due) return <span className="text-xs text-muted-foreground">No due date</span>
+  return (
+    <Badge variant={isOverdue(item) ? 'destructive' : 'outline'} className="text-[10px] whitespace-nowrap">
+      {isOverdue(item) ? 'Overdue · ' : 'Due '}{format(due, 'd MMM')}
+    </Badge>
+  )
+}
+
+interface ActionItemListProps {
+  actionItems: VisitActionItems
+  users: ActionItemUser[]
+  taskTexts?: string[] // Unchecked task list items from the visit's notes
+  compact?: boolean
+}
+
+/**
+ * A visit's action items with the form to add one. Task list items in the
+ * notes that are not action items yet can be added in one go.
+ */
+export const ActionItemList: React.FC<ActionItemListProps> = ({ actionItems, users, taskTexts = [], compact = false }) => {
+  const { userId } = usePermissionsStore()
+  const { items, canManage, addItem, deleteItem } = actionItems
+  const [text, setText] = useState('')
+  const [ownerUid, setOwnerUid] = useState('')
+  const [dueDate, setDueDate] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const userLabels = useMemo(() => new Map(users.map(u => [u.uid, u.username || u.email || u.uid])), [users])
+
+  const ownerOptions = useMemo(() => (
+    users
+      .filter(u => u.role !== 'Pending')
+      .map(u => ({ label: userLabels.get(u.uid) || u.uid, value: u.uid }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+  ), [users, userLabels])
+
+  const pendingTasks = useMemo(() => {
+    const existing = new Set(items.map(item => normalizeText(item.text)))
+    const seen = new Set<string>()
+    return taskTexts.filter(task => {
+      const key = normalizeText(task)
+      if (existing.has(key) || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }, [items, taskTexts])
+
+  const selfOwner = userId || ''
+  const ownerName = (uid: string) => userLabels.get(uid) || uid
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const owner = ownerUid || selfOwner
+    if (!text.trim() || !owner) return
+    setIsSaving(true)
+    try {
+      await addItem({ text, ownerUid: owner, ownerName: ownerName(owner), dueDate: parseDueDate(dueDate) })
+      setText('')
+      setDueDate('')
+    } catch (error) {
+      console.error('Failed to add action item', error)
+      notify.error(errorMessage(error, 'Failed to add action item.'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAddTasks = async () => {
+    if (!selfOwner) return
+    setIsSaving(true)
+    try {
+      for (const task of pendingTasks) {
+        await addItem({
+          text: task.slice(0, MAX_ACTION_ITEM_LENGTH),
+          ownerUid: selfOwner,
+          ownerName: ownerName(selfOwner),
+          dueDate: null,
+          source: 'task'
+        })
+      }
+      notify.success(`Added ${pendingTasks.length} action item${pendingTasks.length === 1 ? '' : 's'}`)
+    } catch (error) {
+      console.error('Failed to add action items from tasks', error)
+      notify.error(errorMessage(error, 'Failed to add action items.'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggle = async (item: ActionItemDoc) => {
+    setBusyId(item.id)
+    try {
+      await setActionItemStatus(item, item.status === 'open' ? 'done' : 'open', userId)
+    } catch (error) {
+      console.error('Failed to update action item', error)
+      notify.error(errorMessage(error, 'Failed to update action item.'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (item: ActionItemDoc) => {
+    if (!window.confirm('Delete this action item?')) return
+    setBusyId(item.id)
+    try {
+      await deleteItem(item.id)
+    } catch (error) {
+      console.error('Failed to delete action item', error)
+      notify.error(errorMessage(error, 'Failed to delete action item.'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      {items.length === 0 && !canManage && (
+        <div className="text-sm text-muted-foreground italic">No action items</div>
+      )}
+      {items.map(item => {
+        const canToggle = canManage || item.ownerUid === userId
+        return (
+          <div key={item.id} className="flex items-start gap-2 text-sm">
+            <button
+              type="button"
+              className="mt-0.5 text-muted-foreground hover:text-foreground disabled:opacity-50"
+              onClick={() => handleToggle(item)}
+              disabled={!canToggle || busyId === item.id}
+              aria-label={item.status === 'open' ? 'Mark done' : 'Reopen'}
+            >
+              {item.status === 'done' ? <CheckCircle2 className="h-4 w-4 text-success" /> : <Circle className="h-4 w-4" />}
+            </button>
+            <div className="flex-1 min-w-0">
+              <div className={item.status === 'done' ? 'line-through text-muted-foreground' : ''}>{item.text}</div>
+              <div className="flex flex-wrap items-center gap-2 mt-0.5 text-xs text-muted-foreground">
+                <span>{userLabels.get(item.ownerUid) || item.ownerName}</span>
+                {item.status === 'open' && <DueDateBadge item={item} />}
+              </div>
+            </div>
+            {canManage && !compact && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => handleDelete(item)}
+                disabled={busyId === item.id}
+                aria-label="Delete action item"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        )
+      })}
+
+      {canManage && pendingTasks.length > 0 && (
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleAddTasks} disabled={isSaving}>
+          <ListChecks className="h-3 w-3 mr-1.5" />
+          Add {pendingTasks.length} from task list
+        </Button>
+      )}
+
+      {canManage && (
+        <form className={`flex flex-wrap items-center gap-2 ${compact ? '' : 'pt-2 border-t'}`} onSubmit={handleAdd}>
+          <Input
+            value={text}
+            maxLength={MAX_ACTION_ITEM_LENGTH}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Add an action item…"
+            className="h-8 flex-1 min-w-[12rem] text-sm"
+          />
+          <TextSelect
+            value={ownerUid || selfOwner}
+            onChange={setOwnerUid}
+            options={ownerOptions}
+            placeholder="Owner"
+            size="sm"
+            className="w-40"
+          />
+          <Input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="h-8 w-36 text-sm"
+            aria-label="Due date"
+          />
+          <Button type="submit" size="sm" className="h-8 text-xs px-3" disabled={isSaving || !text.trim()}>
+            <Plus className="h-3 w-3 mr-1.5" />
+            Add
+          </Button>
+        </form>
+      )}
+    </div>
+  )
+}
+
+interface VisitActionItemsProps {
+  visit: Pick<VisitDoc, 'id' | 'filledByUid' | 'cci_id' | 'cci_name'>
+  users: ActionItemUser[]
+  taskTexts?: string[]
+}
+
+// Action items card for the meeting notes page
+const VisitActionItemsCard: React.FC<VisitActionItemsProps> = ({ visit, users, taskTexts }) => {
+  const actionItems = useVisitActionItems(visit)
+  if (!actionItems.enabled) return null
+  const openCount = actionItems.items.filter(item => item.status === 'open').length
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Action Items
+          {openCount > 0 && <span className="text-sm font-normal text-muted-foreground">({openCount} open)</span>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ActionItemList actionItems={actionItems} users={users} taskTexts={taskTexts} />
+      </CardContent>
+    </Card>
+  )
+}
+
+export default VisitActionItemsCard
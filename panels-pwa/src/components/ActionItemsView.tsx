@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { SegmentedControl } from '@/components/ui/segmented-control'
+import { CheckCircle2, ExternalLink, ListChecks } from 'lucide-react'
+import { DueDateBadge } from '@/components/ActionItems'
+import { isOverdue, setActionItemStatus, useOpenActionItems } from '@/hooks/useActionItems'
+import { useUsersForVisits } from '@/hooks/useUsersForVisits'
+import { usePermissionsStore } from '@/store/permissionsStore'
+import { notify } from '@/utils/notify'
+import type { ActionItemDoc } from '@/types/firestore'
+
+type ItemFilter = 'all' | 'mine' | 'overdue'
+
+const filterOptions = [
+  { label: 'All open', value: 'all' },
+  { label: 'Mine', value: 'mine' },
+  { label: 'Overdue', value: 'overdue' }
+]
+
+const ActionItemsView: React.FC = () => {
+  const { items, isLoading } = useOpenActionItems()
+  const { data: users } = useUsersForVisits()
+  const { userId } = usePermissionsStore()
+  const [filter, setFilter] = useState<ItemFilter>('all')
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const userLabels = useMemo(
+    () => new Map((users || []).map(u => [u.uid, u.username || u.email || u.uid])),
+    [users]
+  )
+
+  const visibleItems = useMemo(() => items.filter(item => (
+    filter === 'mine' ? item.ownerUid === userId
+      : filter === 'overdue' ? isOverdue(item)
+        : true
+  )), [items, filter, userId])
+
+  const overdueCount = useMemo(() => items.filter(item => isOverdue(item)).length, [items])
+
+  const handleDone = async (item: ActionItemDoc) => {
+    setBusyId(item.id)
+    try {
+      await setActionItemStatus(item, 'done', userId)
+      notify.success('Marked done')
+    } catch (error) {
+      console.error('Failed to complete action item', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to complete action item.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <div className="w-full max-w-5xl lg:max-w-6xl mx-auto px-3 sm:px-4 lg:px-6 py-6 sm:py-10 lg:py-12">
+        <div className="flex justify-center mb-4">
+          <SegmentedControl
+            ariaLabel="Action item filter"
+            options={filterOptions}
+            value={filter}
+            onChange={(v) => setFilter(v as ItemFilter)}
+          />
+        </div>
+        <Card className="m3-card">
+          <CardHeader className="m3-card-header">
+            <CardTitle className="text-lg sm:text-xl flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Action Items
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Open follow-ups from visits across your CCIs, soonest due first.
+              {overdueCount > 0 && <span className="text-destructive"> {overdueCount} overdue.</span>}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="py-6 text-center text-muted-foreground">Loading…</div>
+            ) : visibleItems.length === 0 ? (
+              <div className="py-6 text-center text-muted-foreground">
+                {filter === 'overdue' ? 'Nothing is overdue.' : 'No open action items.'}
+              </div>
+            ) : (
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>CCI</TableHead>
+                      <TableHead>Owner</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead className="text-right" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleItems.map(item => (
+                      <TableRow key={`${item.visitId}/${item.id}`} className={isOverdue(item) ? 'bg-destructive/5' : undefined}>
+                        <TableCell className="text-sm max-w-sm">{item.text}</TableCell>
+                        <TableCell className="text-sm">{item.cci_name || '—'}</TableCell>
+                        <TableCell className="text-sm">{userLabels.get(item.ownerUid) || item.ownerName}</TableCell>
+                        <TableCell><DueDateBadge item={item} /></TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDone(item)}
+                              disabled={busyId === item.id}
+                              aria-label="Mark done"
+                            >
+                              <CheckCircle2 className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" asChild aria-label="Open source visit">
+                              <Link to={`/meeting-notes/${item.visitId}`}>
+                                <ExternalLink className="h-4 w-4" />
+                              </Link>
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default ActionItemsView
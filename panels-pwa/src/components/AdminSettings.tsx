@@ -1,6 +1,5 @@
 import React, { useEffect, useRef, useState } from 'react';
 import useAuthStore from '../store/authStore';
-import { updateDocument } from '../firebase/firestoreService';
 import { notify } from '../utils/notify';
 import { usersCollection } from '../firebase/paths';
 import { useFirestoreCollection } from '../hooks/useFirestoreCollection';
@@ -8,6 +7,15 @@ import { canReadUsers } from '../firebase/accessControl';
 import ManageCCIs from './ManageCCIs';
 import AssignUsers from './AssignUsers';
 import ImportMeetingNotes from './ImportMeetingNotes';
+import RebuildInsights from './RebuildInsights';
+import ExportVisitsDialog from './ExportVisitsDialog';
+import RestoreVisitsBackup from './RestoreVisitsBackup';
+import BackupHistory from './BackupHistory';
+import AuditLog from './AuditLog';
+import BulkInviteUsers from './BulkInviteUsers';
+import ApprovalQueue from './ApprovalQueue';
+import SignupAllowlist from './SignupAllowlist';
+import ManageTeams from './ManageTeams';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent } from '@/components/ui/tabs';
@@ -15,7 +23,7 @@ import { Badge } from '@/components/ui/badge';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Users, Building2, UserPlus, Sparkles, Save, AlertTriangle, ChevronDown, Search as SearchIcon, X, Pencil, Upload } from 'lucide-react';
+import { Users, Building2, UserPlus, Sparkles, Save, AlertTriangle, ChevronDown, Search as SearchIcon, X, Pencil, Upload, BarChart3, Download, ScrollText, UserCheck } from 'lucide-react';
 import { StickyActionBar } from '@/components/ui/sticky-action-bar';
 import { SegmentedControl } from '@/components/ui/segmented-control';
 import { getFunctions, httpsCallable } from 'firebase/functions';
@@ -27,6 +35,8 @@ interface UserProfile {
   email: string;
   role: string;
   status?: string;
+  reviewStatus?: string;
+  canSeeAllVisits?: boolean;
 }
 
 //
@@ -35,6 +45,7 @@ const getRoleBadgeVariant = (role: string) => {
   switch (role) {
     case 'Admin': return 'default';
     case 'EM': return 'success';
+    case 'Supervisor': return 'info';
     case 'CM': return 'info';
     case 'Academy': return 'secondary';
     case 'Management': return 'warning';
@@ -67,8 +78,10 @@ const UserSettings: React.FC = () => {
   const [editing, setEditing] = useState<Record<string, boolean>>({});
   const [swipeOffsets, setSwipeOffsets] = useState<Record<string, number>>({});
   const [roleFilter, setRoleFilter] = useState<string>('All');
-  const [activeTab, setActiveTab] = useState<'users'|'ccis'|'assignments'|'import'>('users');
+  const [activeTab, setActiveTab] = useState<'users'|'approvals'|'ccis'|'assignments'|'import'|'stats'|'audit'>('users');
   const [addingUser, setAddingUser] = useState(false);
+  const [bulkInviting, setBulkInviting] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
   const [newEmail, setNewEmail] = useState('');
   const [newUsername, setNewUsername] = useState('');
   const [newPassword, setNewPassword] = useState('');
@@ -113,6 +126,24 @@ const UserSettings: React.FC = () => {
     setSwipeOffsets(prev => ({ ...prev, [userId]: 0 }));
   };
 
+  // Deactivation disables the account and signs the user out everywhere once saved
+  const handleStatusChange = (userId: string, status: 'Active' | 'Inactive') => {
+    setStagedChanges(prev => ({
+      ...prev,
+      [userId]: { ...prev[userId], status },
+    }));
+    setSwipeOffsets(prev => ({ ...prev, [userId]: 0 }));
+  };
+
+  // See All access lets a non-admin read every visit, not only their own and their CCIs
+  const handleSeeAllChange = (userId: string, canSeeAllVisits: boolean) => {
+    setStagedChanges(prev => ({
+      ...prev,
+      [userId]: { ...prev[userId], canSeeAllVisits },
+    }));
+    setSwipeOffsets(prev => ({ ...prev, [userId]: 0 }));
+  };
+
   const discardEdits = () => {
     setEditing({});
     setSwipeOffsets({});
@@ -122,13 +153,16 @@ const UserSettings: React.FC = () => {
   const handleSaveChanges = async () => {
     const changesToProcess = Object.entries(stagedChanges);
     if (changesToProcess.length === 0) return;
+    const deactivations = changesToProcess.filter(([, data]) => data.status === 'Inactive').length;
+    if (deactivations > 0 && !window.confirm(`Deactivate ${deactivations} account${deactivations !== 1 ? 's' : ''}? They will be signed out and unable to sign in until reactivated.`)) {
+      return;
+    }
 
     try {
-      const updatePromises = changesToProcess.map(([userId, data]) =>
-        updateDocument(usersCollection(), userId, data)
-      );
-
-      await Promise.all(updatePromises);
+      // Role, status and See All changes go through a function so they are audited
+      try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+      const fn = httpsCallable(getFunctions(app, 'us-central1'), 'panelUpdateUsers');
+      await fn({ changes: Object.fromEntries(changesToProcess) });
 
       // Manually update the local cache
       const updatedUsers = allUsers.map(user => {
@@ -156,10 +190,11 @@ const UserSettings: React.FC = () => {
   const activeUsersRaw = allUsers?.filter(user => user.role !== 'Inactive') || [];
   const activeUsers = activeUsersRaw.filter(u => {
     const matchSearch = !search || u.email.toLowerCase().includes(search.toLowerCase());
-    const matchRole = roleFilter === 'All' || u.role === roleFilter;
+    const matchRole = roleFilter === 'All'
+      || (roleFilter === 'Deactivated' ? u.status === 'Inactive' : u.role === roleFilter);
     return matchSearch && matchRole;
   });
-  const pendingCount = activeUsers.filter(u => u.role === 'Pending').length;
+  const pendingCount = activeUsersRaw.filter(u => u.role === 'Pending' && u.reviewStatus !== 'rejected').length;
   const hasChanges = Object.keys(stagedChanges).length > 0;
   const anyEditing = Object.values(editing).some(Boolean);
 
@@ -179,22 +214,32 @@ const UserSettings: React.FC = () => {
                 </h1>
               </div>
             </div>
+            {isAdmin && (
+              <Button variant="outline" size="sm" onClick={() => setExportOpen(true)}>
+                <Download className="h-4 w-4 mr-2" />
+                Export visits
+              </Button>
+            )}
           </div>
           
           {isAdmin && pendingCount > 0 && (
-            <div className="flex items-center gap-2 p-3 bg-warning/10 border border-warning/20 rounded-lg">
+            <button
+              type="button"
+              onClick={() => setActiveTab('approvals')}
+              className="w-full flex items-center gap-2 p-3 bg-warning/10 border border-warning/20 rounded-lg text-left"
+            >
               <AlertTriangle className="h-4 w-4 text-warning" />
               <span className="text-sm text-warning">
                 {pendingCount} user{pendingCount !== 1 ? 's' : ''} awaiting approval
               </span>
-            </div>
+            </button>
           )}
         </div>
 
         {isAdmin ? (
           <>
           <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)} className="space-y-4 sm:space-y-6">
-            <div className="w-full max-w-md mx-auto">
+            <div className="w-full max-w-lg mx-auto overflow-x-auto">
               <div className="flex space-x-1 bg-muted p-1 rounded-lg">
                 <button
                   onClick={() => setActiveTab('users')}
@@ -207,6 +252,18 @@ const UserSettings: React.FC = () => {
                   <Users className="h-4 w-4" />
                   Users
                 </button>
+                <button
+                  onClick={() => setActiveTab('approvals')}
+                  className={`flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                    activeTab === 'approvals'
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  <UserCheck className="h-4 w-4" />
+                  Approvals
+                  {pendingCount > 0 && <Badge variant="warning" className="ml-1 px-1.5 text-xs">{pendingCount}</Badge>}
+                </button>
                 <button
                   onClick={() => setActiveTab('ccis')}
                   className={`flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-md transition-colors ${
@@ -240,6 +297,28 @@ const UserSettings: React.FC = () => {
                   <Upload className="h-4 w-4" />
                   Import Notes
                 </button>
+                <button
+                  onClick={() => setActiveTab('stats')}
+                  className={`flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                    activeTab === 'stats'
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  <BarChart3 className="h-4 w-4" />
+                  Stats
+                </button>
+                <button
+                  onClick={() => setActiveTab('audit')}
+                  className={`flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                    activeTab === 'audit'
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  <ScrollText className="h-4 w-4" />
+                  Audit
+                </button>
               </div>
             </div>
 
@@ -258,6 +337,16 @@ const UserSettings: React.FC = () => {
                       </CardDescription>
                     </div>
                     <div className="flex items-center gap-2">
+                      {!(hasChanges || anyEditing) && (
+                        <Button
+                          variant="outline"
+                          size="default"
+                          onClick={() => setBulkInviting(true)}
+                          className="text-xs sm:text-sm whitespace-nowrap m3-tonal-button"
+                        >
+                          Bulk invite
+                        </Button>
+                      )}
                       {!(hasChanges || anyEditing) && (
                         <Button 
                           variant="primary"
@@ -296,6 +385,9 @@ const UserSettings: React.FC = () => {
                   </div>
                 </CardHeader>
                 <CardContent className="p-0">
+                  {bulkInviting && (
+                    <BulkInviteUsers onClose={() => setBulkInviting(false)} onInvited={() => mutate()} />
+                  )}
                   {addingUser && (
                     <form className="p-4 border-b bg-muted/30" onSubmit={async (e) => {
                       e.preventDefault();
@@ -342,7 +434,7 @@ const UserSettings: React.FC = () => {
                         <div>
                           <label className="text-xs text-muted-foreground">Role</label>
                           <select className="mt-1 w-full rounded-md border px-3 py-2 text-sm" value={newRole} onChange={(e) => setNewRole(e.target.value)}>
-                            {['Pending','EM','CM','Academy','Management','Guest','Admin'].map(r => (
+                            {['Pending','EM','Supervisor','CM','Academy','Management','Guest','Admin'].map(r => (
                               <option key={r} value={r}>{r}</option>
                             ))}
                           </select>
@@ -413,11 +505,13 @@ const UserSettings: React.FC = () => {
                             { label: 'All', value: 'All' },
                             { label: 'Pending', value: 'Pending' },
                             { label: 'EM', value: 'EM' },
+                            { label: 'Supervisor', value: 'Supervisor' },
                             { label: 'CM', value: 'CM' },
                             { label: 'Academy', value: 'Academy' },
                             { label: 'Mgmt', value: 'Management' },
                             { label: 'Guest', value: 'Guest' },
                             { label: 'Admin', value: 'Admin' },
+                            { label: 'Deactivated', value: 'Deactivated' },
                           ]}
                           value={roleFilter}
                           onChange={setRoleFilter}
@@ -475,10 +569,16 @@ const UserSettings: React.FC = () => {
                                       </div>
                                     </div>
                                   </TableCell>
-                                  <TableCell>
+                                  <TableCell className="space-x-1">
                                     <Badge variant={getRoleBadgeVariant(u.role)}>
                                       {u.role}
                                     </Badge>
+                                    {displayUser.status === 'Inactive' && (
+                                      <Badge variant="destructive">Deactivated</Badge>
+                                    )}
+                                    {displayUser.canSeeAllVisits && displayUser.role !== 'Admin' && (
+                                      <Badge variant="info">See All</Badge>
+                                    )}
                                   </TableCell>
                                   <TableCell>
                                     <DropdownMenu>
@@ -491,10 +591,23 @@ const UserSettings: React.FC = () => {
                                       <DropdownMenuContent align="end">
                                         <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'Pending')}>Pending</DropdownMenuItem>
                                         <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'EM')}>EM</DropdownMenuItem>
+                                        <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'Supervisor')}>Supervisor</DropdownMenuItem>
                                         <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'CM')}>CM</DropdownMenuItem>
                                         <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'Academy')}>Academy</DropdownMenuItem>
                                         <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'Management')}>Management</DropdownMenuItem>
                                         <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'Guest')}>Guest</DropdownMenuItem>
+                                        {displayUser.role !== 'Admin' && (
+                                          <DropdownMenuItem onSelect={() => handleSeeAllChange(u.uid, !displayUser.canSeeAllVisits)}>
+                                            {displayUser.canSeeAllVisits ? 'Revoke See All access' : 'Grant See All access'}
+                                          </DropdownMenuItem>
+                                        )}
+                                        {u.uid !== user?.uid && (
+                                          displayUser.status === 'Inactive' ? (
+                                            <DropdownMenuItem onSelect={() => handleStatusChange(u.uid, 'Active')}>Reactivate account</DropdownMenuItem>
+                                          ) : (
+                                            <DropdownMenuItem className="text-destructive" onSelect={() => handleStatusChange(u.uid, 'Inactive')}>Deactivate account</DropdownMenuItem>
+                                          )
+                                        )}
                                       </DropdownMenuContent>
                                     </DropdownMenu>
                                   </TableCell>
@@ -601,6 +714,12 @@ const UserSettings: React.FC = () => {
                                         <div className="flex-1 min-w-0 mr-2">
                                           <p className="font-medium text-sm truncate">{u.email}</p>
                                         </div>
+                                        {displayUser.status === 'Inactive' && (
+                                          <Badge variant="destructive" className="text-xs">Deactivated</Badge>
+                                        )}
+                                        {displayUser.canSeeAllVisits && displayUser.role !== 'Admin' && (
+                                          <Badge variant="info" className="text-xs">See All</Badge>
+                                        )}
                                         <Badge variant={getRoleBadgeVariant(displayUser.role)} className="text-xs">
                                           {displayUser.role}
                                         </Badge>
@@ -625,11 +744,24 @@ const UserSettings: React.FC = () => {
                                           <DropdownMenuContent align="end">
                                             <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'Pending')}>Pending</DropdownMenuItem>
                                             <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'EM')}>EM</DropdownMenuItem>
+                                            <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'Supervisor')}>Supervisor</DropdownMenuItem>
                                             <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'CM')}>CM</DropdownMenuItem>
                                             <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'Academy')}>Academy</DropdownMenuItem>
                                             <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'Management')}>Management</DropdownMenuItem>
                                             <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'Guest')}>Guest</DropdownMenuItem>
                                             <DropdownMenuItem onSelect={() => handleRoleChange(u.uid, 'Admin')}>Admin</DropdownMenuItem>
+                                            {displayUser.role !== 'Admin' && (
+                                              <DropdownMenuItem onSelect={() => handleSeeAllChange(u.uid, !displayUser.canSeeAllVisits)}>
+                                                {displayUser.canSeeAllVisits ? 'Revoke See All access' : 'Grant See All access'}
+                                              </DropdownMenuItem>
+                                            )}
+                                            {u.uid !== user?.uid && (
+                                              displayUser.status === 'Inactive' ? (
+                                                <DropdownMenuItem onSelect={() => handleStatusChange(u.uid, 'Active')}>Reactivate account</DropdownMenuItem>
+                                              ) : (
+                                                <DropdownMenuItem className="text-destructive" onSelect={() => handleStatusChange(u.uid, 'Inactive')}>Deactivate account</DropdownMenuItem>
+                                              )
+                                            )}
                                           </DropdownMenuContent>
                                         </DropdownMenu>
                                       </div>
@@ -648,20 +780,37 @@ const UserSettings: React.FC = () => {
               </Card>
             </TabsContent>
 
+            <TabsContent value="approvals" className="space-y-6">
+              <ApprovalQueue onReviewed={() => mutate()} />
+              <SignupAllowlist />
+            </TabsContent>
+
             <TabsContent value="ccis">
               <ManageCCIs />
             </TabsContent>
 
-            <TabsContent value="assignments">
+            <TabsContent value="assignments" className="space-y-6">
               <AssignUsers />
+              <ManageTeams />
             </TabsContent>
 
-            <TabsContent value="import">
+            <TabsContent value="import" className="space-y-6">
               <ImportMeetingNotes />
+              <BackupHistory />
+              <RestoreVisitsBackup />
+            </TabsContent>
+
+            <TabsContent value="stats">
+              <RebuildInsights />
+            </TabsContent>
+
+            <TabsContent value="audit">
+              <AuditLog />
             </TabsContent>
 
             
           </Tabs>
+          <ExportVisitsDialog open={exportOpen} onClose={() => setExportOpen(false)} />
           {/* Sticky Save Bar on mobile */}
           {hasChanges && (
             <StickyActionBar className="m3-sticky-bar">
@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from 'react'
+import { getFunctions, httpsCallable } from 'firebase/functions'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { TextSelect } from '@/components/ui/text-select'
+import { SegmentedControl } from '@/components/ui/segmented-control'
+import { FilterChips } from '@/components/ui/filter-chips'
+import { UserCheck } from 'lucide-react'
+import { app, auth } from '@/firebase'
+import { useFirestoreCollection } from '@/hooks/useFirestoreCollection'
+import { usersCollection, ccisCollection } from '@/firebase/paths'
+import { notify } from '@/utils/notify'
+import { timestampToDate } from '@/types/firestore'
+import type { UserDoc, CCIDoc } from '@/types/firestore'
+
+interface ApprovalQueueProps {
+  onReviewed?: () => void
+}
+
+interface ReviewDraft {
+  role: string
+  cciIds: string[]
+  cciSearch: string
+  rejecting: boolean
+  reason: string
+}
+
+const APPROVAL_ROLES = ['EM', 'Supervisor', 'CM', 'Academy', 'Management', 'Guest', 'Admin']
+
+const emptyDraft: ReviewDraft = { role: 'EM', cciIds: [], cciSearch: '', rejecting: false, reason: '' }
+
+const ApprovalQueue: React.FC<ApprovalQueueProps> = ({ onReviewed }) => {
+  const { data: users, isLoading, mutate } = useFirestoreCollection<UserDoc>(usersCollection())
+  const { data: ccis } = useFirestoreCollection<CCIDoc>(ccisCollection())
+  const [view, setView] = useState<'pending' | 'rejected'>('pending')
+  const [drafts, setDrafts] = useState<Record<string, ReviewDraft>>({})
+  const [submittingUid, setSubmittingUid] = useState<string | null>(null)
+
+  const applicants = useMemo(() => (
+    (users || [])
+      .filter(u => u.role === 'Pending' && (view === 'rejected' ? u.reviewStatus === 'rejected' : u.reviewStatus !== 'rejected'))
+      .sort((a, b) => (timestampToDate(a.createdAt)?.getTime() || 0) - (timestampToDate(b.createdAt)?.getTime() || 0))
+  ), [users, view])
+
+  const sortedCcis = useMemo(() => (
+    [...(ccis || [])].sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+  ), [ccis])
+
+  const draftFor = (uid: string): ReviewDraft => drafts[uid] || emptyDraft
+
+  const updateDraft = (uid: string, patch: Partial<ReviewDraft>) => {
+    setDrafts(prev => ({ ...prev, [uid]: { ...(prev[uid] || emptyDraft), ...patch } }))
+  }
+
+  const review = async (applicant: UserDoc, decision: 'approve' | 'reject') => {
+    const draft = draftFor(applicant.uid)
+    if (decision === 'reject' && !draft.reason.trim()) {
+      notify.error('Give a reason for rejecting this request.')
+      return
+    }
+    setSubmittingUid(applicant.uid)
+    try {
+      try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+      const fn = httpsCallable(getFunctions(app, 'us-central1'), 'panelReviewApplicant')
+      await fn(decision === 'approve'
+        ? { uid: applicant.uid, decision, role: draft.role, cciIds: draft.cciIds }
+        : { uid: applicant.uid, decision, reason: draft.reason.trim() })
+      notify.success(decision === 'approve'
+        ? `Approved ${applicant.email} as ${draft.role}.`
+        : `Rejected ${applicant.email}.`)
+      setDrafts(prev => {
+        const next = { ...prev }
+        delete next[applicant.uid]
+        return next
+      })
+      await mutate()
+      onReviewed?.()
+    } catch (error) {
+      console.error('Review failed', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to save the review.')
+    } finally {
+      setSubmittingUid(null)
+    }
+  }
+
+  return (
+    <Card className="m3-card">
+      <CardHeader className="m3-card-header">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg sm:text-xl flex items-center gap-2">
+              <UserCheck className="h-5 w-5" />
+              Approval queue
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Approve new sign-ups with a role and their CCIs in one step, or reject them with a reason they will see.
+            </CardDescription>
+          </div>
+          <SegmentedControl
+            ariaLabel="Applicants to show"
+            size="sm"
+            options={[
+              { label: 'Pending', value: 'pending' },
+              { label: 'Rejected', value: 'rejected' },
+            ]}
+            value={view}
+            onChange={(v) => setView(v as 'pending' | 'rejected')}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="py-6 text-center text-muted-foreground">Loading…</div>
+        ) : applicants.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">
+            {view === 'pending' ? 'No one is waiting for approval.' : 'No rejected applicants.'}
+          </div>
+        ) : (
+          applicants.map(applicant => {
+            const draft = draftFor(applicant.uid)
+            const signedUpAt = timestampToDate(applicant.signupSubmittedAt || applicant.createdAt)
+            const reviewedAt = timestampToDate(applicant.reviewedAt)
+            const isSubmitting = submittingUid === applicant.uid
+            const term = draft.cciSearch.trim().toLowerCase()
+            const cciOptions = sortedCcis
+              .filter(cci => draft.cciIds.includes(cci.id) || !term || (cci.name || '').toLowerCase().includes(term))
+              .map(cci => ({ label: cci.name || cci.id, value: cci.id }))
+            return (
+              <div key={applicant.uid} className="rounded-md border p-4 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{applicant.username || applicant.email}</p>
+                    {applicant.username && <p className="text-sm text-muted-foreground">{applicant.email}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      Signed up {signedUpAt ? signedUpAt.toLocaleString('en-IN') : '—'}
+                    </p>
+                  </div>
+                  {applicant.reviewStatus === 'rejected' ? (
+                    <Badge variant="destructive">Rejected{reviewedAt ? ` ${reviewedAt.toLocaleDateString('en-IN')}` : ''}</Badge>
+                  ) : applicant.pendingAutoApproval ? (
+                    <Badge variant="info" title={`Matches ${applicant.pendingAutoApproval}; approved once the email is verified`}>
+                      Allowlisted · unverified
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">Pending</Badge>
+                  )}
+                </div>
+
+                {applicant.signupNote ? (
+                  <p className="text-sm whitespace-pre-wrap rounded bg-muted/50 p-2">{applicant.signupNote}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">No note provided.</p>
+                )}
+                {applicant.rejectionReason && (
+                  <p className="text-xs text-destructive">Reason: {applicant.rejectionReason}</p>
+                )}
+
+                {draft.rejecting ? (
+                  <div className="space-y-2">
+                    <Label htmlFor={`reject-${applicant.uid}`}>Reason shown to the applicant</Label>
+                    <Input
+                      id={`reject-${applicant.uid}`}
+                      value={draft.reason}
+                      maxLength={1000}
+                      onChange={(e) => updateDraft(applicant.uid, { reason: e.target.value })}
+                      placeholder="e.g. Not part of the programme team"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => updateDraft(applicant.uid, { rejecting: false })} disabled={isSubmitting}>
+                        Cancel
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => review(applicant, 'reject')} disabled={isSubmitting}>
+                        {isSubmitting ? 'Rejecting…' : 'Reject'}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-[12rem_1fr] gap-3 items-start">
+                      <div className="space-y-1">
+                        <Label>Role</Label>
+                        <TextSelect
+                          value={draft.role}
+                          onChange={(role) => updateDraft(applicant.uid, { role })}
+                          options={APPROVAL_ROLES.map(role => ({ label: role, value: role }))}
+                          size="sm"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>CCIs {draft.cciIds.length > 0 && <span className="text-muted-foreground">({draft.cciIds.length})</span>}</Label>
+                        <Input
+                          value={draft.cciSearch}
+                          onChange={(e) => updateDraft(applicant.uid, { cciSearch: e.target.value })}
+                          placeholder="Filter CCIs"
+                          className="h-8"
+                        />
+                        <FilterChips
+                          className="flex-wrap max-h-28 overflow-y-auto pt-1"
+                          options={cciOptions}
+                          values={draft.cciIds}
+                          onChange={(cciIds) => updateDraft(applicant.uid, { cciIds })}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      {applicant.reviewStatus !== 'rejected' && (
+                        <Button variant="outline" size="sm" onClick={() => updateDraft(applicant.uid, { rejecting: true })} disabled={isSubmitting}>
+                          Reject…
+                        </Button>
+                      )}
+                      <Button variant="primary" size="primary-default" onClick={() => review(applicant, 'approve')} disabled={isSubmitting}>
+                        {isSubmitting ? 'Approving…' : `Approve as ${draft.role}`}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ApprovalQueue
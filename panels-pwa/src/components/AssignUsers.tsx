@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useFirestoreCollection } from '../hooks/useFirestoreCollection';
 import { usersCollection, ccisCollection, cciUserLinksCollection } from '../firebase/paths';
-import { setDocument } from '../firebase/firestoreService';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { app, auth } from '@/firebase';
 import { notify } from '../utils/notify';
 import type { UserDoc, CCIDoc, CciUserLinkDoc, DocumentWithId } from '@/types/firestore';
 import { Button } from '@/components/ui/button';
@@ -15,6 +16,13 @@ import { UserPlus, Save, Search as SearchIcon, X } from 'lucide-react';
 
 // Types are now imported from @/types/firestore
 
+// Assignments are written by a function so every change is audited
+const saveAssignments = async (assignments: Record<string, string[]>) => {
+  try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+  const fn = httpsCallable(getFunctions(app, 'us-central1'), 'panelSaveCciAssignments');
+  await fn({ assignments });
+};
+
 const AssignUsers: React.FC = () => {
   const { data: users, isLoading: loadingUsers } = useFirestoreCollection<UserDoc>(usersCollection(), {
     revalidateOnFocus: false,
@@ -167,12 +175,7 @@ const AssignUsers: React.FC = () => {
     try {
       const assignedCcis = userAssignments[userId] || [];
       
-      // Save to Firestore with userId as document ID
-      await setDocument<CciUserLinkDoc>(cciUserLinksCollection(), userId, {
-        user_id: userId,
-        cci_id: assignedCcis,
-        isEM: 'yes' // Default to yes for EM assignments
-      });
+      await saveAssignments({ [userId]: assignedCcis });
       
       notify.success('User assignments saved successfully!');
       mutateLinks(); // Refresh data
@@ -190,15 +193,7 @@ const AssignUsers: React.FC = () => {
     setIsSaving(true);
     try {
       const toSave = Array.from(dirtyUsers);
-      const savePromises = toSave.map((userId) => 
-        setDocument<CciUserLinkDoc>(cciUserLinksCollection(), userId, {
-          user_id: userId,
-          cci_id: userAssignments[userId] || [],
-          isEM: 'yes'
-        })
-      );
-      
-      await Promise.all(savePromises);
+      await saveAssignments(Object.fromEntries(toSave.map(userId => [userId, userAssignments[userId] || []])));
       notify.success('All assignments saved successfully!');
       mutateLinks();
       setBaselineAssignments(userAssignments);
@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { collection, limit, onSnapshot, orderBy, query } from 'firebase/firestore'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { TextSelect } from '@/components/ui/text-select'
+import { ScrollText } from 'lucide-react'
+import { db } from '@/firebase'
+import { auditLogCollection } from '@/firebase/paths'
+import { timestampToDate } from '@/types/firestore'
+import type { AuditAction, AuditLogDoc } from '@/types/firestore'
+
+const PAGE_SIZE = 100
+
+const actionLabels: Record<AuditAction, string> = {
+  'user.create': 'User created',
+  'user.update': 'User updated',
+  'user.approve': 'Applicant approved',
+  'user.reject': 'Applicant rejected',
+  'allowlist.update': 'Allowlist entry saved',
+  'allowlist.delete': 'Allowlist entry removed',
+  'team.update': 'Team saved',
+  'team.delete': 'Team deleted',
+  'cci.delete': 'CCI deleted',
+  'assignments.update': 'Assignments changed',
+  'visit.delete': 'Visit deleted',
+  'visit_history.clear': 'History cleared',
+  'visits.restore': 'Visits restored'
+}
+
+const actionOptions = [
+  { label: 'All actions', value: 'All' },
+  ...Object.entries(actionLabels).map(([value, label]) => ({ label, value }))
+]
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return value.length ? value.map(formatValue).join(', ') : '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+const truncate = (value: string, max = 80): string => (value.length > max ? `${value.slice(0, max)}…` : value)
+
+// Field-level before → after lines; deletions list what was removed
+const describeChanges = (entry: AuditLogDoc): Array<{ field: string; before: string; after: string }> => {
+  const before = entry.before || {}
+  const after = entry.after || {}
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+  return fields
+    .filter(field => formatValue(before[field]) !== formatValue(after[field]))
+    .map(field => ({ field, before: formatValue(before[field]), after: formatValue(after[field]) }))
+}
+
+const searchText = (entry: AuditLogDoc): string => [
+  entry.action,
+  actionLabels[entry.action],
+  entry.actorEmail,
+  entry.actorUid,
+  entry.targetId,
+  entry.targetLabel,
+  JSON.stringify(entry.before),
+  JSON.stringify(entry.after),
+  JSON.stringify(entry.details)
+].filter(Boolean).join(' ').toLowerCase()
+
+const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditLogDoc[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [pageLimit, setPageLimit] = useState(PAGE_SIZE)
+  const [search, setSearch] = useState('')
+  const [action, setAction] = useState('All')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const q = query(collection(db, auditLogCollection()), orderBy('createdAt', 'desc'), limit(pageLimit))
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        setEntries(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AuditLogDoc)))
+        setIsLoading(false)
+      },
+      (error) => {
+        console.error('Failed to load audit log', error)
+        setIsLoading(false)
+      }
+    )
+    return unsubscribe
+  }, [pageLimit])
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return entries.filter(entry => (
+      (action === 'All' || entry.action === action) &&
+      (!term || searchText(entry).includes(term))
+    ))
+  }, [entries, search, action])
+
+  const hasMore = entries.length >= pageLimit
+
+  return (
+    <Card className="m3-card">
+      <CardHeader className="m3-card-header">
+        <CardTitle className="text-lg sm:text-xl flex items-center gap-2">
+          <ScrollText className="h-5 w-5" />
+          Audit log
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Role changes, user creation and approvals, team changes, CCI and visit deletions, assignment changes, restores and cleared history. Entries cannot be edited or removed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            type="search"
+            placeholder="Search by person, target or value"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="sm:max-w-sm"
+          />
+          <TextSelect
+            value={action}
+            onChange={setAction}
+            options={actionOptions}
+            size="sm"
+            className="sm:w-56"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="py-6 text-center text-muted-foreground">Loading…</div>
+        ) : filtered.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">
+            {entries.length === 0 ? 'No privileged actions recorded yet.' : 'No entries match these filters.'}
+          </div>
+        ) : (
+          <div className="max-h-[32rem] overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Change (before → after)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map(entry => {
+                  const createdAt = timestampToDate(entry.createdAt)
+                  const changes = describeChanges(entry)
+                  const isExpanded = expandedId === entry.id
+                  return (
+                    <TableRow key={entry.id} className="align-top">
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {createdAt ? createdAt.toLocaleString('en-IN') : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={entry.action.endsWith('.delete') || entry.action === 'visit_history.clear' || entry.action === 'user.reject' ? 'destructive' : 'secondary'}>
+                          {actionLabels[entry.action] || entry.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">{entry.actorEmail || entry.actorUid || 'Automatic'}</TableCell>
+                      <TableCell className="text-xs">
+                        <div>{entry.targetLabel || entry.targetId}</div>
+                        {entry.targetLabel && (
+                          <div className="font-mono text-muted-foreground">{truncate(entry.targetId, 40)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs space-y-1">
+                        {(isExpanded ? changes : changes.slice(0, 3)).map(change => (
+                          <div key={change.field}>
+                            <span className="font-medium">{change.field}:</span>{' '}
+                            <span className="line-through text-muted-foreground">{truncate(change.before)}</span>{' → '}
+                            <span>{truncate(change.after)}</span>
+                          </div>
+                        ))}
+                        {isExpanded && entry.details && (
+                          <pre className="whitespace-pre-wrap break-words rounded bg-muted p-2 font-mono">
+                            {JSON.stringify(entry.details, null, 2)}
+                          </pre>
+                        )}
+                        {(changes.length > 3 || entry.details) && (
+                          <button
+                            type="button"
+                            className="text-primary underline"
+                            onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                          >
+                            {isExpanded ? 'Show less' : 'Show details'}
+                          </button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {hasMore && (
+          <div className="flex justify-center">
+            <Button variant="outline" size="sm" onClick={() => setPageLimit(prev => prev + PAGE_SIZE)}>
+              Load older entries
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default AuditLog
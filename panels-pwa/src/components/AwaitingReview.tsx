@@ -1,18 +1,160 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { sendEmailVerification } from 'firebase/auth';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { app, db } from '../firebase';
+import { userDocument } from '../firebase/paths';
+import useAuthStore from '../store/authStore';
+import { notify } from '../utils/notify';
+import { timestampToDate } from '@/types/firestore';
+import type { UserDoc } from '@/types/firestore';
 
 const AwaitingReview: React.FC = () => {
+  const { user } = useAuthStore();
+  const navigate = useNavigate();
+  const [profile, setProfile] = useState<UserDoc | null>(null);
+  const [isContinuing, setIsContinuing] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+
+  // Follow the review live so the applicant sees the decision as soon as it is made
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = onSnapshot(
+      doc(db, userDocument(user.uid)),
+      (snapshot) => setProfile(snapshot.exists() ? (snapshot.data() as UserDoc) : null),
+      (error) => console.error('AwaitingReview: Error watching profile:', error)
+    );
+    return unsubscribe;
+  }, [user]);
+
+  const isApproved = !!profile && profile.role !== 'Pending';
+  const isRejected = !isApproved && profile?.reviewStatus === 'rejected';
+  const submittedAt = timestampToDate(profile?.signupSubmittedAt || profile?.createdAt);
+
+  const handleContinue = async () => {
+    if (!user) return;
+    setIsContinuing(true);
+    try {
+      // The role claim is set just after the profile changes; wait for it
+      const idTokenResult = await user.getIdTokenResult(true);
+      if (idTokenResult.claims.role === 'Pending') {
+        notify.info('Your access is still being set up. Try again in a moment.');
+        return;
+      }
+      navigate('/', { replace: true });
+    } catch (error) {
+      console.error('AwaitingReview: Error refreshing token:', error);
+      notify.error('Could not refresh your access. Please sign in again.');
+    } finally {
+      setIsContinuing(false);
+    }
+  };
+
+  // Allowlisted applicants are approved automatically once their email is verified
+  const handleClaim = async () => {
+    if (!user) return;
+    setIsClaiming(true);
+    try {
+      await user.reload();
+      if (!user.emailVerified) {
+        notify.info('Your email is not verified yet. Open the link in the verification email first.');
+        return;
+      }
+      await user.getIdToken(true);
+      const fn = httpsCallable(getFunctions(app, 'us-central1'), 'claimAutoApproval');
+      await fn();
+    } catch (error) {
+      console.error('AwaitingReview: Error claiming approval:', error);
+      notify.error((error as { message?: string } | undefined)?.message || 'Could not complete approval.');
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (!user) return;
+    try {
+      await sendEmailVerification(user);
+      notify.success('Verification email sent.');
+    } catch (error) {
+      console.error('AwaitingReview: Error sending verification email:', error);
+      notify.error('Could not send the email. Try again in a few minutes.');
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="hero min-h-screen bg-base-200">
+        <div className="hero-content text-center">
+          <div className="max-w-md">
+            <h1 className="text-5xl font-bold">Awaiting Review</h1>
+            <p className="py-6">Sign in to see the status of your account.</p>
+            <Link to="/login" className="btn btn-primary">Sign In</Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="hero min-h-screen bg-base-200">
       <div className="hero-content text-center">
         <div className="max-w-md">
-          <h1 className="text-5xl font-bold">Awaiting Review</h1>
-          <p className="py-6">
-            Your account is currently awaiting review by an administrator.
-            You will gain full access once your role has been approved.
-          </p>
-          <p className="text-sm text-gray-500">
-            Please check back later.
-          </p>
+          {isApproved ? (
+            <>
+              <h1 className="text-5xl font-bold">Approved</h1>
+              <p className="py-6">
+                Your account has been approved with the {profile?.role} role.
+              </p>
+              <button className="btn btn-primary" onClick={handleContinue} disabled={isContinuing}>
+                {isContinuing ? 'Loading…' : 'Continue'}
+              </button>
+            </>
+          ) : isRejected ? (
+            <>
+              <h1 className="text-5xl font-bold">Request Declined</h1>
+              <p className="py-6">
+                An administrator has declined your request for access.
+              </p>
+              {profile?.rejectionReason && (
+                <p className="pb-6 italic">“{profile.rejectionReason}”</p>
+              )}
+              <p className="text-sm text-gray-500">
+                Contact an administrator if you think this is a mistake.
+              </p>
+            </>
+          ) : profile?.pendingAutoApproval ? (
+            <>
+              <h1 className="text-5xl font-bold">Verify Your Email</h1>
+              <p className="py-6">
+                Your address is approved for access. Open the link we sent to {profile.email || user.email},
+                then continue.
+              </p>
+              <div className="flex justify-center gap-2">
+                <button className="btn btn-primary" onClick={handleClaim} disabled={isClaiming}>
+                  {isClaiming ? 'Checking…' : "I've verified my email"}
+                </button>
+                <button className="btn btn-ghost" onClick={handleResend}>Resend email</button>
+              </div>
+            </>
+          ) : (
+            <>
+              <h1 className="text-5xl font-bold">Awaiting Review</h1>
+              <p className="py-6">
+                Your account is currently awaiting review by an administrator.
+                You will gain full access once your role has been approved.
+              </p>
+              {submittedAt && (
+                <p className="text-sm text-gray-500">
+                  Requested {submittedAt.toLocaleString('en-IN')} as {profile?.email || user.email}
+                </p>
+              )}
+              <p className="text-sm text-gray-500">
+                This page updates automatically.
+              </p>
+            </>
+          )}
         </div>
       </div>
     </div>
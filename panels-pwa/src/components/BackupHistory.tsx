@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react'
+import { collection, limit, onSnapshot, orderBy, query } from 'firebase/firestore'
+import { getFunctions, httpsCallable } from 'firebase/functions'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Download, Archive, FileArchive } from 'lucide-react'
+import { app, auth, db } from '@/firebase'
+import { backupsCollection } from '@/firebase/paths'
+import { notify } from '@/utils/notify'
+import { timestampToDate } from '@/types/firestore'
+import type { BackupDoc } from '@/types/firestore'
+
+const HISTORY_LIMIT = 50
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const BackupHistory: React.FC = () => {
+  const [backups, setBackups] = useState<BackupDoc[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [downloadingId, setDownloadingId] = useState<string | null>(null)
+  const [isArchiving, setIsArchiving] = useState(false)
+
+  useEffect(() => {
+    const q = query(collection(db, backupsCollection()), orderBy('createdAt', 'desc'), limit(HISTORY_LIMIT))
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        setBackups(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as BackupDoc)))
+        setIsLoading(false)
+      },
+      (error) => {
+        console.error('Failed to load backup history', error)
+        setIsLoading(false)
+      }
+    )
+    return unsubscribe
+  }, [])
+
+  const handleDownload = async (backupId: string) => {
+    setDownloadingId(backupId)
+    try {
+      try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+      const fn = httpsCallable(getFunctions(app, 'us-central1'), 'panelGetBackupDownloadUrl')
+      const result = await fn({ backupId })
+      const payload = (result?.data || {}) as { downloadUrl?: string }
+      if (!payload.downloadUrl) {
+        throw new Error('No download URL returned.')
+      }
+      window.open(payload.downloadUrl, '_blank', 'noopener')
+    } catch (error) {
+      console.error('Failed to get backup download URL', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to download backup.')
+    } finally {
+      setDownloadingId(null)
+    }
+  }
+
+  const handleArchive = async () => {
+    setIsArchiving(true)
+    try {
+      try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+      const fn = httpsCallable(getFunctions(app, 'us-central1'), 'panelExportVisitArchive', { timeout: 540000 })
+      const result = await fn()
+      const payload = (result?.data || {}) as { downloadUrl?: string; rowCount?: number }
+      notify.success(typeof payload.rowCount === 'number'
+        ? `Archive ready (${payload.rowCount} visits).`
+        : 'Archive ready.')
+      if (payload.downloadUrl) {
+        window.open(payload.downloadUrl, '_blank', 'noopener')
+      }
+    } catch (error) {
+      console.error('Archive export failed', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to create archive. Please try again.')
+    } finally {
+      setIsArchiving(false)
+    }
+  }
+
+  const kindLabel = (backup: BackupDoc): string => {
+    if (backup.kind === 'backup') return 'Backup'
+    if (backup.kind === 'archive') return 'Archive'
+    return `Export (${backup.format})`
+  }
+
+  return (
+    <Card className="m3-card">
+      <CardHeader className="m3-card-header">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg sm:text-xl flex items-center gap-2">
+              <Archive className="h-5 w-5" />
+              Backup history
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Nightly and manual backups, weekly full archives and filtered exports. Old backups are pruned by the retention policy.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleArchive} disabled={isArchiving}>
+            <FileArchive className="h-4 w-4 mr-2" />
+            {isArchiving ? 'Archiving…' : 'Full archive'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-6 text-center text-muted-foreground">Loading…</div>
+        ) : backups.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">No backups recorded yet.</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Checksum</TableHead>
+                  <TableHead className="text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {backups.map(backup => {
+                  const createdAt = timestampToDate(backup.createdAt)
+                  const isAvailable = backup.status === 'available'
+                  return (
+                    <TableRow key={backup.id} className={isAvailable ? undefined : 'opacity-60'}>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {createdAt ? createdAt.toLocaleString('en-IN') : '—'}
+                      </TableCell>
+                      <TableCell className="space-x-1 whitespace-nowrap">
+                        <Badge variant={backup.kind === 'export' ? 'outline' : 'secondary'}>
+                          {kindLabel(backup)}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground capitalize">{backup.trigger}</span>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{backup.fileName}</TableCell>
+                      <TableCell className="text-right text-xs">{backup.rowCount}</TableCell>
+                      <TableCell className="text-right text-xs">{formatSize(backup.sizeBytes)}</TableCell>
+                      <TableCell className="text-xs">{backup.createdByEmail || (backup.trigger === 'scheduled' ? 'Scheduler' : '—')}</TableCell>
+                      <TableCell className="font-mono text-xs" title={`SHA-256 ${backup.checksumSha256}`}>
+                        {backup.checksumSha256?.slice(0, 12)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isAvailable ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDownload(backup.id)}
+                            disabled={downloadingId !== null}
+                          >
+                            <Download className="h-4 w-4 mr-1" />
+                            {downloadingId === backup.id ? 'Preparing…' : 'Download'}
+                          </Button>
+                        ) : (
+                          <Badge variant="outline">Pruned</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default BackupHistory
@@ -4,7 +4,7 @@ import useAuthStore from '../store/authStore';
 import { useUserCciLinks } from '@/hooks/useUserCciLinks';
 import { useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Home, BarChart2, Palette, Settings, LogOut, StickyNote, Eye, EyeOff } from 'lucide-react';
+import { Home, BarChart2, Palette, Settings, LogOut, StickyNote, Eye, EyeOff, ClipboardCheck, ListChecks } from 'lucide-react';
 import getInitials from '../utils/getInitials';
 import { notify } from '../utils/notify';
 import { motion } from 'motion/react';
@@ -149,6 +149,24 @@ const BottomNavBar: React.FC = () => {
               </div>
             </DropdownMenuItem>
             
+            <DropdownMenuItem asChild className="physics-interactive">
+              <Link to="/review" style={{ color: 'hsl(var(--foreground))' }}>
+                <div className="flex items-center">
+                  <ClipboardCheck className="mr-2 h-4 w-4" />
+                  Review Queue
+                </div>
+              </Link>
+            </DropdownMenuItem>
+            
+            <DropdownMenuItem asChild className="physics-interactive">
+              <Link to="/action-items" style={{ color: 'hsl(var(--foreground))' }}>
+                <div className="flex items-center">
+                  <ListChecks className="mr-2 h-4 w-4" />
+                  Action Items
+                </div>
+              </Link>
+            </DropdownMenuItem>
+            
             <DropdownMenuItem asChild className="physics-interactive">
               <Link to="/settings" style={{ color: 'hsl(var(--foreground))' }}>
                 <div className="flex items-center">
@@ -0,0 +1,389 @@
+import React, { useMemo, useRef, useState } from 'react'
+import { getFunctions, httpsCallable } from 'firebase/functions'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { SegmentedControl } from '@/components/ui/segmented-control'
+import { Download, FileUp, X } from 'lucide-react'
+import { app, auth } from '@/firebase'
+import { useFirestoreCollection } from '@/hooks/useFirestoreCollection'
+import { usersCollection, ccisCollection } from '@/firebase/paths'
+import { notify } from '@/utils/notify'
+import type { UserDoc, CCIDoc } from '@/types/firestore'
+
+type InviteCredential = 'reset_link' | 'password'
+
+interface BulkInviteUsersProps {
+  onClose: () => void
+  onInvited?: () => void
+}
+
+interface InviteRow {
+  row: number
+  email: string
+  username: string
+  role: string
+  cciIds: string[]
+  cciNames: string[]
+  errors: string[]
+}
+
+// Mirrors InviteResult in the panelBulkInviteUsers function
+interface InviteResult {
+  row: number
+  email: string
+  status: 'created' | 'skipped' | 'failed'
+  uid?: string
+  password?: string
+  resetLink?: string
+  assignedCcis?: number
+  message?: string
+}
+
+const INVITE_ROLES = ['Pending', 'EM', 'Supervisor', 'CM', 'Academy', 'Management', 'Guest', 'Admin']
+const MAX_ROWS = 200
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const credentialOptions = [
+  { label: 'Reset link', value: 'reset_link' },
+  { label: 'One-time password', value: 'password' }
+]
+
+const parseCsv = (text: string): Record<string, string>[] => {
+  // Quoted fields may contain commas and newlines
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (ch === '"') {
+      if (quoted && text[i + 1] === '"') { field += '"'; i++ } else { quoted = !quoted }
+    } else if (ch === ',' && !quoted) {
+      row.push(field); field = ''
+    } else if ((ch === '\n' || ch === '\r') && !quoted) {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(field); field = ''
+      rows.push(row); row = []
+    } else {
+      field += ch
+    }
+  }
+  row.push(field); rows.push(row)
+  const headers = (rows.shift() || []).map(h => h.trim().toLowerCase())
+  return rows
+    .map(r => r.map(v => (v ?? '').trim()))
+    .filter(r => r.some(v => v !== ''))
+    .map(r => Object.fromEntries(headers.map((h, idx) => [h, r[idx] ?? ''])))
+}
+
+const csvCell = (value: string | number | undefined) => `"${String(value ?? '').replace(/"/g, '""')}"`
+
+const downloadCsv = (fileName: string, lines: Array<Array<string | number | undefined>>) => {
+  const csv = lines.map(line => line.map(csvCell).join(',')).join('\n') + '\n'
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8;' }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+const BulkInviteUsers: React.FC<BulkInviteUsersProps> = ({ onClose, onInvited }) => {
+  const fileRef = useRef<HTMLInputElement | null>(null)
+  const { data: users } = useFirestoreCollection<UserDoc>(usersCollection())
+  const { data: ccis } = useFirestoreCollection<CCIDoc>(ccisCollection())
+  const [rawRows, setRawRows] = useState<Record<string, string>[]>([])
+  const [fileName, setFileName] = useState('')
+  const [credential, setCredential] = useState<InviteCredential>('reset_link')
+  const [assignCcis, setAssignCcis] = useState(true)
+  const [isInviting, setIsInviting] = useState(false)
+  const [results, setResults] = useState<InviteResult[] | null>(null)
+
+  // CCIs may be listed by name or ID, separated by semicolons or pipes
+  const cciLookup = useMemo(() => {
+    const map = new Map<string, CCIDoc>()
+    for (const cci of ccis || []) {
+      map.set(cci.id.toLowerCase(), cci)
+      if (cci.name) map.set(cci.name.trim().toLowerCase(), cci)
+    }
+    return map
+  }, [ccis])
+
+  const rows = useMemo<InviteRow[]>(() => {
+    const existingEmails = new Set((users || []).map(u => (u.email || '').toLowerCase()))
+    const seen = new Set<string>()
+    return rawRows.map((raw, index) => {
+      const email = (raw.email || '').toLowerCase()
+      const role = raw.role || 'Pending'
+      const cciTokens = (raw.ccis || raw.cci || '').split(/[;|]/).map(t => t.trim()).filter(Boolean)
+      const matched = cciTokens.map(token => cciLookup.get(token.toLowerCase()))
+      const errors: string[] = []
+      if (!EMAIL_PATTERN.test(email)) errors.push('Invalid email')
+      else if (seen.has(email)) errors.push('Duplicate email')
+      else if (existingEmails.has(email)) errors.push('Already a user')
+      if (!INVITE_ROLES.includes(role)) errors.push(`Unknown role "${role}"`)
+      const unknown = cciTokens.filter((_, i) => !matched[i])
+      if (unknown.length) errors.push(`Unknown CCI ${unknown.join(', ')}`)
+      seen.add(email)
+      const found = matched.filter((cci): cci is CCIDoc => !!cci)
+      return {
+        row: index + 1,
+        email,
+        username: raw.username || raw.name || '',
+        role,
+        cciIds: Array.from(new Set(found.map(cci => cci.id))),
+        cciNames: found.map(cci => cci.name || cci.id),
+        errors
+      }
+    })
+  }, [rawRows, users, cciLookup])
+
+  const validRows = rows.filter(r => r.errors.length === 0)
+
+  const onFile = async (file: File | null) => {
+    if (!file) return
+    try {
+      const parsed = parseCsv(await file.text())
+      if (!parsed.length) {
+        notify.error('CSV has no rows')
+        return
+      }
+      if (!('email' in parsed[0])) {
+        notify.error('CSV needs an "email" column')
+        return
+      }
+      if (parsed.length > MAX_ROWS) {
+        notify.error(`Invite at most ${MAX_ROWS} users at a time`)
+        return
+      }
+      setRawRows(parsed)
+      setFileName(file.name)
+      setResults(null)
+    } catch {
+      notify.error('Failed to parse CSV')
+    } finally {
+      if (fileRef.current) fileRef.current.value = ''
+    }
+  }
+
+  const downloadTemplate = () => {
+    downloadCsv('user_invite_template.csv', [
+      ['email', 'username', 'role', 'ccis'],
+      ['new.em@example.org', 'New EM', 'EM', 'Sample Home; Another Home']
+    ])
+  }
+
+  const handleInvite = async () => {
+    if (validRows.length === 0) return
+    const skipped = rows.length - validRows.length
+    if (!window.confirm(`Create ${validRows.length} account${validRows.length !== 1 ? 's' : ''}${skipped ? ` and skip ${skipped} invalid row${skipped !== 1 ? 's' : ''}` : ''}?`)) return
+
+    setIsInviting(true)
+    try {
+      try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+      const fn = httpsCallable(getFunctions(app, 'us-central1'), 'panelBulkInviteUsers', { timeout: 540000 })
+      const response = await fn({
+        credential,
+        assignCcis,
+        rows: validRows.map(r => ({ email: r.email, username: r.username, role: r.role, cciIds: r.cciIds }))
+      })
+      const payload = (response?.data || {}) as { results?: InviteResult[] }
+      // Report against the CSV's row numbers, including rows skipped here
+      const byEmail = new Map((payload.results || []).map(result => [result.email, result]))
+      const report = rows.map<InviteResult>(r => {
+        if (r.errors.length) return { row: r.row, email: r.email, status: 'skipped', message: r.errors.join('; ') }
+        const result = byEmail.get(r.email)
+        return result ? { ...result, row: r.row } : { row: r.row, email: r.email, status: 'failed', message: 'No result returned.' }
+      })
+      setResults(report)
+      const created = report.filter(r => r.status === 'created').length
+      notify.success(`Invited ${created} user${created !== 1 ? 's' : ''}.`)
+      if (created > 0) onInvited?.()
+    } catch (error) {
+      console.error('Bulk invite failed', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to invite users. Please try again.')
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const downloadReport = () => {
+    if (!results) return
+    downloadCsv('user_invite_report.csv', [
+      ['row', 'email', 'result', 'password', 'reset_link', 'ccis_assigned', 'message'],
+      ...results.map(r => [r.row, r.email, r.status, r.password, r.resetLink, r.assignedCcis, r.message])
+    ])
+  }
+
+  const copy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value)
+      notify.success('Copied')
+    } catch {
+      notify.error('Copy failed')
+    }
+  }
+
+  const resultBadge = (status: InviteResult['status']) => (
+    <Badge variant={status === 'created' ? 'success' : status === 'failed' ? 'destructive' : 'outline'} className="capitalize">
+      {status}
+    </Badge>
+  )
+
+  return (
+    <Card className="m-4 border shadow-sm">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Bulk invite
+          </CardTitle>
+          <CardDescription className="text-sm">
+            Upload a CSV with email, username, role and an optional ccis column (names or IDs separated by semicolons).
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0" aria-label="Close">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <input ref={fileRef} type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => onFile(e.target.files?.[0] || null)} />
+          <Button variant="outline" size="sm" onClick={() => fileRef.current?.click()} disabled={isInviting}>
+            <FileUp className="h-4 w-4 mr-2" />
+            {fileName ? 'Choose another file' : 'Choose CSV'}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={downloadTemplate}>
+            <Download className="h-4 w-4 mr-2" />
+            Template
+          </Button>
+          {fileName && <span className="text-xs text-muted-foreground">{fileName} · {rows.length} rows</span>}
+        </div>
+
+        {rows.length > 0 && !results && (
+          <>
+            <div className="flex flex-wrap items-center gap-4">
+              <SegmentedControl
+                ariaLabel="Sign-in credential"
+                size="sm"
+                options={credentialOptions}
+                value={credential}
+                onChange={(v) => setCredential(v as InviteCredential)}
+              />
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary"
+                  checked={assignCcis}
+                  onChange={(e) => setAssignCcis(e.target.checked)}
+                />
+                Assign listed CCIs
+              </label>
+            </div>
+            <div className="max-h-80 overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>CCIs</TableHead>
+                    <TableHead>Check</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(r => (
+                    <TableRow key={r.row} className={r.errors.length ? 'opacity-60' : undefined}>
+                      <TableCell className="text-xs">{r.row}</TableCell>
+                      <TableCell className="text-xs">{r.email || '—'}</TableCell>
+                      <TableCell className="text-xs">{r.username || '—'}</TableCell>
+                      <TableCell className="text-xs">{r.role}</TableCell>
+                      <TableCell className="text-xs">{r.cciNames.join(', ') || '—'}</TableCell>
+                      <TableCell className="text-xs">
+                        {r.errors.length ? (
+                          <span className="text-destructive">{r.errors.join('; ')}</span>
+                        ) : (
+                          <Badge variant="success">Ready</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => { setRawRows([]); setFileName('') }} disabled={isInviting}>Clear</Button>
+              <Button variant="primary" size="primary-default" onClick={handleInvite} disabled={isInviting || validRows.length === 0}>
+                {isInviting ? 'Inviting…' : `Invite ${validRows.length} user${validRows.length !== 1 ? 's' : ''}`}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {results && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm text-muted-foreground">
+                {results.filter(r => r.status === 'created').length} created · {results.filter(r => r.status === 'skipped').length} skipped · {results.filter(r => r.status === 'failed').length} failed
+              </div>
+              <Button variant="outline" size="sm" onClick={downloadReport}>
+                <Download className="h-4 w-4 mr-2" />
+                Download report
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Passwords and reset links are shown only now. Download the report before closing if you need to send them out.
+            </p>
+            <div className="max-h-80 overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Sign-in</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(r => (
+                    <TableRow key={r.row}>
+                      <TableCell className="text-xs">{r.row}</TableCell>
+                      <TableCell className="text-xs">{r.email || '—'}</TableCell>
+                      <TableCell>{resultBadge(r.status)}</TableCell>
+                      <TableCell className="text-xs">
+                        {r.password && (
+                          <Button variant="ghost" size="sm" className="font-mono" onClick={() => copy(r.password as string)}>
+                            {r.password}
+                          </Button>
+                        )}
+                        {r.resetLink && (
+                          <Button variant="ghost" size="sm" onClick={() => copy(r.resetLink as string)}>
+                            Copy reset link
+                          </Button>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {[r.assignedCcis ? `${r.assignedCcis} CCI${r.assignedCcis !== 1 ? 's' : ''} assigned` : '', r.message || '']
+                          .filter(Boolean).join(' · ') || '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => { setRawRows([]); setFileName(''); setResults(null) }}>Invite more</Button>
+              <Button variant="primary" size="primary-default" onClick={onClose}>Done</Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default BulkInviteUsers
@@ -6,37 +6,29 @@ import FloatingCreateButton from '@/components/FloatingCreateButton'
 import MobileCreateSheet from '@/components/MobileCreateSheet'
 import useIsMobile from '@/hooks/useIsMobile'
 import TimelineCard from '@/components/TimelineCard'
+import TeamFilter from '@/components/TeamFilter'
 import { useTitleBarSlots } from '@/store/titleBarSlots'
 import { useSharedVisitsForDate } from '@/hooks/useSharedVisitsListener'
 import { useUsersForVisits } from '@/hooks/useUsersForVisits'
+import { useCommentReadMarkers } from '@/hooks/useVisitComments'
+import { useTeamFilter } from '@/hooks/useTeams'
 import { useFirestoreCollection } from '@/hooks/useFirestoreCollection'
 import { timestampToDate } from '@/types/firestore'
 import type { VisitDoc, UserDoc, CCIDoc, DocumentWithId } from '@/types/firestore'
 import { SingleDatePicker } from '@/components/ui'
 import { PillSelector } from '@/components/ui/pill-selector'
 import type { PillOption } from '@/components/ui/pill-selector'
+import { addDays, getStartOfWeek } from '@/utils/fiscalCalendar'
+import { FISCAL_CALENDAR } from '@/utils/fiscalCalendarConfig'
 
 // Debug flag for development logging (set to false in production)
 const DEBUG_DAY_VIEW = false; // Disabled
 
-// Helper function to get the start of the week (Monday)
-const getStartOfWeek = (date: Date): Date => {
-  const startOfWeek = new Date(date)
-  const day = startOfWeek.getDay()
-  const diff = startOfWeek.getDate() - day + (day === 0 ? -6 : 1) // Adjust when day is Sunday
-  startOfWeek.setDate(diff)
-  startOfWeek.setHours(0, 0, 0, 0)
-  return startOfWeek
-}
-
-
 // Helper function to get all days in a week
 const getWeekDays = (startDate: Date): Date[] => {
   const days: Date[] = []
   for (let i = 0; i < 7; i++) {
-    const day = new Date(startDate)
-    day.setDate(startDate.getDate() + i)
-    days.push(day)
+    days.push(addDays(startDate, i))
   }
   return days
 }
@@ -47,6 +39,8 @@ const DayView: React.FC = () => {
   const { setSlots, clearSlots } = useTitleBarSlots()
   const [selectedDate, setSelectedDate] = useState(new Date())
   const [openCardId, setOpenCardId] = useState<string | null>(null)
+  // One listener for the whole day list; collapsed cards compare against it
+  const feedbackReadMarkers = useCommentReadMarkers()
   const [sheetOpen, setSheetOpen] = useState(false)
   const [sheetTitle, setSheetTitle] = useState<string>('Create')
   const isMobile = useIsMobile()
@@ -58,7 +52,7 @@ const DayView: React.FC = () => {
   const dateScrollerTouchStartY = useRef<number | null>(null)
   
   // Get current week for the date strip
-  const currentWeekStart = useMemo(() => getStartOfWeek(selectedDate), [selectedDate])
+  const currentWeekStart = useMemo(() => getStartOfWeek(selectedDate, FISCAL_CALENDAR), [selectedDate])
   const weekDays = useMemo(() => getWeekDays(currentWeekStart), [currentWeekStart])
   
   // Load visits for the selected date only
@@ -67,15 +61,17 @@ const DayView: React.FC = () => {
   // Fetch users and CCIs for the timeline
   const { data: allUsers } = useUsersForVisits()
   const { data: allCcis } = useFirestoreCollection<CCIDoc>('ccis')
+  const { teams, teamFilter, setTeamFilter, teamUids } = useTeamFilter()
   
-  // Sort visits for the selected date by creation time
+  // Sort visits for the selected date by creation time, narrowed to the selected team
   const sortedVisits = useMemo(() => {
-    return [...visits].sort((a, b) => {
+    const teamVisits = teamUids ? visits.filter(visit => teamUids.has(visit.filledByUid)) : visits
+    return [...teamVisits].sort((a, b) => {
       const timeA = timestampToDate(a.createdAt) || new Date()
       const timeB = timestampToDate(b.createdAt) || new Date()
       return timeB.getTime() - timeA.getTime()
     })
-  }, [visits])
+  }, [visits, teamUids])
   
 
   // Helper function to get Monday of the week
@@ -185,9 +181,13 @@ const DayView: React.FC = () => {
       />
     )
     
-    setSlots({ customLeft: null, customCenter: center, customRight: right })
+    const left = teams.length > 0
+      ? <TeamFilter teams={teams} value={teamFilter} onChange={setTeamFilter} className="w-full min-w-0 max-w-[140px]" />
+      : null
+    
+    setSlots({ customLeft: left, customCenter: center, customRight: right })
     return () => clearSlots()
-  }, [selectedDate, setSlots, clearSlots])
+  }, [selectedDate, teams, teamFilter, setTeamFilter, setSlots, clearSlots])
   
   if (DEBUG_DAY_VIEW) {
     console.log('DayView - visits count:', visits.length)
@@ -388,6 +388,7 @@ const DayView: React.FC = () => {
                     ccis={(allCcis as DocumentWithId<CCIDoc>[]) || []}
                     expanded={openCardId === visit.id}
                     onToggle={() => handleToggle(visit.id)}
+                    feedbackReadMarkers={feedbackReadMarkers}
                     onDragStart={noopDragStart}
                     onDragOver={noopDragOver}
                     onDragLeave={noopDragLeave}
@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react'
+import { getFunctions, httpsCallable } from 'firebase/functions'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { SegmentedControl } from '@/components/ui/segmented-control'
+import { FilterChips } from '@/components/ui/filter-chips'
+import { Download, X } from 'lucide-react'
+import { app, auth } from '@/firebase'
+import { useFirestoreCollection } from '@/hooks/useFirestoreCollection'
+import { usersCollection, ccisCollection } from '@/firebase/paths'
+import { notify } from '@/utils/notify'
+import type { UserDoc, CCIDoc } from '@/types/firestore'
+
+type ExportFormat = 'csv' | 'xlsx' | 'ndjson'
+
+interface ExportVisitsDialogProps {
+  open: boolean
+  onClose: () => void
+}
+
+interface ExportResult {
+  downloadUrl?: string
+  fileName?: string
+  rowCount?: number
+  expiresAt?: string
+}
+
+const formatOptions = [
+  { label: 'CSV', value: 'csv' },
+  { label: 'Excel', value: 'xlsx' },
+  { label: 'NDJSON', value: 'ndjson' }
+]
+
+const statusOptions = ['Complete', 'Incomplete', 'Pending', 'Scheduled', 'Cancelled']
+
+// Keys match VISIT_EXPORT_COLUMNS in the panelExportVisits function
+const columnOptions: Array<{ key: string; label: string; defaultOn: boolean }> = [
+  { key: 'id', label: 'Visit ID', defaultOn: true },
+  { key: 'date', label: 'Date', defaultOn: true },
+  { key: 'status', label: 'Status', defaultOn: true },
+  { key: 'cci_id', label: 'CCI ID', defaultOn: true },
+  { key: 'cci_name', label: 'CCI name', defaultOn: true },
+  { key: 'cohort', label: 'Cohort', defaultOn: false },
+  { key: 'filledByUid', label: 'EM ID', defaultOn: true },
+  { key: 'filledBy', label: 'EM', defaultOn: true },
+  { key: 'personMet', label: 'Person met', defaultOn: true },
+  { key: 'quality', label: 'Quality', defaultOn: true },
+  { key: 'visitHours', label: 'Visit hours', defaultOn: true },
+  { key: 'agenda', label: 'Agenda', defaultOn: true },
+  { key: 'debrief', label: 'Debrief', defaultOn: true },
+  { key: 'notes', label: 'Notes', defaultOn: false },
+  { key: 'createdAt', label: 'Created at', defaultOn: false },
+  { key: 'updatedAt', label: 'Updated at', defaultOn: false }
+]
+
+const ExportVisitsDialog: React.FC<ExportVisitsDialogProps> = ({ open, onClose }) => {
+  const { data: users } = useFirestoreCollection<UserDoc>(usersCollection())
+  const { data: ccis } = useFirestoreCollection<CCIDoc>(ccisCollection())
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [cciIds, setCciIds] = useState<string[]>([])
+  const [cohorts, setCohorts] = useState<string[]>([])
+  const [emUids, setEmUids] = useState<string[]>([])
+  const [statuses, setStatuses] = useState<string[]>([])
+  const [columns, setColumns] = useState<string[]>(() => columnOptions.filter(c => c.defaultOn).map(c => c.key))
+  const [isExporting, setIsExporting] = useState(false)
+  const [result, setResult] = useState<ExportResult | null>(null)
+
+  const cciChipOptions = useMemo(() => (
+    [...(ccis || [])]
+      .sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+      .map(cci => ({ label: cci.name || cci.id, value: cci.id }))
+  ), [ccis])
+
+  const cohortChipOptions = useMemo(() => (
+    Array.from(new Set((ccis || []).map(cci => cci.cohort).filter((c): c is string => !!c)))
+      .sort()
+      .map(cohort => ({ label: cohort, value: cohort }))
+  ), [ccis])
+
+  const emChipOptions = useMemo(() => (
+    (users || [])
+      .filter(u => u.role === 'EM' || u.role === 'Admin')
+      .map(u => ({ label: u.username || u.email, value: u.uid }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+  ), [users])
+
+  if (!open) {
+    return null
+  }
+
+  const toggleColumn = (key: string) => {
+    setColumns(prev => prev.includes(key) ? prev.filter(c => c !== key) : [...prev, key])
+  }
+
+  const handleExport = async () => {
+    if (columns.length === 0) {
+      notify.error('Select at least one column.')
+      return
+    }
+    if (from && to && from > to) {
+      notify.error('Choose a start date on or before the end date.')
+      return
+    }
+    setIsExporting(true)
+    setResult(null)
+    try {
+      try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+      const fn = httpsCallable(getFunctions(app, 'us-central1'), 'panelExportVisits', { timeout: 300000 })
+      // Keep the column order as listed rather than the order they were ticked
+      const orderedColumns = columnOptions.map(c => c.key).filter(key => columns.includes(key))
+      const response = await fn({
+        format,
+        columns: orderedColumns,
+        filters: { from: from || null, to: to || null, cciIds, cohorts, emUids, statuses }
+      })
+      const payload = (response?.data || {}) as ExportResult
+      setResult(payload)
+      notify.success(typeof payload.rowCount === 'number'
+        ? `Export ready (${payload.rowCount} rows).`
+        : 'Export ready.')
+    } catch (error) {
+      console.error('Export failed', error)
+      const message = (error as { message?: string } | undefined)?.message || 'Failed to export visits. Please try again.'
+      notify.error(message)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-2xl max-h-[85vh] overflow-hidden bg-background border shadow-lg flex flex-col">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-4">
+          <div>
+            <CardTitle className="text-xl font-semibold">Export visits</CardTitle>
+            <CardDescription className="text-sm">Filters are combined; leave a filter empty to include everything.</CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0" aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-5 overflow-y-auto">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <SegmentedControl
+              ariaLabel="Export format"
+              size="sm"
+              options={formatOptions}
+              value={format}
+              onChange={(v) => setFormat(v as ExportFormat)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="export-from">From</Label>
+              <Input id="export-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="export-to">To</Label>
+              <Input id="export-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <FilterChips
+              className="flex-wrap"
+              options={[{ label: 'All', value: 'All' }, ...statusOptions.map(s => ({ label: s, value: s }))]}
+              values={statuses}
+              onChange={setStatuses}
+            />
+          </div>
+
+          {cohortChipOptions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Cohort</Label>
+              <FilterChips
+                className="flex-wrap"
+                options={[{ label: 'All', value: 'All' }, ...cohortChipOptions]}
+                values={cohorts}
+                onChange={setCohorts}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>CCIs</Label>
+            <FilterChips
+              className="flex-wrap max-h-32 overflow-y-auto"
+              options={[{ label: 'All', value: 'All' }, ...cciChipOptions]}
+              values={cciIds}
+              onChange={setCciIds}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>EMs</Label>
+            <FilterChips
+              className="flex-wrap max-h-32 overflow-y-auto"
+              options={[{ label: 'All', value: 'All' }, ...emChipOptions]}
+              values={emUids}
+              onChange={setEmUids}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {columnOptions.map(column => (
+                <label key={column.key} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-primary"
+                    checked={columns.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {result?.downloadUrl && (
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <div>
+                <a href={result.downloadUrl} className="font-medium text-primary underline" target="_blank" rel="noreferrer">
+                  Download {result.fileName || 'export'}
+                </a>
+                {typeof result.rowCount === 'number' && (
+                  <span className="text-muted-foreground"> · {result.rowCount} rows</span>
+                )}
+              </div>
+              {result.expiresAt && (
+                <div className="text-xs text-muted-foreground">
+                  Link expires {new Date(result.expiresAt).toLocaleString('en-IN')}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={onClose}>Close</Button>
+            <Button variant="primary" size="primary-default" onClick={handleExport} disabled={isExporting}>
+              <Download className="h-4 w-4 mr-2" />
+              {isExporting ? 'Exporting…' : 'Export'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default ExportVisitsDialog
@@ -6,7 +6,7 @@ import { Trash2 } from 'lucide-react'
 import { useFirestoreCollection } from '@/hooks/useFirestoreCollection'
 import { useAllVisits } from '@/hooks/useVisitQueries'
 import { usersCollection, ccisCollection, visitsCollection } from '@/firebase/paths'
-import { addDocument, deleteDocument } from '@/firebase/firestoreService'
+import { addDocument } from '@/firebase/firestoreService'
 import { notify } from '@/utils/notify'
 import type { UserDoc, CCIDoc } from '@/types/firestore'
 import { getFunctions, httpsCallable } from 'firebase/functions'
@@ -46,7 +46,9 @@ const ImportMeetingNotes: React.FC = () => {
   const handleDeleteVisit = async (visitId: string) => {
     if (window.confirm('Are you sure you want to delete this visit? This action cannot be undone.')) {
       try {
-        await deleteDocument(visitsCollection(), visitId)
+        try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+        const fn = httpsCallable(getFunctions(app, 'us-central1'), 'panelDeleteVisit')
+        await fn({ visitId })
         notify.success('Visit deleted successfully!')
       } catch (error) {
         console.error('Error deleting visit:', error)
@@ -0,0 +1,51 @@
+import React from 'react'
+import { cn } from '@/lib/utils'
+
+interface InsightFreshnessBadgeProps {
+  lastUpdated?: Date | null
+  lastUpdatedDisplay?: string | null
+  className?: string
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+const formatAge = (ageMs: number): string => {
+  const minutes = Math.floor(ageMs / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes} min ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours} h ago`
+  const days = Math.floor(hours / 24)
+  return `${days} day${days !== 1 ? 's' : ''} ago`
+}
+
+/**
+ * Shows how recently an insight document was recomputed.
+ * Green within the hour, amber within a day, muted after that.
+ */
+export const InsightFreshnessBadge: React.FC<InsightFreshnessBadgeProps> = ({ lastUpdated, lastUpdatedDisplay, className }) => {
+  if (!lastUpdated && !lastUpdatedDisplay) {
+    return null
+  }
+
+  const ageMs = lastUpdated ? Math.max(0, Date.now() - lastUpdated.getTime()) : null
+  const tone = ageMs === null
+    ? 'bg-muted text-muted-foreground'
+    : ageMs < HOUR_MS
+      ? 'bg-green-100 text-green-800'
+      : ageMs < 24 * HOUR_MS
+        ? 'bg-amber-100 text-amber-800'
+        : 'bg-muted text-muted-foreground'
+
+  return (
+    <span
+      className={cn('inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full whitespace-nowrap', tone, className)}
+      title={lastUpdatedDisplay ? `Last updated: ${lastUpdatedDisplay} IST` : undefined}
+    >
+      <span className="h-1.5 w-1.5 rounded-full bg-current" />
+      Updated {ageMs !== null ? formatAge(ageMs) : lastUpdatedDisplay}
+    </span>
+  )
+}
+
+export default InsightFreshnessBadge
@@ -21,6 +21,10 @@ const Login: React.FC = () => {
       notify.success('Logged in successfully!');
       navigate('/');
     } catch (err) {
+      if ((err as { code?: string } | undefined)?.code === 'auth/user-disabled') {
+        navigate('/account-deactivated');
+        return;
+      }
       if (err instanceof Error) {
         notify.error(err.message);
       } else {
@@ -1,7 +1,7 @@
 import React, { useRef, useState } from 'react';
 import { useFirestoreCollection } from '../hooks/useFirestoreCollection';
 import { ccisCollection } from '../firebase/paths';
-import { addDocument, updateDocument, deleteDocument } from '../firebase/firestoreService';
+import { addDocument, updateDocument } from '../firebase/firestoreService';
 import { notify } from '../utils/notify';
 import type { CCIDoc } from '@/types/firestore';
 import { Button } from '@/components/ui/button';
@@ -14,6 +14,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Skeleton } from '@/components/ui/skeleton';
 import { MagneticButton } from '@/lib/motion-physics';
 import { Building2, Plus, MapPin, Phone, Trash2, ExternalLink } from 'lucide-react';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { app, auth } from '@/firebase';
 
 // Types are now imported from @/types/firestore
 
@@ -34,6 +36,12 @@ const cohortOptions = [
   { label: 'Archived', value: 'Archived' }
 ];
 
+// Who may edit visits at a CCI besides their creator
+const editPolicyOptions = [
+  { label: 'Creator only', value: 'creator' },
+  { label: 'Assigned EMs', value: 'assigned' }
+];
+
 const ManageCCIs: React.FC = () => {
   const { data: ccis, isLoading, error, mutate } = useFirestoreCollection<CCIDoc>(ccisCollection());
   const [newCci, setNewCci] = useState<Omit<CCIDoc, 'id'>>({ name: '', city: '', cohort: 'Test', status: 'Active' });
@@ -75,10 +83,25 @@ const ManageCCIs: React.FC = () => {
     }
   };
 
+  const handleUpdateEditPolicy = async (id: string, policy: string) => {
+    try {
+      await updateDocument(ccisCollection(), id, { assignedEmsCanEdit: policy === 'assigned' });
+      notify.success(policy === 'assigned'
+        ? 'Assigned EMs can now edit all visits at this CCI.'
+        : 'Only the creator can now edit visits at this CCI.');
+      mutate();
+    } catch (error) {
+      console.error('Failed to update editing policy', error);
+      notify.error('Failed to update editing policy.');
+    }
+  };
+
   const handleDeleteCci = async (id: string) => {
     if (window.confirm('Are you sure you want to delete this CCI?')) {
       try {
-        await deleteDocument(ccisCollection(), id);
+        try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+        const fn = httpsCallable(getFunctions(app, 'us-central1'), 'panelDeleteCci');
+        await fn({ cciId: id });
         notify.success('CCI deleted successfully!');
         mutate();
       } catch (error) {
@@ -369,6 +392,7 @@ const ManageCCIs: React.FC = () => {
                       <TableHead className="font-semibold">Institution</TableHead>
                       <TableHead className="font-semibold">Contact</TableHead>
                       <TableHead className="font-semibold">Cohort</TableHead>
+                      <TableHead className="font-semibold">Visit editing</TableHead>
                       <TableHead className="font-semibold">Location</TableHead>
                       <TableHead className="font-semibold">Actions</TableHead>
                     </TableRow>
@@ -404,6 +428,15 @@ const ManageCCIs: React.FC = () => {
                             className="w-32"
                           />
                         </TableCell>
+                        <TableCell>
+                          <TextSelect
+                            value={cci.assignedEmsCanEdit ? 'assigned' : 'creator'}
+                            onChange={(value) => handleUpdateEditPolicy(cci.id!, value)}
+                            options={editPolicyOptions}
+                            size="sm"
+                            className="w-36"
+                          />
+                        </TableCell>
                         <TableCell>
                           {cci.mapLocation ? (
                             <Button 
@@ -469,6 +502,14 @@ const ManageCCIs: React.FC = () => {
                           className="flex-1 min-w-0"
                         />
                         
+                        <TextSelect
+                          value={cci.assignedEmsCanEdit ? 'assigned' : 'creator'}
+                          onChange={(value) => handleUpdateEditPolicy(cci.id!, value)}
+                          options={editPolicyOptions}
+                          size="sm"
+                          className="flex-1 min-w-0"
+                        />
+                        
                         {cci.mapLocation && (
                           <Button 
                             variant="outline" 
@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react'
+import { getFunctions, httpsCallable } from 'firebase/functions'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { TextSelect } from '@/components/ui/text-select'
+import { FilterChips } from '@/components/ui/filter-chips'
+import { Network, Trash2 } from 'lucide-react'
+import { app, auth } from '@/firebase'
+import { useFirestoreCollection } from '@/hooks/useFirestoreCollection'
+import { useTeams } from '@/hooks/useTeams'
+import { usersCollection } from '@/firebase/paths'
+import { notify } from '@/utils/notify'
+import type { TeamDoc, UserDoc } from '@/types/firestore'
+
+const callFunction = async <T,>(name: string, data: unknown): Promise<T> => {
+  try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+  const fn = httpsCallable(getFunctions(app, 'us-central1'), name)
+  const result = await fn(data)
+  return result.data as T
+}
+
+const ManageTeams: React.FC = () => {
+  const { data: users } = useFirestoreCollection<UserDoc>(usersCollection())
+  const { teams, isLoading } = useTeams()
+  const [name, setName] = useState('')
+  const [supervisorUid, setSupervisorUid] = useState('')
+  const [memberUids, setMemberUids] = useState<string[]>([])
+  const [memberSearch, setMemberSearch] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const userLabels = useMemo(() => new Map((users || []).map(u => [u.uid, u.username || u.email || u.uid])), [users])
+
+  const supervisorOptions = useMemo(() => (
+    (users || [])
+      .filter(u => u.role === 'Supervisor' && u.status !== 'Inactive')
+      .map(u => ({ label: userLabels.get(u.uid) || u.uid, value: u.uid }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+  ), [users, userLabels])
+
+  const memberOptions = useMemo(() => {
+    const term = memberSearch.trim().toLowerCase()
+    return (users || [])
+      .filter(u => u.uid !== supervisorUid && u.role !== 'Pending' && u.status !== 'Inactive')
+      .filter(u => memberUids.includes(u.uid) || !term || (userLabels.get(u.uid) || '').toLowerCase().includes(term))
+      .map(u => ({ label: userLabels.get(u.uid) || u.uid, value: u.uid }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+  }, [users, userLabels, supervisorUid, memberUids, memberSearch])
+
+  const resetForm = () => {
+    setName('')
+    setSupervisorUid('')
+    setMemberUids([])
+    setMemberSearch('')
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || !supervisorUid) return
+    setIsSaving(true)
+    try {
+      await callFunction<{ id: string }>('panelSaveTeam', { name, supervisorUid, memberUids })
+      notify.success(`Saved ${name.trim()}`)
+      resetForm()
+    } catch (error) {
+      console.error('Failed to save team', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to save team.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleEdit = (team: TeamDoc) => {
+    setName(team.name)
+    setSupervisorUid(team.supervisorUid)
+    setMemberUids(team.memberUids || [])
+  }
+
+  const handleDelete = async (team: TeamDoc) => {
+    if (!window.confirm(`Delete ${team.name}? Its supervisor will no longer see the team's visits.`)) return
+    setDeletingId(team.id)
+    try {
+      await callFunction('panelDeleteTeam', { id: team.id })
+      notify.success(`Deleted ${team.name}`)
+    } catch (error) {
+      console.error('Failed to delete team', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to delete team.')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <Card className="m3-card">
+      <CardHeader className="m3-card-header">
+        <CardTitle className="text-lg sm:text-xl flex items-center gap-2">
+          <Network className="h-5 w-5" />
+          Teams
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Each supervisor leads one team. Supervisors see their team's visits and stats, can leave feedback and approve debriefs, but cannot manage users or CCIs.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form className="space-y-3 rounded-md border p-3" onSubmit={handleSave}>
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_14rem] gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="team-name">Team name</Label>
+              <Input
+                id="team-name"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. North cluster"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Supervisor</Label>
+              <TextSelect
+                value={supervisorUid}
+                onChange={setSupervisorUid}
+                options={supervisorOptions}
+                placeholder={supervisorOptions.length ? 'Choose supervisor' : 'No Supervisor users'}
+                disabled={supervisorOptions.length === 0}
+                size="sm"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Members {memberUids.length > 0 && <span className="text-muted-foreground">({memberUids.length})</span>}</Label>
+            <Input
+              value={memberSearch}
+              onChange={(e) => setMemberSearch(e.target.value)}
+              placeholder="Filter people"
+              className="h-8"
+            />
+            <FilterChips
+              className="flex-wrap max-h-28 overflow-y-auto pt-1"
+              options={memberOptions}
+              values={memberUids}
+              onChange={setMemberUids}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={resetForm} disabled={isSaving}>Clear</Button>
+            <Button type="submit" variant="primary" size="primary-default" disabled={isSaving || !name.trim() || !supervisorUid}>
+              {isSaving ? 'Saving…' : 'Save team'}
+            </Button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="py-6 text-center text-muted-foreground">Loading…</div>
+        ) : teams.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">No teams yet.</div>
+        ) : (
+          <div className="max-h-80 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Team</TableHead>
+                  <TableHead>Supervisor</TableHead>
+                  <TableHead>Members</TableHead>
+                  <TableHead className="text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {teams.map(team => (
+                  <TableRow key={team.id}>
+                    <TableCell className="text-sm font-medium">{team.name}</TableCell>
+                    <TableCell className="text-sm">{userLabels.get(team.supervisorUid) || team.supervisorUid}</TableCell>
+                    <TableCell className="text-xs">
+                      {(team.memberUids || []).map(uid => userLabels.get(uid) || uid).join(', ') || '—'}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(team)}>Edit</Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(team)}
+                        disabled={deletingId !== null}
+                        aria-label={`Delete ${team.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ManageTeams
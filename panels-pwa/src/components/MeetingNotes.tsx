@@ -4,14 +4,18 @@ import { useEditor, EditorContent } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
 import Image from '@tiptap/extension-image'
 import Placeholder from '@tiptap/extension-placeholder'
+import { TaskItem, TaskList } from '@tiptap/extension-list'
 import { Markdown } from 'tiptap-markdown'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { ArrowLeft, Save, Edit, Bold, Italic, List, Link as LinkIcon, Image as ImageIcon, Hash, Quote, Plus, Trash2, History, Building2, X } from 'lucide-react'
+import { ArrowLeft, Save, Edit, Bold, Italic, List, Link as LinkIcon, Image as ImageIcon, Hash, Quote, Plus, Trash2, History, Building2, X, MessageSquare } from 'lucide-react'
 import { useUsersForVisits } from '@/hooks/useUsersForVisits'
 import { useAllVisits } from '@/hooks/useVisitQueries'
 import { useVisitEdit } from '@/hooks/useVisitEdit'
 import { useVisitNotes } from '@/hooks/useVisitNotes'
+import { useVisitComments } from '@/hooks/useVisitComments'
+import { getReviewState } from '@/hooks/useVisitReview'
+import { extractOpenTasks } from '@/hooks/useActionItems'
 import { useFirestoreCollection } from '@/hooks/useFirestoreCollection'
 import { useUserCciLinks } from '@/hooks/useUserCciLinks'
 import useAuthStore from '@/store/authStore'
@@ -22,6 +26,9 @@ import { format } from 'date-fns'
 import { convertTextToHtml, stripHtmlForPreview } from '@/utils/htmlUtils'
 import { useTitleBarSlots } from '@/store/titleBarSlots'
 import VersionHistoryPopup from './VersionHistoryPopup'
+import VisitComments from './VisitComments'
+import VisitReviewPanel from './VisitReview'
+import VisitActionItemsCard from './ActionItems'
 import type { VisitDoc, CCIDoc } from '@/types/firestore'
 import { timestampToDate } from '@/types/firestore'
 
@@ -59,6 +66,7 @@ const MeetingNotes: React.FC = () => {
   // Centralized query system automatically handles permissions
   const { visits, error: currentError, isLoading, mutate } = useAllVisits()
   const { data: users } = useUsersForVisits()
+  const feedback = useVisitComments(visit?.id)
   
   // Get current user
   const { user } = useAuthStore()
@@ -68,10 +76,15 @@ const MeetingNotes: React.FC = () => {
   const { getFilledByStatus } = visitEdit
   
   // Use centralized permission system
-  const { canEditVisit, userId, capabilities } = usePermissionsStore()
+  const { canEditVisit, userId, isAdmin, capabilities } = usePermissionsStore()
   
   // Check if user can edit this visit - only if permissions store is initialized
-  const canEdit = visit && userId && capabilities.canEditVisits ? canEditVisit(visit.id, visit.filledByUid) : false
+  const canEditContent = visit && userId && capabilities.canEditVisits ? canEditVisit(visit.id, visit.filledByUid, visit.cci_id) : false
+  // Approved debriefs are locked until a reviewer reopens them
+  const isApproved = getReviewState(visit) === 'approved'
+  const canEdit = canEditContent && !isApproved
+  // Assigned EMs co-editing someone else's visit cannot move it to another CCI
+  const canChangeCci = canEdit && (isAdmin || visit?.id === 'new' || visit?.filledByUid === userId)
   
   // Check if there are changes to discard (current vs original data)
   const hasChangesToDiscard = React.useMemo(() => {
@@ -265,9 +278,10 @@ const MeetingNotes: React.FC = () => {
     }
   }, [visits, visitId, searchParams])
   
-  // Update filledBy status when CCI selection changes
+  // Update filledBy status when CCI selection changes; co-editors leave the
+  // filler's label alone
   React.useEffect(() => {
-    if (visit && editedCciId !== null) {
+    if (visit && editedCciId !== null && (visit.id === 'new' || visit.filledByUid === userId)) {
       const newFilledBy = getFilledByStatus(editedCciId)
       if (visit.filledBy !== newFilledBy) {
         const updatedVisit = { ...visit, filledBy: newFilledBy }
@@ -276,7 +290,7 @@ const MeetingNotes: React.FC = () => {
         handleDataChangeWithAutosave()
       }
     }
-  }, [editedCciId, visit, getFilledByStatus, handleDataChangeWithAutosave])
+  }, [editedCciId, visit, userId, getFilledByStatus, handleDataChangeWithAutosave])
 
   // Set title bar slots
   useEffect(() => {
@@ -320,7 +334,7 @@ const MeetingNotes: React.FC = () => {
           placeholder="Select Institution"
           size="md"
           className="w-full min-w-0 max-w-[200px] sm:max-w-[240px]"
-          disabled={!canEdit}
+          disabled={!canChangeCci}
         />
       ),
       customRight: (
@@ -332,6 +346,24 @@ const MeetingNotes: React.FC = () => {
             </span>
           )}
           
+          {/* Feedback button with the unread count */}
+          {feedback.enabled && (
+            <Button 
+              onClick={() => document.getElementById('feedback')?.scrollIntoView({ behavior: 'smooth', block: 'start' })} 
+              size="sm" 
+              variant="ghost" 
+              className="relative h-7 w-7 p-0" 
+              title={feedback.unreadCount > 0 ? `${feedback.unreadCount} new feedback` : 'Feedback'}
+            >
+              <MessageSquare className="h-4 w-4" />
+              {feedback.unreadCount > 0 && (
+                <span className={`absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 rounded-full text-[10px] leading-4 text-white ${feedback.mentionsMe ? 'bg-destructive' : 'bg-primary'}`}>
+                  {feedback.unreadCount}
+                </span>
+              )}
+            </Button>
+          )}
+          
           {/* History button */}
           <Button 
             onClick={() => setShowHistoryPopup(true)} 
@@ -370,7 +402,7 @@ const MeetingNotes: React.FC = () => {
     })
 
     return () => clearSlots()
-  }, [visit, editedDate, editedCciId, institutionOptions, canEdit, lastAutosave, hasUnsavedChanges, hasChangesToDiscard, visitEdit.isSaving])
+  }, [visit, editedDate, editedCciId, institutionOptions, canEdit, canChangeCci, lastAutosave, hasUnsavedChanges, hasChangesToDiscard, visitEdit.isSaving, feedback.enabled, feedback.unreadCount, feedback.mentionsMe])
 
   // Initialize editors
   const agendaEditor = useEditor({
@@ -388,6 +420,9 @@ const MeetingNotes: React.FC = () => {
           class: 'max-w-full h-auto rounded-lg',
         },
       }),
+      // Task list items ([ ] at the start of a line) can become action items
+      TaskList,
+      TaskItem.configure({ nested: true }),
       Placeholder.configure({
         placeholder: 'Enter meeting agenda... (supports markdown: use - for bullets, **bold**, *italic*)',
       }),
@@ -429,6 +464,9 @@ const MeetingNotes: React.FC = () => {
           class: 'max-w-full h-auto rounded-lg',
         },
       }),
+      // Task list items ([ ] at the start of a line) can become action items
+      TaskList,
+      TaskItem.configure({ nested: true }),
       Placeholder.configure({
         placeholder: 'Enter meeting debrief... (supports markdown: use - for bullets, **bold**, *italic*)',
       }),
@@ -614,6 +652,12 @@ const MeetingNotes: React.FC = () => {
     mutate()
   }
 
+  // Unchecked tasks in the agenda and debrief, offered as action items
+  const taskTexts = React.useMemo(
+    () => [...extractOpenTasks(visit?.agenda), ...extractOpenTasks(visit?.debrief)],
+    [visit?.agenda, visit?.debrief]
+  )
+
   const emUser = visit ? (users || []).find(u => u.uid === visit.filledByUid) : undefined
   const emLabel = emUser?.username || emUser?.email
 
@@ -658,6 +702,14 @@ const MeetingNotes: React.FC = () => {
           {emLabel && <span className="px-2 py-0.5 rounded-full border text-xs">{emLabel}</span>}
         </div>
 
+        {visit && visit.id !== 'new' && (
+          <VisitReviewPanel
+            visit={visit}
+            canSubmit={canEditContent && !hasUnsavedChanges && stripHtmlForPreview(visit.debrief).trim().length > 0}
+            onChange={() => mutate()}
+          />
+        )}
+
         {/* Rich Text Editor Toolbar - Always visible but disabled for read-only users */}
         <Card className="mb-6">
           <CardContent className="p-4">
@@ -745,8 +797,8 @@ const MeetingNotes: React.FC = () => {
                 </Button>
               </div>
               <div className="text-xs text-muted-foreground">
-                💡 <strong>Markdown shortcuts:</strong> Use <code>-</code> for bullets, <code>**bold**</code> for bold, <code>*italic*</code> for italic, <code>##</code> for headings, <code>&gt;</code> for quotes
-                {!canEdit && <span className="ml-2 text-orange-600">(Read-only mode)</span>}
+                💡 <strong>Markdown shortcuts:</strong> Use <code>-</code> for bullets, <code>**bold**</code> for bold, <code>*italic*</code> for italic, <code>##</code> for headings, <code>&gt;</code> for quotes, <code>[ ]</code> for tasks
+                {!canEdit && <span className="ml-2 text-orange-600">{isApproved ? '(Approved – editing locked)' : '(Read-only mode)'}</span>}
               </div>
             </div>
           </CardContent>
@@ -776,6 +828,11 @@ const MeetingNotes: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Action items from this visit */}
+        {visit && visit.id !== 'new' && (
+          <VisitActionItemsCard visit={visit} users={users || []} taskTexts={taskTexts} />
+        )}
+
         {/* Notes Section */}
         <Card>
           <CardHeader>
@@ -898,6 +955,9 @@ const MeetingNotes: React.FC = () => {
             </div>
           </CardContent>
         </Card>
+
+        {/* Cluster feedback, hidden from users without the capability */}
+        {feedback.enabled && <VisitComments feedback={feedback} users={users || []} />}
       </div>
       
       {/* Version History Popup */}
@@ -906,6 +966,21 @@ const MeetingNotes: React.FC = () => {
           visitId={visitId}
           isOpen={showHistoryPopup}
           onClose={() => setShowHistoryPopup(false)}
+          // Approved visits are locked, so they offer no restore
+          visit={visit && visit.id !== 'new' && !isApproved ? visit : null}
+          onRestored={(content) => {
+            if (!visit) return
+            // The restore is already saved, so drop any pending autosave of older edits
+            if (autosaveTimeoutRef.current) {
+              clearTimeout(autosaveTimeoutRef.current)
+            }
+            const restoredVisit = { ...visit, ...content }
+            setVisit(restoredVisit)
+            setOriginalData(restoredVisit)
+            setCurrentData(restoredVisit)
+            setHasUnsavedChanges(false)
+            mutate()
+          }}
         />
       )}
     </div>
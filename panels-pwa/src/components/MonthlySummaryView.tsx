@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useMonthlySummary, latestInsightUpdate } from '@/hooks/useInsightData'
+import { InsightFreshnessBadge } from '@/components/InsightFreshnessBadge'
+
+const formatMonth = (date: Date): string => {
+  return date.toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })
+}
+
+const MonthlySummaryView: React.FC = () => {
+  const { data: monthlyData, loading: isLoading, error } = useMonthlySummary(12)
+  const latestUpdate = useMemo(() => latestInsightUpdate(monthlyData), [monthlyData])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Monthly Summary
+          <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
+            Pre-aggregated
+          </span>
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Visits, completion rate and most active CCIs and users for each calendar month.
+          <span className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mt-1">
+            Refreshed a few minutes after visits change
+            <InsightFreshnessBadge
+              lastUpdated={latestUpdate?.lastUpdated}
+              lastUpdatedDisplay={latestUpdate?.lastUpdatedDisplay}
+            />
+          </span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-8 text-center text-muted-foreground">Loading…</div>
+        ) : error ? (
+          <div className="py-8 text-center">
+            <div className="text-destructive mb-2">Failed to load monthly summaries.</div>
+            <div className="text-sm text-muted-foreground">
+              {error.message.includes('No insight data available')
+                ? 'The Cloud Function may not have run yet to populate the data.'
+                : 'Please try again later.'}
+            </div>
+          </div>
+        ) : monthlyData.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">No monthly summaries found.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Month</TableHead>
+                <TableHead className="text-right">Visits</TableHead>
+                <TableHead className="text-right">Avg / week</TableHead>
+                <TableHead className="text-right">Completion</TableHead>
+                <TableHead>Top CCIs</TableHead>
+                <TableHead>Top users</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {monthlyData.map(month => (
+                <TableRow key={month.monthId}>
+                  <TableCell className="font-medium whitespace-nowrap">{formatMonth(month.monthStart)}</TableCell>
+                  <TableCell className="text-right">{month.summary.totalVisits}</TableCell>
+                  <TableCell className="text-right">{month.summary.averageVisitsPerWeek.toFixed(1)}</TableCell>
+                  <TableCell className="text-right">{month.summary.completionRate.toFixed(1)}%</TableCell>
+                  <TableCell className="text-xs">
+                    {month.summary.topCcis.length === 0 ? '—' : month.summary.topCcis.map(cci => (
+                      <div key={cci.cciId} className="truncate max-w-[220px]">
+                        {cci.cciName} <span className="text-muted-foreground">({cci.visitCount})</span>
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {month.summary.topUsers.length === 0 ? '—' : month.summary.topUsers.map(user => (
+                      <div key={user.userId} className="truncate max-w-[220px]">
+                        {user.userName} <span className="text-muted-foreground">({user.visitCount})</span>
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default MonthlySummaryView
@@ -5,6 +5,8 @@ import { useSharedVisitsListener } from '@/hooks/useSharedVisitsListener';
 import { DateRangePicker, type DateRangeValue, TextSelect } from '@/components/ui';
 import { Pin, Calendar, User } from 'lucide-react';
 import { useUserPinnedVisits } from '@/hooks/useUserPinnedVisits';
+import { useTeamFilter } from '@/hooks/useTeams';
+import TeamFilter from './TeamFilter';
 import { useNavigate } from 'react-router-dom';
 import type { VisitDoc } from '@/types/firestore';
 import { timestampToDate } from '@/types/firestore';
@@ -35,6 +37,7 @@ const NotesView: React.FC = () => {
 
   const [range, setRange] = useState<DateRangeValue>(createDefaultRange)
   const [selectedCci, setSelectedCci] = useState<string>('all')
+  const { teams, teamFilter, setTeamFilter, teamUids } = useTeamFilter()
   
   // Selection mode functionality
   const [isSelectionMode, setIsSelectionMode] = useState(false)
@@ -121,6 +124,12 @@ const NotesView: React.FC = () => {
     );
   }, [selectedCci, cciOptions]);
 
+  const teamFilterJSX = useMemo(() => (
+    teams.length > 0
+      ? <TeamFilter teams={teams} value={teamFilter} onChange={setTeamFilter} className="w-full min-w-0 max-w-[160px]" />
+      : null
+  ), [teams, teamFilter, setTeamFilter]);
+
   // Selection mode handlers (defined early to avoid dependency issues)
   const exitSelectionMode = useCallback(() => {
     setIsSelectionMode(false);
@@ -210,14 +219,15 @@ const NotesView: React.FC = () => {
       // Selection mode: use memoized JSX
       setSlots(selectionModeJSX);
     } else {
-      // Normal mode: show date range picker and CCI dropdown
+      // Normal mode: show date range picker, CCI dropdown and team filter
       setSlots({
         customLeft: dateRangePickerJSX,
         customCenter: cciDropdownJSX,
+        customRight: teamFilterJSX,
       });
     }
     return () => clearSlots();
-  }, [dateRangePickerJSX, cciDropdownJSX, isSelectionMode, selectionModeJSX]);
+  }, [dateRangePickerJSX, cciDropdownJSX, teamFilterJSX, isSelectionMode, selectionModeJSX]);
 
   // Helper function to extract notes text from all content fields
   const getNotesText = (visit: VisitDoc): string => {
@@ -270,6 +280,11 @@ const NotesView: React.FC = () => {
       filteredVisits = filteredVisits.filter((v: VisitDoc) => v.cci_id === selectedCci);
     }
 
+    // Filter by team if selected
+    if (teamUids) {
+      filteredVisits = filteredVisits.filter((v: VisitDoc) => teamUids.has(v.filledByUid));
+    }
+
     // Separate pinned and regular notes
     const pinned = filteredVisits.filter((v: VisitDoc) => pinnedVisits.includes(v.id));
     const regular = filteredVisits.filter((v: VisitDoc) => !pinnedVisits.includes(v.id));
@@ -285,7 +300,7 @@ const NotesView: React.FC = () => {
       pinnedNotes: pinned.sort(sortByDate),
       regularNotes: regular.sort(sortByDate),
     };
-  }, [allVisits, selectedCci, rangeTimestamps.from, rangeTimestamps.to, pinnedVisits]);
+  }, [allVisits, selectedCci, teamUids, rangeTimestamps.from, rangeTimestamps.to, pinnedVisits]);
 
   // Handle card click - navigate to meeting notes or toggle selection
   const handleCardClick = (visitId: string) => {
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react'
+import { collection, limit, onSnapshot, orderBy, query } from 'firebase/firestore'
+import { getFunctions, httpsCallable } from 'firebase/functions'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { RefreshCw } from 'lucide-react'
+import { app, auth, db } from '@/firebase'
+import { insightJobsCollection } from '@/firebase/paths'
+import { notify } from '@/utils/notify'
+import type { InsightRecomputeJobDoc } from '@/types/insights'
+
+const STALE_JOB_MS = 10 * 60 * 1000
+
+const toIsoDay = (date: Date): string => {
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, '0')
+  const d = String(date.getDate()).padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
+
+const defaultFrom = (): string => {
+  const date = new Date()
+  date.setMonth(date.getMonth() - 3)
+  return toIsoDay(date)
+}
+
+const statusVariant = (status: InsightRecomputeJobDoc['status']) => {
+  if (status === 'completed') return 'success' as const
+  if (status === 'failed') return 'destructive' as const
+  return 'secondary' as const
+}
+
+const RebuildInsights: React.FC = () => {
+  const [from, setFrom] = useState<string>(defaultFrom)
+  const [to, setTo] = useState<string>(() => toIsoDay(new Date()))
+  const [isStarting, setIsStarting] = useState(false)
+  const [latestJob, setLatestJob] = useState<InsightRecomputeJobDoc | null>(null)
+
+  // Follow the most recent job live so progress shows even after a page reload
+  useEffect(() => {
+    const q = query(collection(db, insightJobsCollection()), orderBy('createdAt', 'desc'), limit(1))
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        const doc = snapshot.docs[0]
+        setLatestJob(doc ? ({ id: doc.id, ...doc.data() } as InsightRecomputeJobDoc) : null)
+      },
+      (error) => {
+        console.error('Failed to listen to insight jobs', error)
+      }
+    )
+    return unsubscribe
+  }, [])
+
+  // Matches the server-side cutoff after which a silent running job counts as abandoned
+  const isRunning = latestJob?.status === 'running'
+    && !!latestJob.updatedAt
+    && Date.now() - latestJob.updatedAt.toDate().getTime() < STALE_JOB_MS
+  const percent = latestJob && latestJob.totalWeeks > 0
+    ? Math.round((latestJob.completedWeeks / latestJob.totalWeeks) * 100)
+    : 0
+
+  const triggerRebuild = async () => {
+    if (!from || !to || from > to) {
+      notify.error('Choose a start date on or before the end date.')
+      return
+    }
+    setIsStarting(true)
+    try {
+      try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+      const fn = httpsCallable(getFunctions(app, 'us-central1'), 'panelRecomputeInsights', { timeout: 540000 })
+      const result = await fn({ from, to })
+      const payload = (result?.data || {}) as Record<string, unknown>
+      const failedWeeks = Array.isArray(payload.failedWeeks) ? payload.failedWeeks.length : 0
+      const totalWeeks = typeof payload.totalWeeks === 'number' ? payload.totalWeeks : undefined
+      let message = totalWeeks !== undefined ? `Rebuilt stats for ${totalWeeks} weeks.` : 'Stats rebuilt.'
+      if (failedWeeks > 0) {
+        message += ` ${failedWeeks} week${failedWeeks !== 1 ? 's' : ''} failed.`
+      }
+      notify.success(message)
+    } catch (error) {
+      console.error('Stats rebuild failed', error)
+      const message = (error as { message?: string } | undefined)?.message || 'Failed to rebuild stats. Please try again.'
+      notify.error(message)
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  return (
+    <Card className="m3-card">
+      <CardHeader className="m3-card-header">
+        <CardTitle className="text-lg sm:text-xl">Rebuild stats</CardTitle>
+        <CardDescription className="text-sm">
+          Recompute weekly, monthly and yearly insights for a date range, e.g. after importing or correcting old visits.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="rebuild-from">From</Label>
+            <Input id="rebuild-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rebuild-to">To</Label>
+            <Input id="rebuild-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <Button variant="primary" size="primary-default" onClick={triggerRebuild} disabled={isStarting || isRunning}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isStarting || isRunning ? 'animate-spin' : ''}`} />
+            {isStarting || isRunning ? 'Rebuilding…' : 'Rebuild stats'}
+          </Button>
+        </div>
+
+        {latestJob && (
+          <div className="space-y-2 rounded-md border p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <div>
+                Last rebuild: <span className="font-medium">{latestJob.from}</span> to <span className="font-medium">{latestJob.to}</span>
+                {latestJob.startedByEmail && (
+                  <span className="text-muted-foreground"> by {latestJob.startedByEmail}</span>
+                )}
+              </div>
+              <Badge variant={statusVariant(latestJob.status)} className="capitalize">{latestJob.status}</Badge>
+            </div>
+            <Progress value={percent} className="h-2" />
+            <div className="text-xs text-muted-foreground">
+              {latestJob.completedWeeks} of {latestJob.totalWeeks} weeks processed
+              {latestJob.failedWeeks?.length > 0 && ` · failed: ${latestJob.failedWeeks.join(', ')}`}
+            </div>
+            {latestJob.status === 'failed' && latestJob.error && (
+              <div className="text-xs text-destructive">{latestJob.error}</div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default RebuildInsights
@@ -1,5 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { Navigate, Outlet } from 'react-router-dom';
+import { collection, doc, onSnapshot, query, where } from 'firebase/firestore';
+
+import { db } from '../firebase';
+import { ccisCollection, cciUserLinkDocument, teamDocument, userDocument } from '../firebase/paths';
 
 import useAuthStore from '../store/authStore';
 import { usePermissionsStore } from '../store/permissionsStore';
@@ -10,9 +14,10 @@ interface RequireAuthProps {
 
 const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
   const { user, loading } = useAuthStore();
-  const { setUser } = usePermissionsStore();
+  const { setUser, setAssignedCCIs, setCoEditableCCIs, setTeamMemberUids } = usePermissionsStore();
   const [userRole, setUserRole] = useState<string | null>(null);
   const [checkingRole, setCheckingRole] = useState(true);
+  const [deactivated, setDeactivated] = useState(false);
 
   useEffect(() => {
     const checkUserRole = async () => {
@@ -23,22 +28,28 @@ const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
           const idTokenResult = await user.getIdTokenResult(true);
           const role = idTokenResult.claims.role as string;
           setUserRole(role);
+          setDeactivated(idTokenResult.claims.status === 'deactivated');
           
           // Initialize permissions store with user data
           console.log("RequireAuth: Initializing permissions store:", {
             uid: user.uid,
             role: role
           });
-          setUser(user.uid, role, []); // TODO: Get assigned CCIs from user data
+          // See All access is granted by an admin and carried as a claim
+          // Assigned CCIs arrive from the cci_user_links listener below
+          setUser(user.uid, role, undefined, idTokenResult.claims.seeAllVisits === true);
           
           console.log("RequireAuth: User role fetched:", role);
         } catch (error) {
           console.error("RequireAuth: Error fetching user role:", error);
+          // A disabled account can no longer refresh its token
+          setDeactivated((error as { code?: string } | undefined)?.code === 'auth/user-disabled');
           setUserRole(null);
           setUser(user.uid, null, []);
         }
       } else {
         setUserRole(null);
+        setDeactivated(false);
         setUser(null, null, []);
       }
       setCheckingRole(false);
@@ -48,6 +59,58 @@ const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
     checkUserRole();
   }, [user, setUser]);
 
+  // Deactivation revokes the session, but an open tab keeps its ID token until
+  // it expires; watch the profile so the user is moved off straight away
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = onSnapshot(
+      doc(db, userDocument(user.uid)),
+      // Follows the profile both ways so a reactivated user is let back in
+      (snapshot) => setDeactivated(snapshot.data()?.status === 'Inactive'),
+      (error) => console.error("RequireAuth: Error watching user profile:", error)
+    );
+    return unsubscribe;
+  }, [user]);
+
+  // Keep CCI assignments live so an admin's reassignment applies without a reload
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = onSnapshot(
+      doc(db, cciUserLinkDocument(user.uid)),
+      (snapshot) => {
+        const cciIds = snapshot.data()?.cci_id;
+        setAssignedCCIs(Array.isArray(cciIds) ? cciIds : []);
+      },
+      (error) => console.error("RequireAuth: Error watching CCI assignments:", error)
+    );
+    return unsubscribe;
+  }, [user, setAssignedCCIs]);
+
+  // CCIs that let their assigned EMs edit every visit there
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = onSnapshot(
+      query(collection(db, ccisCollection()), where('assignedEmsCanEdit', '==', true)),
+      (snapshot) => setCoEditableCCIs(snapshot.docs.map(cciDoc => cciDoc.id)),
+      (error) => console.error("RequireAuth: Error watching CCI editing policy:", error)
+    );
+    return unsubscribe;
+  }, [user, setCoEditableCCIs]);
+
+  // A supervisor's team lives at teams/{uid}; keep its members live too
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = onSnapshot(
+      doc(db, teamDocument(user.uid)),
+      (snapshot) => {
+        const memberUids = snapshot.data()?.memberUids;
+        setTeamMemberUids(Array.isArray(memberUids) ? memberUids : []);
+      },
+      (error) => console.error("RequireAuth: Error watching team:", error)
+    );
+    return unsubscribe;
+  }, [user, setTeamMemberUids]);
+
   console.log("RequireAuth: Render - user:", user, "userRole:", userRole, "checkingRole:", checkingRole);
 
   if (loading || checkingRole) {
@@ -59,6 +122,10 @@ const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
     );
   }
 
+  if (deactivated) {
+    return <Navigate to="/account-deactivated" replace />;
+  }
+
   if (!user) {
     return <Navigate to="/login" replace />; // Redirect to login if not authenticated
   }
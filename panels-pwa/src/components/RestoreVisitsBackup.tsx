@@ -0,0 +1,319 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { getFunctions, httpsCallable } from 'firebase/functions'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { History, RefreshCw } from 'lucide-react'
+import { app, auth } from '@/firebase'
+import { notify } from '@/utils/notify'
+
+interface VisitBackup {
+  fileName: string
+  filePath: string
+  size: number
+  updated: string | null
+}
+
+interface RestoreVisitSummary {
+  id: string
+  date: string
+  cci_name: string
+  filledBy: string
+}
+
+interface RestoreChangedVisit extends RestoreVisitSummary {
+  // loss says what the revert cannot bring back, e.g. the text's formatting
+  changes: Array<{ field: string; current: string; backup: string; loss?: string | null }>
+}
+
+interface RestorePreview {
+  filePath: string
+  new: RestoreVisitSummary[]
+  changed: RestoreChangedVisit[]
+  missing: RestoreVisitSummary[]
+}
+
+type RestoreSection = 'new' | 'changed' | 'missing'
+
+const sectionMeta: Record<RestoreSection, { title: string; description: string; action: string }> = {
+  new: {
+    title: 'New',
+    description: 'In the backup but no longer in Firestore. Selected visits are recreated.',
+    action: 'recreate'
+  },
+  changed: {
+    title: 'Changed',
+    description: 'Different from the backup. Selected visits have the listed fields reverted; a reverted date keeps the visit\'s time.',
+    action: 'revert'
+  },
+  missing: {
+    title: 'Missing from backup',
+    description: 'In Firestore but not in the backup, e.g. added since. Selected visits are deleted.',
+    action: 'delete'
+  }
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const truncate = (value: string, max = 80): string => (value.length > max ? `${value.slice(0, max)}…` : value)
+
+const callFunction = async <T,>(name: string, data?: unknown, timeout = 300000): Promise<T> => {
+  try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+  const fn = httpsCallable(getFunctions(app, 'us-central1'), name, { timeout })
+  const result = await fn(data)
+  return result.data as T
+}
+
+const RestoreVisitsBackup: React.FC = () => {
+  const [backups, setBackups] = useState<VisitBackup[]>([])
+  const [isLoadingBackups, setIsLoadingBackups] = useState(false)
+  const [previewingPath, setPreviewingPath] = useState<string | null>(null)
+  const [preview, setPreview] = useState<RestorePreview | null>(null)
+  const [selected, setSelected] = useState<Record<RestoreSection, Set<string>>>({ new: new Set(), changed: new Set(), missing: new Set() })
+  const [isApplying, setIsApplying] = useState(false)
+
+  const loadBackups = useCallback(async () => {
+    setIsLoadingBackups(true)
+    try {
+      const result = await callFunction<{ backups: VisitBackup[] }>('panelListVisitBackups', undefined, 60000)
+      setBackups(result.backups || [])
+    } catch (error) {
+      console.error('Failed to list backups', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to list backups.')
+    } finally {
+      setIsLoadingBackups(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadBackups()
+  }, [loadBackups])
+
+  const loadPreview = async (filePath: string) => {
+    setPreviewingPath(filePath)
+    setPreview(null)
+    try {
+      const result = await callFunction<RestorePreview>('panelPreviewVisitRestore', { filePath })
+      setPreview(result)
+      // Recreating and reverting are pre-selected; deletions must be opted into
+      setSelected({
+        new: new Set(result.new.map(v => v.id)),
+        changed: new Set(result.changed.map(v => v.id)),
+        missing: new Set()
+      })
+    } catch (error) {
+      console.error('Failed to preview restore', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to read backup.')
+    } finally {
+      setPreviewingPath(null)
+    }
+  }
+
+  const toggle = (section: RestoreSection, id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev[section])
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return { ...prev, [section]: next }
+    })
+  }
+
+  const toggleAll = (section: RestoreSection, ids: string[]) => {
+    setSelected(prev => ({
+      ...prev,
+      [section]: prev[section].size === ids.length ? new Set<string>() : new Set(ids)
+    }))
+  }
+
+  const totalSelected = selected.new.size + selected.changed.size + selected.missing.size
+
+  const applyRestore = async () => {
+    if (!preview || totalSelected === 0) return
+    const parts = [
+      selected.new.size ? `recreate ${selected.new.size}` : '',
+      selected.changed.size ? `revert ${selected.changed.size}` : '',
+      selected.missing.size ? `delete ${selected.missing.size}` : ''
+    ].filter(Boolean).join(', ')
+    const lossyCount = preview.changed.filter(v => selected.changed.has(v.id) && v.changes.some(change => change.loss)).length
+    const lossWarning = lossyCount ? ` ${lossyCount} reverted visit(s) will lose agenda or debrief formatting.` : ''
+    if (!window.confirm(`Restore from this backup and ${parts} visit(s)?${lossWarning} This cannot be undone.`)) return
+
+    setIsApplying(true)
+    try {
+      const result = await callFunction<{ recreated: number; reverted: number; deleted: number }>(
+        'panelApplyVisitRestore',
+        {
+          filePath: preview.filePath,
+          recreate: Array.from(selected.new),
+          revert: Array.from(selected.changed),
+          delete: Array.from(selected.missing)
+        },
+        540000
+      )
+      notify.success(`Restore complete: ${result.recreated} recreated, ${result.reverted} reverted, ${result.deleted} deleted.`)
+      await loadPreview(preview.filePath)
+    } catch (error) {
+      console.error('Restore failed', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Restore failed. Please try again.')
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const renderSection = (section: RestoreSection, rows: Array<RestoreVisitSummary | RestoreChangedVisit>) => {
+    const meta = sectionMeta[section]
+    const ids = rows.map(r => r.id)
+    return (
+      <section key={section} className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <h3 className="text-sm font-semibold flex items-center gap-2">
+              {meta.title}
+              <Badge variant={section === 'missing' ? 'destructive' : 'secondary'}>{rows.length}</Badge>
+            </h3>
+            <p className="text-xs text-muted-foreground">{meta.description}</p>
+          </div>
+          {rows.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => toggleAll(section, ids)}>
+              {selected[section].size === ids.length ? 'Select none' : 'Select all'}
+            </Button>
+          )}
+        </div>
+        {rows.length > 0 && (
+          <div className="max-h-72 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Date</TableHead>
+                  <TableHead>CCI</TableHead>
+                  <TableHead>EM</TableHead>
+                  {section === 'changed' && <TableHead>Changes (current → backup)</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        aria-label={`${meta.action} ${row.id}`}
+                        checked={selected[section].has(row.id)}
+                        onChange={() => toggle(section, row.id)}
+                      />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{row.date}</TableCell>
+                    <TableCell>{row.cci_name}</TableCell>
+                    <TableCell>{row.filledBy}</TableCell>
+                    {section === 'changed' && (
+                      <TableCell className="text-xs space-y-1">
+                        {(row as RestoreChangedVisit).changes.map(change => (
+                          <div key={change.field}>
+                            <span className="font-medium">{change.field}:</span>{' '}
+                            <span className="line-through text-muted-foreground">{truncate(change.current) || '—'}</span>{' → '}
+                            <span>{truncate(change.backup) || '—'}</span>
+                            {change.loss && <div className="text-warning">{change.loss}</div>}
+                          </div>
+                        ))}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </section>
+    )
+  }
+
+  return (
+    <Card className="m3-card">
+      <CardHeader className="m3-card-header">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg sm:text-xl flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Restore from backup
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Compare a nightly CSV backup with current visits and restore selected differences. Agenda and debrief are restored as plain text.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadBackups} disabled={isLoadingBackups}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoadingBackups ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoadingBackups && backups.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">Loading backups…</div>
+        ) : backups.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">No backups found.</div>
+        ) : (
+          <div className="max-h-64 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Backup</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                  <TableHead>Written</TableHead>
+                  <TableHead className="text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {backups.map(backup => (
+                  <TableRow key={backup.filePath} className={preview?.filePath === backup.filePath ? 'bg-accent/40' : undefined}>
+                    <TableCell className="font-mono text-xs">{backup.fileName}</TableCell>
+                    <TableCell className="text-right text-xs">{formatSize(backup.size)}</TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      {backup.updated ? new Date(backup.updated).toLocaleString('en-IN') : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => loadPreview(backup.filePath)}
+                        disabled={previewingPath !== null || isApplying}
+                      >
+                        {previewingPath === backup.filePath ? 'Comparing…' : 'Compare'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-6">
+            {preview.new.length + preview.changed.length + preview.missing.length === 0 ? (
+              <div className="py-4 text-center text-muted-foreground">Current visits match this backup.</div>
+            ) : (
+              <>
+                {renderSection('new', preview.new)}
+                {renderSection('changed', preview.changed)}
+                {renderSection('missing', preview.missing)}
+                <div className="flex justify-end">
+                  <Button variant="primary" size="primary-default" onClick={applyRestore} disabled={isApplying || totalSelected === 0}>
+                    {isApplying ? 'Restoring…' : `Apply ${totalSelected} change${totalSelected !== 1 ? 's' : ''}`}
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default RestoreVisitsBackup
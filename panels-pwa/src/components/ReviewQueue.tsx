@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { SegmentedControl } from '@/components/ui/segmented-control'
+import { ClipboardCheck, ExternalLink } from 'lucide-react'
+import { ReviewActions } from '@/components/VisitReview'
+import { useReviewQueue } from '@/hooks/useVisitReview'
+import { useUsersForVisits } from '@/hooks/useUsersForVisits'
+import { stripHtmlForPreview, truncate } from '@/utils/htmlUtils'
+import { timestampToDate } from '@/types/firestore'
+import type { VisitReviewState } from '@/types/firestore'
+
+type QueueState = Extract<VisitReviewState, 'awaiting_review' | 'returned' | 'approved'>
+
+const queueOptions = [
+  { label: 'Awaiting review', value: 'awaiting_review' },
+  { label: 'Returned', value: 'returned' },
+  { label: 'Approved', value: 'approved' }
+]
+
+const EMPTY_MESSAGES: Record<QueueState, string> = {
+  awaiting_review: 'Nothing is waiting for review.',
+  returned: 'No debriefs have been returned.',
+  approved: 'No approved debriefs yet.'
+}
+
+const ReviewQueue: React.FC = () => {
+  const navigate = useNavigate()
+  const [queue, setQueue] = useState<QueueState>('awaiting_review')
+  const { visits, isLoading } = useReviewQueue(queue)
+  const { data: users } = useUsersForVisits()
+
+  const userLabels = useMemo(
+    () => new Map((users || []).map(u => [u.uid, u.username || u.email || u.uid])),
+    [users]
+  )
+
+  const formatDate = (value: unknown, pattern: string) => {
+    const date = timestampToDate(value)
+    return date ? format(date, pattern) : '—'
+  }
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <div className="w-full max-w-5xl lg:max-w-6xl mx-auto px-3 sm:px-4 lg:px-6 py-6 sm:py-10 lg:py-12">
+        <div className="flex justify-center mb-4">
+          <SegmentedControl
+            ariaLabel="Review queue"
+            options={queueOptions}
+            value={queue}
+            onChange={(v) => setQueue(v as QueueState)}
+          />
+        </div>
+        <Card className="m3-card">
+          <CardHeader className="m3-card-header">
+            <CardTitle className="text-lg sm:text-xl flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Review Queue
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Submitted debriefs wait here until a reviewer approves them or returns them with comments. Approved visits are locked for editing.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="py-6 text-center text-muted-foreground">Loading…</div>
+            ) : visits.length === 0 ? (
+              <div className="py-6 text-center text-muted-foreground">{EMPTY_MESSAGES[queue]}</div>
+            ) : (
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Visit</TableHead>
+                      <TableHead>Filled by</TableHead>
+                      <TableHead>{queue === 'awaiting_review' ? 'Submitted' : 'Reviewed'}</TableHead>
+                      <TableHead>{queue === 'returned' ? 'Comment' : 'Debrief'}</TableHead>
+                      <TableHead className="text-right" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visits.map(visit => (
+                      <TableRow key={visit.id}>
+                        <TableCell className="text-sm">
+                          <div className="font-medium">{visit.cci_name}</div>
+                          <div className="text-xs text-muted-foreground">{formatDate(visit.date, 'd MMM yyyy')}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">{userLabels.get(visit.filledByUid) || visit.filledBy || '—'}</TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">
+                          {queue === 'awaiting_review'
+                            ? formatDate(visit.reviewSubmittedAt, 'd MMM, h:mm a')
+                            : `${formatDate(visit.reviewedAt, 'd MMM')}${visit.reviewedByUid ? ` · ${userLabels.get(visit.reviewedByUid) || 'Reviewer'}` : ''}`}
+                        </TableCell>
+                        <TableCell className="text-xs max-w-xs">
+                          {queue === 'returned'
+                            ? (visit.reviewComment || '—')
+                            : truncate(stripHtmlForPreview(visit.debrief), 120) || '—'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex flex-wrap items-center justify-end gap-2">
+                            <ReviewActions visit={visit} />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => navigate(`/meeting-notes/${visit.id}`)}
+                              aria-label="Open visit"
+                            >
+                              <ExternalLink className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default ReviewQueue
@@ -1,6 +1,6 @@
 import React, { useEffect, useRef } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { BarChart2, Calendar, Home, LogOut, Settings, X, StickyNote, Eye, EyeOff } from 'lucide-react';
+import { BarChart2, Calendar, Home, LogOut, Settings, X, StickyNote, Eye, EyeOff, ClipboardCheck, ListChecks } from 'lucide-react';
 import { usePreferencesStore } from '@/store/preferencesStore';
 import useAuthStore from '@/store/authStore';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
@@ -130,6 +130,12 @@ const SideNav: React.FC<SideNavProps> = ({ open, onOpenChange }) => {
               <Link to="/notes" onClick={() => onOpenChange(false)} className={`flex items-center gap-3 px-3 py-2 rounded-md ${isActive('/notes') ? 'bg-muted text-foreground' : 'text-muted-foreground hover:bg-muted hover:text-foreground'}`}>
                 <StickyNote className="h-4 w-4" /> Notes
               </Link>
+              <Link to="/review" onClick={() => onOpenChange(false)} className={`flex items-center gap-3 px-3 py-2 rounded-md ${isActive('/review') ? 'bg-muted text-foreground' : 'text-muted-foreground hover:bg-muted hover:text-foreground'}`}>
+                <ClipboardCheck className="h-4 w-4" /> Review Queue
+              </Link>
+              <Link to="/action-items" onClick={() => onOpenChange(false)} className={`flex items-center gap-3 px-3 py-2 rounded-md ${isActive('/action-items') ? 'bg-muted text-foreground' : 'text-muted-foreground hover:bg-muted hover:text-foreground'}`}>
+                <ListChecks className="h-4 w-4" /> Action Items
+              </Link>
               <Link to="/settings" onClick={() => onOpenChange(false)} className={`flex items-center gap-3 px-3 py-2 rounded-md ${isActive('/settings') ? 'bg-muted text-foreground' : 'text-muted-foreground hover:bg-muted hover:text-foreground'}`}>
                 <Settings className="h-4 w-4" /> Admin Settings
               </Link>
@@ -1,13 +1,17 @@
 
 import React, { useState } from 'react';
 import { auth } from '../firebase';
-import { createUserWithEmailAndPassword } from 'firebase/auth';
+import { createUserWithEmailAndPassword, sendEmailVerification } from 'firebase/auth';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { app } from '@/firebase';
 import { Link, useNavigate } from 'react-router-dom';
 import { notify } from '../utils/notify';
 
 const SignUp: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [username, setUsername] = useState('');
+  const [note, setNote] = useState('');
   const [error] = useState('');
   const navigate = useNavigate();
 
@@ -17,6 +21,19 @@ const SignUp: React.FC = () => {
       const userCredential = await createUserWithEmailAndPassword(auth, email, password);
       // Force refresh the ID token to get the latest custom claims
       await userCredential.user.getIdTokenResult(true);
+      // Sign-up details for the approval queue; the account works without them
+      try {
+        const fn = httpsCallable(getFunctions(app, 'us-central1'), 'submitAccessRequest');
+        await fn({ username, note });
+      } catch (detailsError) {
+        console.error('Failed to submit sign-up details', detailsError);
+      }
+      // Allowlisted addresses are approved once verified
+      try {
+        await sendEmailVerification(userCredential.user);
+      } catch (verificationError) {
+        console.error('Failed to send verification email', verificationError);
+      }
       notify.success('Signed up successfully!');
       navigate('/');
     } catch (err) {
@@ -37,6 +54,18 @@ const SignUp: React.FC = () => {
         </div>
         <div className="card flex-shrink-0 w-full max-w-sm shadow-2xl bg-base-100">
           <div className="card-body">
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Full name</span>
+              </label>
+              <input
+                type="text"
+                placeholder="name"
+                className="input input-bordered"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+            </div>
             <div className="form-control">
               <label className="label">
                 <span className="label-text">Email</span>
@@ -64,6 +93,19 @@ const SignUp: React.FC = () => {
                 {error && <span className="label-text-alt text-error">{error}</span>}
               </label>
             </div>
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Why do you need access?</span>
+              </label>
+              <textarea
+                placeholder="Your team, role and the CCIs you work with"
+                className="textarea textarea-bordered"
+                rows={3}
+                maxLength={1000}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
             <div className="form-control mt-6">
               <button className="btn btn-primary" onClick={handleSignUp}>Sign Up</button>
             </div>
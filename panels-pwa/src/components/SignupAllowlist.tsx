@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { collection, onSnapshot, orderBy, query } from 'firebase/firestore'
+import { getFunctions, httpsCallable } from 'firebase/functions'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { TextSelect } from '@/components/ui/text-select'
+import { FilterChips } from '@/components/ui/filter-chips'
+import { ShieldCheck, Trash2 } from 'lucide-react'
+import { app, auth, db } from '@/firebase'
+import { useFirestoreCollection } from '@/hooks/useFirestoreCollection'
+import { ccisCollection, signupAllowlistCollection } from '@/firebase/paths'
+import { notify } from '@/utils/notify'
+import type { CCIDoc, SignupAllowlistDoc } from '@/types/firestore'
+
+const DEFAULT_ROLES = ['EM', 'Supervisor', 'CM', 'Academy', 'Management', 'Guest', 'Admin']
+
+const callFunction = async <T,>(name: string, data: unknown): Promise<T> => {
+  try { await auth.currentUser?.getIdToken(true) } catch { /* fall back to the cached token */ }
+  const fn = httpsCallable(getFunctions(app, 'us-central1'), name)
+  const result = await fn(data)
+  return result.data as T
+}
+
+const SignupAllowlist: React.FC = () => {
+  const { data: ccis } = useFirestoreCollection<CCIDoc>(ccisCollection())
+  const [entries, setEntries] = useState<SignupAllowlistDoc[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [value, setValue] = useState('')
+  const [role, setRole] = useState('EM')
+  const [cciIds, setCciIds] = useState<string[]>([])
+  const [cciSearch, setCciSearch] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const q = query(collection(db, signupAllowlistCollection()), orderBy('value'))
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        setEntries(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as SignupAllowlistDoc)))
+        setIsLoading(false)
+      },
+      (error) => {
+        console.error('Failed to load sign-up allowlist', error)
+        setIsLoading(false)
+      }
+    )
+    return unsubscribe
+  }, [])
+
+  const cciNames = useMemo(() => new Map((ccis || []).map(cci => [cci.id, cci.name || cci.id])), [ccis])
+
+  const cciOptions = useMemo(() => {
+    const term = cciSearch.trim().toLowerCase()
+    return [...(ccis || [])]
+      .filter(cci => cciIds.includes(cci.id) || !term || (cci.name || '').toLowerCase().includes(term))
+      .sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+      .map(cci => ({ label: cci.name || cci.id, value: cci.id }))
+  }, [ccis, cciIds, cciSearch])
+
+  const resetForm = () => {
+    setValue('')
+    setRole('EM')
+    setCciIds([])
+    setCciSearch('')
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!value.trim()) return
+    setIsSaving(true)
+    try {
+      const result = await callFunction<{ id: string }>('panelSaveAllowlistEntry', { value, role, cciIds })
+      notify.success(`Saved ${result.id}`)
+      resetForm()
+    } catch (error) {
+      console.error('Failed to save allowlist entry', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to save entry.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleEdit = (entry: SignupAllowlistDoc) => {
+    setValue(entry.value)
+    setRole(entry.role)
+    setCciIds(entry.cciIds || [])
+  }
+
+  const handleDelete = async (entry: SignupAllowlistDoc) => {
+    if (!window.confirm(`Remove ${entry.value} from the allowlist? New sign-ups from it will wait for review.`)) return
+    setDeletingId(entry.id)
+    try {
+      await callFunction('panelDeleteAllowlistEntry', { id: entry.id })
+      notify.success(`Removed ${entry.value}`)
+    } catch (error) {
+      console.error('Failed to delete allowlist entry', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to remove entry.')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <Card className="m3-card">
+      <CardHeader className="m3-card-header">
+        <CardTitle className="text-lg sm:text-xl flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Sign-up allowlist
+        </CardTitle>
+        <CardDescription className="text-sm">
+          New accounts whose email matches an address or domain here are approved with its role and CCIs once they verify their email. Exact addresses take precedence over domains; everyone else waits for review.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form className="space-y-3 rounded-md border p-3" onSubmit={handleSave}>
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_12rem] gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="allowlist-value">Email address or domain</Label>
+              <Input
+                id="allowlist-value"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder="example.org or name@example.org"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Default role</Label>
+              <TextSelect
+                value={role}
+                onChange={setRole}
+                options={DEFAULT_ROLES.map(r => ({ label: r, value: r }))}
+                size="sm"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Default CCIs {cciIds.length > 0 && <span className="text-muted-foreground">({cciIds.length})</span>}</Label>
+            <Input
+              value={cciSearch}
+              onChange={(e) => setCciSearch(e.target.value)}
+              placeholder="Filter CCIs"
+              className="h-8"
+            />
+            <FilterChips
+              className="flex-wrap max-h-28 overflow-y-auto pt-1"
+              options={cciOptions}
+              values={cciIds}
+              onChange={setCciIds}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={resetForm} disabled={isSaving}>Clear</Button>
+            <Button type="submit" variant="primary" size="primary-default" disabled={isSaving || !value.trim()}>
+              {isSaving ? 'Saving…' : 'Save entry'}
+            </Button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="py-6 text-center text-muted-foreground">Loading…</div>
+        ) : entries.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">No entries yet. All sign-ups wait for review.</div>
+        ) : (
+          <div className="max-h-80 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>CCIs</TableHead>
+                  <TableHead className="text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm">
+                      <span className="font-mono">{entry.value}</span>{' '}
+                      <Badge variant="outline" className="ml-1 capitalize">{entry.kind}</Badge>
+                    </TableCell>
+                    <TableCell><Badge variant="secondary">{entry.role}</Badge></TableCell>
+                    <TableCell className="text-xs">
+                      {(entry.cciIds || []).map(id => cciNames.get(id) || id).join(', ') || '—'}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(entry)}>Edit</Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(entry)}
+                        disabled={deletingId !== null}
+                        aria-label={`Remove ${entry.value}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default SignupAllowlist
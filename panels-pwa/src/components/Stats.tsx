@@ -1,8 +1,16 @@
 import React, { useMemo, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { useWeeklyVisitsCount } from '@/hooks/useInsightData'
+import { useWeeklyVisitsCount, latestInsightUpdate } from '@/hooks/useInsightData'
+import { InsightFreshnessBadge } from '@/components/InsightFreshnessBadge'
 // Removed date-fns imports - using native JavaScript date methods
 import { PillSelector } from '@/components/ui/pill-selector'
+import { SegmentedControl } from '@/components/ui/segmented-control'
+import MonthlySummaryView from '@/components/MonthlySummaryView'
+import YearlyTrendsView from '@/components/YearlyTrendsView'
+import TeamFilter from '@/components/TeamFilter'
+import { useTeamFilter } from '@/hooks/useTeams'
+import { formatFiscalWeekLabel, getFiscalWeek, getIstDateParts } from '@/utils/fiscalCalendar'
+import { FISCAL_CALENDAR } from '@/utils/fiscalCalendarConfig'
 import { UserCircle2, Users, CheckCircle2, Filter } from 'lucide-react'
 
 const roleOptions = [
@@ -15,6 +23,16 @@ const filterOptions = [
   { label: 'Complete only', value: 'complete', icon: CheckCircle2, iconColor: 'text-success' }
 ];
 
+const viewOptions = [
+  { label: 'Weekly', value: 'weekly' },
+  { label: 'Monthly', value: 'monthly' },
+  { label: 'Trends', value: 'trends' }
+];
+
+type StatsView = 'weekly' | 'monthly' | 'trends'
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
 const Stats: React.FC = () => {
   // Note: Individual user data not available in pre-aggregated insights
   // Note: Admin status not needed for insight-only data
@@ -26,6 +44,11 @@ const Stats: React.FC = () => {
 
   const [roleMode, setRoleMode] = useState<'EM' | 'Visitor'>('EM')
   const [showOnlyComplete, setShowOnlyComplete] = useState<boolean>(true)
+  const [view, setView] = useState<StatsView>('weekly')
+  const { teams, teamFilter, setTeamFilter, teamUids } = useTeamFilter()
+
+  // Older weeks are recomputed on edit, so the newest week isn't necessarily the freshest
+  const latestUpdate = useMemo(() => latestInsightUpdate(weeklyData), [weeklyData])
 
   const participants = useMemo(() => {
     if (!weeklyData || weeklyData.length === 0) {
@@ -83,8 +106,9 @@ const Stats: React.FC = () => {
       }
     })
 
-    return Array.from(participantMap.values())
-  }, [weeklyData, roleMode])
+    // Only the selected team's columns when a team is chosen
+    return Array.from(participantMap.values()).filter(participant => !teamUids || teamUids.has(participant.uid))
+  }, [weeklyData, roleMode, teamUids])
 
   const rows = useMemo(() => {
     if (!weeklyData || error) {
@@ -93,39 +117,22 @@ const Stats: React.FC = () => {
     
     // Process insight data into the expected format
     const counts = new Map<string, Map<string, number>>()
-    const weekMeta = new Map<string, { label: string; start: Date; end: Date }>()
+    const weekMeta = new Map<string, { label: string; shortLabel: string; weekNumber: number; start: Date; end: Date }>()
     
     for (const weekData of weeklyData) {
       const weekStart = weekData.weekStart
       const weekEnd = weekData.weekEnd
       
-      // Calculate financial year week number
-      const getFinancialWeek = (date: Date): number => {
-        const year = date.getFullYear()
-        const april1 = new Date(year, 3, 1)
-        const isBeforeApril = date < april1
-        const financialYear = isBeforeApril ? year - 1 : year
-        const financialApril1 = new Date(financialYear, 3, 1)
-        const daysDiff = Math.floor((date.getTime() - financialApril1.getTime()) / (1000 * 60 * 60 * 24))
-        return Math.floor(daysDiff / 7) + 1
-      }
-      
-      const formatDate = (date: Date): string => {
-        return date.toLocaleDateString('en-IN');
-      }
-      
-      const formatDateKey = (date: Date): string => {
-        const year = date.getFullYear();
-        const month = String(date.getMonth() + 1).padStart(2, '0');
-        const day = String(date.getDate()).padStart(2, '0');
-        return `${year}-${month}-${day}`;
-      }
-      
-      const weekNum = getFinancialWeek(weekStart)
-      const label = `W${weekNum} - ${formatDate(weekStart)} - ${formatDate(weekEnd)}`
-      const key = `${weekNum}-${formatDateKey(weekStart)}`
+      const week = getFiscalWeek(weekStart, FISCAL_CALENDAR)
+      // Prefer the aggregator's numbering so rows always match the stored buckets
+      const weekNumber = weekData.weekNumber ?? week.weekNumber
+      const label = formatFiscalWeekLabel({ ...week, weekNumber })
+      const startParts = getIstDateParts(weekStart)
+      const endParts = getIstDateParts(weekEnd)
+      const shortLabel = `${startParts.month}/${startParts.day}-${endParts.month}/${endParts.day}`
+      const key = week.weekId
       
-      weekMeta.set(key, { label, start: weekStart, end: weekEnd })
+      weekMeta.set(key, { label, shortLabel, weekNumber, start: weekStart, end: weekEnd })
       
       // Use the new user-level aggregation data
       const userMap = new Map<string, number>()
@@ -212,10 +219,22 @@ const Stats: React.FC = () => {
     return columnTotals.reduce((sum, entry) => sum + entry.total, 0)
   }, [columnTotals])
 
-  if (error && !isLoading) {
+  const viewToggle = (
+    <div className="flex justify-center mb-4">
+      <SegmentedControl
+        ariaLabel="Stats period"
+        options={viewOptions}
+        value={view}
+        onChange={(v) => setView(v as StatsView)}
+      />
+    </div>
+  )
+
+  if (view === 'weekly' && error && !isLoading) {
     return (
       <div className="min-h-screen bg-background pb-20">
         <div className="w-full max-w-5xl mx-auto px-3 sm:px-4 py-6 sm:py-10">
+          {viewToggle}
           <Card>
             <CardContent className="p-6">
               <div className="text-center text-red-600">
@@ -231,172 +250,183 @@ const Stats: React.FC = () => {
   return (
     <div className="min-h-screen bg-background pb-20">
       <div className="w-full max-w-5xl lg:max-w-6xl xl:max-w-7xl mx-auto px-3 sm:px-4 lg:px-6 xl:px-8 py-6 sm:py-10 lg:py-12 xl:py-16">
-        <Card>
-          <CardHeader>
-              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-              <div>
-                <CardTitle className="flex items-center gap-2">
-                  Weekly Visits
-                  <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
-                    Pre-aggregated
-                  </span>
-                </CardTitle>
-                <CardDescription className="text-sm">
-                  Weeks are Monday–Saturday. A visit is complete when Debrief is not blank.
-                  <span className="block text-xs text-muted-foreground mt-1">
-                    Data updated daily at 12:00 AM IST
-                    {weeklyData.length > 0 && (
-                      <span className="block mt-1">
-                        Last updated: {weeklyData[0].lastUpdatedDisplay}
-                      </span>
-                    )}
-                  </span>
-                </CardDescription>
-              </div>
-              <div className="flex flex-col sm:flex-row gap-3">
-                <div className="w-full sm:w-40">
-                  <PillSelector
-                    value={roleMode}
-                    onChange={(v) => setRoleMode(v as 'EM' | 'Visitor')}
-                    options={roleOptions}
-                    size="md"
-                    title="Audience"
-                    titlePlacement="dropdown"
-                    placeholder="Audience"
-                    showDropdownIndicator
-                    hidePlaceholderOptionInMenu={false}
-                    showDropdownTitleWhenPlaceholder
-                  />
+        {viewToggle}
+        {view === 'monthly' ? (
+          <MonthlySummaryView />
+        ) : view === 'trends' ? (
+          <YearlyTrendsView />
+        ) : (
+          <Card>
+            <CardHeader>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    Weekly Visits
+                    <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
+                      Pre-aggregated
+                    </span>
+                  </CardTitle>
+                  <CardDescription className="text-sm">
+                    Weeks start on {WEEKDAY_NAMES[FISCAL_CALENDAR.weekStartsOn]} (IST) and are numbered from the start of the financial year. A visit is complete when Debrief is not blank.
+                    <span className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mt-1">
+                      Refreshed a few minutes after visits change
+                      <InsightFreshnessBadge
+                        lastUpdated={latestUpdate?.lastUpdated}
+                        lastUpdatedDisplay={latestUpdate?.lastUpdatedDisplay}
+                      />
+                    </span>
+                  </CardDescription>
                 </div>
-                <div className="w-full sm:w-48">
-                  <PillSelector
-                    value={showOnlyComplete ? 'complete' : 'all'}
-                    onChange={(v) => setShowOnlyComplete(v === 'complete')}
-                    options={filterOptions}
-                    size="md"
-                    title="Filter"
-                    titlePlacement="dropdown"
-                    placeholder="Filter"
-                    showDropdownIndicator
-                    hidePlaceholderOptionInMenu={false}
-                    showDropdownTitleWhenPlaceholder
-                  />
+                <div className="flex flex-col sm:flex-row gap-3">
+                  {teams.length > 0 && (
+                    <div className="w-full sm:w-44">
+                      <TeamFilter teams={teams} value={teamFilter} onChange={setTeamFilter} className="w-full" />
+                    </div>
+                  )}
+                  <div className="w-full sm:w-40">
+                    <PillSelector
+                      value={roleMode}
+                      onChange={(v) => setRoleMode(v as 'EM' | 'Visitor')}
+                      options={roleOptions}
+                      size="md"
+                      title="Audience"
+                      titlePlacement="dropdown"
+                      placeholder="Audience"
+                      showDropdownIndicator
+                      hidePlaceholderOptionInMenu={false}
+                      showDropdownTitleWhenPlaceholder
+                    />
+                  </div>
+                  <div className="w-full sm:w-48">
+                    <PillSelector
+                      value={showOnlyComplete ? 'complete' : 'all'}
+                      onChange={(v) => setShowOnlyComplete(v === 'complete')}
+                      options={filterOptions}
+                      size="md"
+                      title="Filter"
+                      titlePlacement="dropdown"
+                      placeholder="Filter"
+                      showDropdownIndicator
+                      hidePlaceholderOptionInMenu={false}
+                      showDropdownTitleWhenPlaceholder
+                    />
+                  </div>
                 </div>
               </div>
-            </div>
-          </CardHeader>
-          <CardContent>
-            {isLoading ? (
-              <div className="py-8 text-center text-muted-foreground">Loading…</div>
-            ) : error ? (
-              <div className="py-8 text-center">
-                <div className="text-destructive mb-2">Failed to load insight data.</div>
-                <div className="text-sm text-muted-foreground">
-                  {error.message.includes('No insight data available') 
-                    ? 'The Cloud Function may not have run yet to populate the data.'
-                    : 'Please try again later.'}
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="py-8 text-center text-muted-foreground">Loading…</div>
+              ) : error ? (
+                <div className="py-8 text-center">
+                  <div className="text-destructive mb-2">Failed to load insight data.</div>
+                  <div className="text-sm text-muted-foreground">
+                    {error.message.includes('No insight data available') 
+                      ? 'The Cloud Function may not have run yet to populate the data.'
+                      : 'Please try again later.'}
+                  </div>
                 </div>
-              </div>
-            ) : participants.length === 0 ? (
-              <div className="py-8 text-center text-muted-foreground">No participants found for {roleMode}.</div>
-            ) : !rows || rows.weeks.length === 0 ? (
-              <div className="py-8 text-center text-muted-foreground">No completed visits found.</div>
-            ) : (
-              <div className="flex justify-center -mx-4 sm:mx-0">
-                <div className="overflow-x-auto w-full max-w-full">
-                  <div className="min-w-max px-2 sm:px-0">
-                    {/* Month Calendar Style Grid - Dynamic Columns */}
-                    <div className="border border-gray-200 rounded-lg overflow-hidden min-w-full">
-                      {/* Header Row - Week Column + All Participants + Row Total */}
-                      <div className="flex bg-muted/50 border-b border-border">
-                        <div className="flex-shrink-0 w-24 sm:w-32 p-1 md:p-2 text-center text-xs md:text-sm font-medium text-muted-foreground border-r border-border">
-                          <span className="hidden sm:inline">Week</span>
-                          <span className="sm:hidden">W</span>
-                        </div>
-                        {sortedParticipants.map(participant => (
-                          <div
-                            key={participant.uid}
-                            className="flex-shrink-0 w-24 sm:w-28 lg:w-32 p-1 md:p-2 text-center text-[10px] md:text-xs font-medium text-muted-foreground border-r border-border"
-                            title={participant.uid === participant.label
-                              ? participant.uid
-                              : `${participant.label} (${participant.uid})`}
-                          >
-                            <div className="break-words leading-tight">
-                              <div className="text-[10px] md:text-xs font-semibold text-foreground">
-                                {participant.label}
-                              </div>
-                              {participant.uid !== participant.label && (
-                                <div className="mt-0.5 font-mono text-[9px] text-muted-foreground truncate">
-                                  {participant.uid}
+              ) : participants.length === 0 ? (
+                <div className="py-8 text-center text-muted-foreground">No participants found for {roleMode}.</div>
+              ) : !rows || rows.weeks.length === 0 ? (
+                <div className="py-8 text-center text-muted-foreground">No completed visits found.</div>
+              ) : (
+                <div className="flex justify-center -mx-4 sm:mx-0">
+                  <div className="overflow-x-auto w-full max-w-full">
+                    <div className="min-w-max px-2 sm:px-0">
+                      {/* Month Calendar Style Grid - Dynamic Columns */}
+                      <div className="border border-gray-200 rounded-lg overflow-hidden min-w-full">
+                        {/* Header Row - Week Column + All Participants + Row Total */}
+                        <div className="flex bg-muted/50 border-b border-border">
+                          <div className="flex-shrink-0 w-24 sm:w-32 p-1 md:p-2 text-center text-xs md:text-sm font-medium text-muted-foreground border-r border-border">
+                            <span className="hidden sm:inline">Week</span>
+                            <span className="sm:hidden">W</span>
+                          </div>
+                          {sortedParticipants.map(participant => (
+                            <div
+                              key={participant.uid}
+                              className="flex-shrink-0 w-24 sm:w-28 lg:w-32 p-1 md:p-2 text-center text-[10px] md:text-xs font-medium text-muted-foreground border-r border-border"
+                              title={participant.uid === participant.label
+                                ? participant.uid
+                                : `${participant.label} (${participant.uid})`}
+                            >
+                              <div className="break-words leading-tight">
+                                <div className="text-[10px] md:text-xs font-semibold text-foreground">
+                                  {participant.label}
                                 </div>
-                              )}
+                                {participant.uid !== participant.label && (
+                                  <div className="mt-0.5 font-mono text-[9px] text-muted-foreground truncate">
+                                    {participant.uid}
+                                  </div>
+                                )}
+                              </div>
                             </div>
+                          ))}
+                          <div className="flex-shrink-0 w-16 sm:w-20 p-1 md:p-2 text-center text-xs md:text-sm font-bold text-foreground bg-muted/50">
+                            <span className="hidden sm:inline">Total</span>
+                            <span className="sm:hidden">T</span>
                           </div>
-                        ))}
-                        <div className="flex-shrink-0 w-16 sm:w-20 p-1 md:p-2 text-center text-xs md:text-sm font-bold text-foreground bg-muted/50">
-                          <span className="hidden sm:inline">Total</span>
-                          <span className="sm:hidden">T</span>
                         </div>
-                      </div>
-                      
-                      {/* Column Totals Row */}
-                      <div className="flex bg-muted/30 border-b border-border">
-                        <div className="flex-shrink-0 w-24 sm:w-32 p-1 md:p-2 text-center text-xs md:text-sm font-bold text-foreground border-r border-border">
-                          <span className="hidden sm:inline">Total</span>
-                          <span className="sm:hidden">T</span>
-                        </div>
-                        {columnTotals.map(({ uid, total }) => (
-                          <div
-                            key={uid}
-                            className="flex-shrink-0 w-24 sm:w-28 lg:w-32 p-1 md:p-2 text-center text-xs md:text-sm font-bold text-foreground border-r border-border"
-                          >
-                            {total || ''}
+                        
+                        {/* Column Totals Row */}
+                        <div className="flex bg-muted/30 border-b border-border">
+                          <div className="flex-shrink-0 w-24 sm:w-32 p-1 md:p-2 text-center text-xs md:text-sm font-bold text-foreground border-r border-border">
+                            <span className="hidden sm:inline">Total</span>
+                            <span className="sm:hidden">T</span>
+                          </div>
+                          {columnTotals.map(({ uid, total }) => (
+                            <div
+                              key={uid}
+                              className="flex-shrink-0 w-24 sm:w-28 lg:w-32 p-1 md:p-2 text-center text-xs md:text-sm font-bold text-foreground border-r border-border"
+                            >
+                              {total || ''}
+                            </div>
+                          ))}
+                          <div className="flex-shrink-0 w-16 sm:w-20 p-1 md:p-2 text-center text-xs md:text-sm font-bold text-foreground bg-muted/30">
+                            {overallTotal > 0 ? overallTotal : ''}
                           </div>
-                        ))}
-                        <div className="flex-shrink-0 w-16 sm:w-20 p-1 md:p-2 text-center text-xs md:text-sm font-bold text-foreground bg-muted/30">
-                          {overallTotal > 0 ? overallTotal : ''}
                         </div>
-                      </div>
 
-                      {/* Data Rows */}
-                      {rows.weeks.map(([key, meta]) => {
-                        const row = rows.counts.get(key) || new Map<string, number>()
-                        const rowTotal = Array.from(row.values() as number[]).reduce((sum: number, count: number) => sum + count, 0)
-                        return (
-                          <div key={key} className="flex border-b border-border last:border-b-0">
-                            <div className="flex-shrink-0 w-24 sm:w-32 p-1 md:p-2 text-center text-xs md:text-sm font-medium bg-card border-r border-border">
-                              <div className="break-words">
-                                <span className="hidden sm:inline">{meta.label}</span>
-                                <span className="sm:hidden text-[8px]">
-                                  W{key.split('-')[0]}<br />
-                                  {meta.start.getMonth() + 1}/{meta.start.getDate()}-{meta.end.getMonth() + 1}/{meta.end.getDate()}
-                                </span>
-                              </div>
-                            </div>
-                            {sortedParticipants.map(participant => {
-                              const participantCount = row.get(participant.uid) || 0
-                              return (
-                                <div
-                                  key={participant.uid}
-                                  className="flex-shrink-0 w-24 sm:w-28 lg:w-32 p-1 md:p-2 text-center text-xs md:text-sm bg-card border-r border-border hover:bg-accent/40"
-                                >
-                                  {participantCount || ''}
+                        {/* Data Rows */}
+                        {rows.weeks.map(([key, meta]) => {
+                          const row = rows.counts.get(key) || new Map<string, number>()
+                          const rowTotal = sortedParticipants.reduce((sum: number, participant) => sum + (row.get(participant.uid) || 0), 0)
+                          return (
+                            <div key={key} className="flex border-b border-border last:border-b-0">
+                              <div className="flex-shrink-0 w-24 sm:w-32 p-1 md:p-2 text-center text-xs md:text-sm font-medium bg-card border-r border-border">
+                                <div className="break-words">
+                                  <span className="hidden sm:inline">{meta.label}</span>
+                                  <span className="sm:hidden text-[8px]">
+                                    W{meta.weekNumber}<br />
+                                    {meta.shortLabel}
+                                  </span>
                                 </div>
-                              )
-                            })}
-                            <div className="flex-shrink-0 w-16 sm:w-20 p-1 md:p-2 text-center text-xs md:text-sm font-bold bg-muted/40">
-                              {rowTotal.toString()}
+                              </div>
+                              {sortedParticipants.map(participant => {
+                                const participantCount = row.get(participant.uid) || 0
+                                return (
+                                  <div
+                                    key={participant.uid}
+                                    className="flex-shrink-0 w-24 sm:w-28 lg:w-32 p-1 md:p-2 text-center text-xs md:text-sm bg-card border-r border-border hover:bg-accent/40"
+                                  >
+                                    {participantCount || ''}
+                                  </div>
+                                )
+                              })}
+                              <div className="flex-shrink-0 w-16 sm:w-20 p-1 md:p-2 text-center text-xs md:text-sm font-bold bg-muted/40">
+                                {rowTotal.toString()}
+                              </div>
                             </div>
-                          </div>
-                        )
-                      })}
+                          )
+                        })}
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,33 @@
+import React from 'react';
+import { TextSelect } from '@/components/ui';
+import type { TeamDoc } from '@/types/firestore';
+
+interface TeamFilterProps {
+  teams: TeamDoc[];
+  value: string;
+  onChange: (teamId: string) => void;
+  className?: string;
+}
+
+// Narrows a view to one team; hidden for users who cannot see any team
+const TeamFilter: React.FC<TeamFilterProps> = ({ teams, value, onChange, className }) => {
+  if (teams.length === 0) return null;
+
+  const options = [
+    { label: 'Everyone', value: 'all' },
+    ...teams.map(team => ({ label: team.name || 'Unnamed team', value: team.id }))
+  ];
+
+  return (
+    <TextSelect
+      value={value}
+      onChange={onChange}
+      options={options}
+      placeholder="Team"
+      size="sm"
+      className={className ?? 'w-full min-w-0 max-w-[200px]'}
+    />
+  );
+};
+
+export default TeamFilter;
@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react'
+import { diffText } from '@/utils/textDiff'
+import type { DiffGranularity, DiffSegment } from '@/utils/textDiff'
+
+interface TextDiffViewProps {
+  before: string
+  after: string
+  granularity?: DiffGranularity
+  // Inline shows one merged text; split shows before and after side by side
+  layout?: 'inline' | 'split'
+  beforeLabel?: string
+  afterLabel?: string
+  className?: string
+}
+
+const insertClass = 'bg-green-500/20 text-green-700 dark:text-green-400 rounded-sm'
+const deleteClass = 'bg-red-500/20 text-red-600 dark:text-red-400 line-through rounded-sm'
+
+const renderSegments = (segments: DiffSegment[], show: Array<DiffSegment['op']>) => (
+  segments
+    .filter(segment => show.includes(segment.op))
+    .map((segment, index) => {
+      if (segment.op === 'insert') return <ins key={index} className={`${insertClass} no-underline`}>{segment.text}</ins>
+      if (segment.op === 'delete') return <del key={index} className={deleteClass}>{segment.text}</del>
+      return <span key={index}>{segment.text}</span>
+    })
+)
+
+const TextDiffView: React.FC<TextDiffViewProps> = ({
+  before,
+  after,
+  granularity = 'word',
+  layout = 'inline',
+  beforeLabel = 'Before',
+  afterLabel = 'After',
+  className = '',
+}) => {
+  const segments = useMemo(() => diffText(before, after, granularity), [before, after, granularity])
+
+  if (!before && !after) {
+    return <div className={`text-xs text-muted-foreground ${className}`}>(empty)</div>
+  }
+
+  if (layout === 'split') {
+    return (
+      <div className={`grid grid-cols-1 md:grid-cols-2 gap-2 text-sm ${className}`}>
+        <div className="rounded border p-2 bg-background">
+          <div className="text-xs font-medium text-muted-foreground mb-1">{beforeLabel}</div>
+          <div className="whitespace-pre-wrap break-words">
+            {before ? renderSegments(segments, ['equal', 'delete']) : <span className="text-muted-foreground">(empty)</span>}
+          </div>
+        </div>
+        <div className="rounded border p-2 bg-background">
+          <div className="text-xs font-medium text-muted-foreground mb-1">{afterLabel}</div>
+          <div className="whitespace-pre-wrap break-words">
+            {after ? renderSegments(segments, ['equal', 'insert']) : <span className="text-muted-foreground">(empty)</span>}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`whitespace-pre-wrap break-words ${className}`}>
+      {renderSegments(segments, ['equal', 'delete', 'insert'])}
+    </div>
+  )
+}
+
+export default TextDiffView
@@ -1,12 +1,17 @@
 import React, { useEffect, useMemo, useState, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { updateDocument } from '@/firebase/firestoreService'
+import { updateDocument, visitEditStamp } from '@/firebase/firestoreService'
 import { notify } from '@/utils/notify'
 import { stripHtmlForPreview, stripHtmlForEditing, truncate } from '@/utils/htmlUtils'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { PillSelector, statusOptions, personMetOptions, qualityOptions, visitHoursOptions } from '@/components/ui'
-import { GripVertical, Save as SaveIcon, X as XIcon, Pencil as PencilIcon, ExternalLink } from 'lucide-react'
+import { NewFeedbackBadge, UnreadCommentsBadge } from '@/components/VisitComments'
+import { ReviewStateBadge } from '@/components/VisitReview'
+import { getReviewState } from '@/hooks/useVisitReview'
+import { ActionItemList } from '@/components/ActionItems'
+import { extractOpenTasks, useVisitActionItems } from '@/hooks/useActionItems'
+import { GripVertical, Save as SaveIcon, X as XIcon, Pencil as PencilIcon, ExternalLink, ChevronDown, ChevronUp } from 'lucide-react'
 import type { VisitDoc, User, CCI } from '@/hooks/useVisitsTimeline'
 
 interface TimelineCardProps {
@@ -21,6 +26,7 @@ interface TimelineCardProps {
   isDragTarget?: boolean
   expanded?: boolean
   onToggle?: (e: React.MouseEvent) => void
+  feedbackReadMarkers?: Map<string, Date> | null // From the list's useCommentReadMarkers
   users: User[]
   ccis: CCI[]
 }
@@ -35,8 +41,9 @@ export const TimelineCard: React.FC<TimelineCardProps> = ({
   isDragging = false,
   anyDragging = false,
   isDragTarget = false,
-  expanded: _expanded,
-  onToggle: _onToggle,
+  expanded = false,
+  onToggle,
+  feedbackReadMarkers = null,
   users,
   ccis
 }) => {
@@ -66,16 +73,34 @@ export const TimelineCard: React.FC<TimelineCardProps> = ({
   const cci = useMemo(() => ccis?.find(c => c.id === visit.cci_id), [ccis, visit.cci_id])
   const userDisplayName = user?.username || user?.email || 'Unknown User'
   const cciCity = cci?.city || 'Unknown City'
+  // Approved debriefs are locked until a reviewer reopens them
+  const isLocked = getReviewState(visit) === 'approved'
+  // Action items are only subscribed to on the open card, not the whole list
+  const actionItems = useVisitActionItems(expanded ? visit : null)
+  const openActionItems = actionItems.items.filter(item => item.status === 'open').length
+  const taskTexts = useMemo(
+    () => [...extractOpenTasks(visit.agenda), ...extractOpenTasks(visit.debrief)],
+    [visit.agenda, visit.debrief]
+  )
+
+  const openFeedback = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    navigate(`/meeting-notes/${visit.id}?mode=view#feedback`)
+  }
 
   const save = useCallback(async (fields: Partial<VisitDoc>) => {
+    if (isLocked) {
+      notify.error('This visit is approved and locked for editing')
+      return
+    }
     try { 
-      await updateDocument('visits', visit.id, fields)
+      await updateDocument('visits', visit.id, { ...fields, ...visitEditStamp() })
       onUpdated()
       notify.success('Saved') 
     } catch { 
       notify.error('Save failed') 
     }
-  }, [visit.id, onUpdated])
+  }, [visit.id, isLocked, onUpdated])
 
   useEffect(() => {
     const sanitizedAgenda = stripHtmlForEditing(visit.agenda)
@@ -163,6 +188,14 @@ export const TimelineCard: React.FC<TimelineCardProps> = ({
                 {visitDate.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })} • {userDisplayName} • {cciCity}
               </div>
             </div>
+            <ReviewStateBadge visit={visit} className="ml-2 flex-shrink-0 text-[10px]" />
+            {/* Only the open card subscribes to its feedback; the others read the
+                visit's feedback summary against the list's read markers */}
+            {expanded ? (
+              <UnreadCommentsBadge visitId={visit.id} onClick={openFeedback} />
+            ) : feedbackReadMarkers && (
+              <NewFeedbackBadge visit={visit} readMarkers={feedbackReadMarkers} onClick={openFeedback} />
+            )}
             {anyDragging && (
               <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0 ml-2" />
             )}
@@ -187,6 +220,7 @@ export const TimelineCard: React.FC<TimelineCardProps> = ({
                 value: 'Scheduled'
               }}
               showDropdownIndicator
+              disabled={isLocked}
               showDropdownTitleWhenPlaceholder
             />
             <PillSelector
@@ -204,6 +238,7 @@ export const TimelineCard: React.FC<TimelineCardProps> = ({
                 value: 'none'
               }}
               showDropdownIndicator
+              disabled={isLocked}
             />
           </div>
 
@@ -224,6 +259,7 @@ export const TimelineCard: React.FC<TimelineCardProps> = ({
                 value: 'none'
               }}
               showDropdownIndicator
+              disabled={isLocked}
             />
             <PillSelector
               value={visit.visitHours || 'none'}
@@ -240,6 +276,7 @@ export const TimelineCard: React.FC<TimelineCardProps> = ({
                 value: 'none'
               }}
               showDropdownIndicator
+              disabled={isLocked}
             />
           </div>
 
@@ -247,7 +284,7 @@ export const TimelineCard: React.FC<TimelineCardProps> = ({
           <div>
             <div className="flex items-center justify-between mb-2">
               <h4 className="text-sm font-medium text-foreground">Agenda</h4>
-              {!agendaEditable && (
+              {!agendaEditable && !isLocked && (
                 <Button
                   variant="ghost"
                   size="sm"
@@ -290,7 +327,7 @@ export const TimelineCard: React.FC<TimelineCardProps> = ({
           <div>
             <div className="flex items-center justify-between mb-2">
               <h4 className="text-sm font-medium text-foreground">Debrief</h4>
-              {!debriefEditable && (
+              {!debriefEditable && !isLocked && (
                 <Button
                   variant="ghost"
                   size="sm"
@@ -333,7 +370,7 @@ export const TimelineCard: React.FC<TimelineCardProps> = ({
           <div>
             <div className="flex items-center justify-between mb-2">
               <h4 className="text-sm font-medium text-foreground">Notes ({notes.length})</h4>
-              {!addingNote && (
+              {!addingNote && !isLocked && (
                 <Button
                   variant="ghost"
                   size="sm"
@@ -382,8 +419,30 @@ export const TimelineCard: React.FC<TimelineCardProps> = ({
             </div>
           </div>
 
+          {/* Action Items Section */}
+          {expanded && actionItems.enabled && (
+            <div>
+              <h4 className="text-sm font-medium text-foreground mb-2">Action Items ({openActionItems} open)</h4>
+              <ActionItemList actionItems={actionItems} users={users || []} taskTexts={taskTexts} compact />
+            </div>
+          )}
+
           {/* View Details Button */}
-          <div className="flex justify-center pt-2">
+          <div className="flex justify-center gap-2 pt-2">
+            {onToggle && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onToggle(e)
+                }}
+                className="h-9 text-sm px-4"
+              >
+                {expanded ? <ChevronUp className="h-4 w-4 mr-2" /> : <ChevronDown className="h-4 w-4 mr-2" />}
+                {expanded ? 'Hide follow-ups' : 'Show follow-ups'}
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
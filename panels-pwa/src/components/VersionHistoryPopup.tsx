@@ -1,19 +1,60 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { X, Clock, User, FileText, Plus, Edit, Trash2, ChevronDown, ChevronRight, Archive } from 'lucide-react';
+import { X, Clock, User, FileText, Plus, Edit, Trash2, ChevronDown, ChevronRight, Archive, RotateCcw, Columns2 } from 'lucide-react';
+import { SegmentedControl } from '@/components/ui/segmented-control';
+import { TextSelect } from '@/components/ui';
+import TextDiffView from './TextDiffView';
 import { useFirestoreCollection } from '@/hooks/useFirestoreCollection';
-import { visitEventsCollection, visitSnapshotsCollection } from '@/firebase/paths';
-import { formatVersionEvent } from '@/utils/versionHistory';
-import type { VersionEventDoc } from '@/types/firestore';
+import { useUsersForVisits } from '@/hooks/useUsersForVisits';
+import { getReviewState } from '@/hooks/useVisitReview';
+import { updateDocument, visitEditStamp } from '@/firebase/firestoreService';
+import { visitEventsCollection, visitSnapshotsCollection, visitsCollection } from '@/firebase/paths';
+import { usePermissionsStore } from '@/store/permissionsStore';
+import { notify } from '@/utils/notify';
+import { compareVisitContent, formatVersionEvent, rebuildVisitContentAt, toEventText } from '@/utils/versionHistory';
+import type { VisitContent, VisitContentRestore } from '@/utils/versionHistory';
+import type { DiffGranularity } from '@/utils/textDiff';
+import type { Timestamp } from 'firebase/firestore';
+import type { VersionEventDoc, VisitDoc } from '@/types/firestore';
 
 interface VersionHistoryPopupProps {
   visitId: string;
   isOpen: boolean;
   onClose: () => void;
+  // Current visit; restoring is only offered when it is provided
+  visit?: VisitDoc | null;
+  onRestored?: (content: VisitContent) => void;
 }
 
+interface RestorePreview extends VisitContentRestore {
+  label: string;
+  asOf: Date;
+  fromStoredContent: boolean;
+}
+
+const CURRENT_VERSION = 'current';
+
+const compareFieldOptions = [
+  { label: 'Agenda', value: 'agenda' },
+  { label: 'Debrief', value: 'debrief' },
+  { label: 'Notes', value: 'notes' },
+];
+
+const granularityOptions = [
+  { label: 'Words', value: 'word' },
+  { label: 'Sentences', value: 'sentence' },
+];
+
+// Plain text of a field for diffing; notes become one bullet per line
+const contentText = (content: VisitContent, field: keyof VisitContent): string => {
+  if (field === 'notes') {
+    return content.notes.map(note => `• ${toEventText(note.text)}`).join('\n');
+  }
+  return toEventText(content[field]);
+};
+
 interface Snapshot {
   id: string;
   version: number;
@@ -22,14 +63,39 @@ interface Snapshot {
   createdAt: any;
   eventCount: number;
   summary: string;
+  // Written by the snapshot policy since snapshots started storing content;
+  // older snapshots only have eventIds and are rebuilt from events
+  trigger?: 'events' | 'idle';
+  asOf?: Timestamp | Date;
+  content?: VisitContent;
 }
 
 const VersionHistoryPopup: React.FC<VersionHistoryPopupProps> = ({
   visitId,
   isOpen,
   onClose,
+  visit,
+  onRestored,
 }) => {
   const [expandedSnapshot, setExpandedSnapshot] = useState<string | null>(null);
+  const [restorePreview, setRestorePreview] = useState<RestorePreview | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState(CURRENT_VERSION);
+  const [compareField, setCompareField] = useState<keyof VisitContent>('debrief');
+  const [granularity, setGranularity] = useState<DiffGranularity>('word');
+  const { isAdmin, userId, canEditVisit } = usePermissionsStore();
+  const { data: users } = useUsersForVisits();
+
+  // Anyone who may edit the visit may roll it back, as the update rule allows,
+  // until it is approved and locked
+  const canRestore = !!visit && getReviewState(visit) !== 'approved' && (
+    isAdmin ||
+    (!!userId && visit.filledByUid === userId) ||
+    canEditVisit(visit.id, visit.filledByUid, visit.cci_id)
+  );
 
   // Utility function to safely convert Firestore timestamps to Date
   const firestoreTimestampToDate = (timestamp: any): Date | null => {
@@ -206,6 +272,207 @@ const VersionHistoryPopup: React.FC<VersionHistoryPopupProps> = ({
     return firestoreTimestampToDate(timestamp) !== null;
   };
 
+  // A snapshot's content is the state right after its newest event
+  const getSnapshotAsOf = (snapshot: Snapshot): Date | null => {
+    const storedAsOf = firestoreTimestampToDate(snapshot.asOf);
+    if (storedAsOf) return storedAsOf;
+    const times = (snapshot.eventIds || [])
+      .map(eventId => allEvents?.find(e => e.id === eventId))
+      .map(event => (event ? firestoreTimestampToDate(event.timestamp) : null))
+      .filter((date): date is Date => date !== null)
+      .map(date => date.getTime());
+    return times.length > 0 ? new Date(Math.max(...times)) : firestoreTimestampToDate(snapshot.createdAt);
+  };
+
+  const currentContent = (): VisitContent => ({
+    agenda: visit?.agenda || '',
+    debrief: visit?.debrief || '',
+    notes: visit?.notes || [],
+  });
+
+  // Content of a snapshot, or of the visit as it is now
+  const getVersionContent = (versionId: string): VisitContent | null => {
+    if (versionId === CURRENT_VERSION) return currentContent();
+    const snapshot = sortedSnapshots.find(s => s.id === versionId);
+    if (snapshot?.content) return snapshot.content;
+    const asOf = snapshot ? getSnapshotAsOf(snapshot) : null;
+    return asOf ? rebuildVisitContentAt(currentContent(), allEvents || [], asOf).content : null;
+  };
+
+  const versionOptions = [
+    { label: 'Current version', value: CURRENT_VERSION },
+    ...sortedSnapshots.map(snapshot => ({
+      label: `${snapshot.title}${isValidTimestamp(snapshot.createdAt) ? ` · ${formatTimestamp(snapshot.createdAt)}` : ''}`,
+      value: snapshot.id,
+    })),
+  ];
+
+  const canCompare = !!visit && sortedSnapshots.length > 0;
+
+  const toggleCompare = () => {
+    if (!isComparing && !compareFrom) {
+      setCompareFrom(sortedSnapshots[0]?.id || CURRENT_VERSION);
+    }
+    setRestorePreview(null);
+    setIsComparing(!isComparing);
+  };
+
+  const renderCompare = () => {
+    const fromContent = getVersionContent(compareFrom);
+    const toContent = getVersionContent(compareTo);
+    const fromLabel = versionOptions.find(o => o.value === compareFrom)?.label || 'Before';
+    const toLabel = versionOptions.find(o => o.value === compareTo)?.label || 'After';
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-muted-foreground">From</div>
+            <TextSelect value={compareFrom} onChange={setCompareFrom} options={versionOptions} size="sm" />
+          </div>
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-muted-foreground">To</div>
+            <TextSelect value={compareTo} onChange={setCompareTo} options={versionOptions} size="sm" />
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <SegmentedControl
+            ariaLabel="Field to compare"
+            size="sm"
+            options={compareFieldOptions}
+            value={compareField}
+            onChange={(v) => setCompareField(v as keyof VisitContent)}
+          />
+          <SegmentedControl
+            ariaLabel="Diff granularity"
+            size="sm"
+            options={granularityOptions}
+            value={granularity}
+            onChange={(v) => setGranularity(v as DiffGranularity)}
+          />
+        </div>
+        {fromContent && toContent ? (
+          <TextDiffView
+            before={contentText(fromContent, compareField)}
+            after={contentText(toContent, compareField)}
+            granularity={granularity}
+            layout="split"
+            beforeLabel={fromLabel}
+            afterLabel={toLabel}
+          />
+        ) : (
+          <div className="text-sm text-muted-foreground">Select two versions to compare.</div>
+        )}
+        <div className="text-xs text-muted-foreground">
+          Older snapshots without stored content are rebuilt from the edit history as plain text.
+        </div>
+      </div>
+    );
+  };
+
+  // Snapshots with stored content restore it as saved, formatting included
+  const previewRestore = (asOf: Date | null, label: string, storedContent?: VisitContent) => {
+    if (!visit || !asOf) return;
+    const rebuilt = rebuildVisitContentAt(currentContent(), allEvents || [], asOf);
+    const restore = storedContent
+      ? compareVisitContent(currentContent(), storedContent, rebuilt.undoneEventCount)
+      : rebuilt;
+    setRestorePreview({ ...restore, label, asOf, fromStoredContent: !!storedContent });
+    contentRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const applyRestore = async () => {
+    if (!visit || !restorePreview || restorePreview.changedFields.length === 0) return;
+    setIsRestoring(true);
+    try {
+      const updates: Partial<VisitContent> = {};
+      for (const field of restorePreview.changedFields) {
+        Object.assign(updates, { [field]: restorePreview.content[field] });
+      }
+      // A normal update, so captureVersionHistory records the rollback as new events
+      await updateDocument<VisitDoc>(visitsCollection(), visitId, { ...updates, ...visitEditStamp() });
+      onRestored?.(restorePreview.content);
+      notify.success(`Restored ${restorePreview.label.toLowerCase()}`);
+      setRestorePreview(null);
+    } catch (error) {
+      console.error('Failed to restore version:', error);
+      notify.error('Failed to restore this version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const renderRestorePreview = (preview: RestorePreview) => {
+    const current: VisitContent = {
+      agenda: visit?.agenda || '',
+      debrief: visit?.debrief || '',
+      notes: visit?.notes || [],
+    };
+    const fieldLabels: Record<keyof VisitContent, string> = { agenda: 'Agenda', debrief: 'Debrief', notes: 'Notes' };
+    const describe = (content: VisitContent, field: keyof VisitContent): string => {
+      if (field === 'notes') {
+        return content.notes.length === 0
+          ? '(no notes)'
+          : content.notes.map(note => `• ${stripHtmlAndTruncate(note.text, 80)}`).join('\n');
+      }
+      return stripHtmlAndTruncate(toEventText(content[field]), 300) || '(empty)';
+    };
+
+    return (
+      <div className="border rounded-lg p-4 space-y-3 bg-muted/30">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <div className="font-medium">Restore {preview.label}</div>
+            <div className="text-xs text-muted-foreground">
+              Content as of {preview.asOf.toLocaleString()} · undoes {preview.undoneEventCount} later edit{preview.undoneEventCount !== 1 ? 's' : ''}
+            </div>
+          </div>
+        </div>
+        {preview.changedFields.length === 0 ? (
+          <div className="text-sm text-muted-foreground">The visit already matches this version.</div>
+        ) : (
+          <div className="space-y-3">
+            {preview.changedFields.map(field => (
+              <div key={field} className="text-xs space-y-1">
+                <div className="font-medium text-sm">{fieldLabels[field]}</div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <div className="p-2 rounded bg-red-500/10 whitespace-pre-wrap">
+                    <span className="font-medium text-red-600">Current:</span> {describe(current, field)}
+                  </div>
+                  <div className="p-2 rounded bg-green-500/10 whitespace-pre-wrap">
+                    <span className="font-medium text-green-600">Restored:</span> {describe(preview.content, field)}
+                  </div>
+                </div>
+              </div>
+            ))}
+            {!preview.fromStoredContent && (
+              <div className="text-xs text-muted-foreground">
+                Edit history stores plain text, so restored fields lose their formatting.
+              </div>
+            )}
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setRestorePreview(null)} disabled={isRestoring}>
+            Cancel
+          </Button>
+          {preview.changedFields.length > 0 && (
+            <Button size="sm" onClick={applyRestore} disabled={isRestoring}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              {isRestoring ? 'Restoring...' : 'Restore this version'}
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Events carry the editor's uid; prefer their current profile name over the stored one
+  const getEditorName = (event: VersionEventDoc): string => {
+    const editor = users.find(u => u.uid === event.userId);
+    return editor?.username || editor?.email || event.userName || 'Unknown User';
+  };
+
   const renderEvent = (event: VersionEventDoc, index: number) => {
     try {
       // Convert VersionEventDoc to VersionEvent format for the utility function
@@ -218,7 +485,7 @@ const VersionHistoryPopup: React.FC<VersionHistoryPopupProps> = ({
         userId: event.userId,
         userName: event.userName,
         timestamp: firestoreTimestampToDate(event.timestamp) || new Date(),
-        metadata: {}
+        metadata: event.metadata || {}
       };
       const formatted = formatVersionEvent(versionEvent);
       return (
@@ -233,20 +500,13 @@ const VersionHistoryPopup: React.FC<VersionHistoryPopupProps> = ({
                 <div className="font-medium text-sm">{formatted.title}</div>
                 <div className="text-xs text-muted-foreground mt-1">{formatted.description}</div>
                 
-                {/* Show detailed diff preview */}
-                {event.beforeValue || event.afterValue ? (
-                  <div className="mt-2 p-2 bg-muted/50 rounded text-xs">
-                    {event.beforeValue && (
-                      <div className="text-red-600 mb-1">
-                        <span className="font-medium">Before:</span> {stripHtmlAndTruncate(event.beforeValue, 150)}
-                      </div>
-                    )}
-                    {event.afterValue && (
-                      <div className="text-green-600">
-                        <span className="font-medium">After:</span> {stripHtmlAndTruncate(event.afterValue, 150)}
-                      </div>
-                    )}
-                  </div>
+                {/* Show the word-level diff; detail edits already read as "Field: old → new" */}
+                {event.type !== 'visit_edit' && (event.beforeValue || event.afterValue) ? (
+                  <TextDiffView
+                    before={toEventText(event.beforeValue)}
+                    after={toEventText(event.afterValue)}
+                    className="mt-2 p-2 bg-muted/50 rounded text-xs max-h-48 overflow-y-auto"
+                  />
                 ) : null}
               </div>
             </div>
@@ -258,12 +518,23 @@ const VersionHistoryPopup: React.FC<VersionHistoryPopupProps> = ({
           <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
             <div className="flex items-center gap-1">
               <User className="h-3 w-3" />
-              {formatted.user}
+              {getEditorName(event)}
             </div>
             <div className="flex items-center gap-1">
               <Clock className="h-3 w-3" />
               {isValidTimestamp(event.timestamp) ? formatTimestamp(event.timestamp) : '-'}
             </div>
+            {canRestore && isValidTimestamp(event.timestamp) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-6 px-2 text-xs"
+                onClick={() => previewRestore(firestoreTimestampToDate(event.timestamp), `version after this ${formatted.title.toLowerCase()}`)}
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Restore
+              </Button>
+            )}
           </div>
         </div>
       );
@@ -304,17 +575,25 @@ const VersionHistoryPopup: React.FC<VersionHistoryPopupProps> = ({
         <Card className="w-full max-w-4xl max-h-[80vh] overflow-hidden bg-background border shadow-lg">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
             <CardTitle className="text-xl font-semibold">Version History</CardTitle>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={onClose}
-              className="h-8 w-8 p-0"
-            >
-              <X className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center gap-2">
+              {canCompare && (
+                <Button variant="outline" size="sm" onClick={toggleCompare}>
+                  <Columns2 className="h-4 w-4 mr-1" />
+                  {isComparing ? 'Back to history' : 'Compare versions'}
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onClose}
+                className="h-8 w-8 p-0"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
           </CardHeader>
         
-        <CardContent className="space-y-6 max-h-[60vh] overflow-y-auto">
+        <CardContent ref={contentRef} className="space-y-6 max-h-[60vh] overflow-y-auto">
           {isLoading && (
             <div className="flex items-center justify-center py-8">
               <div className="text-muted-foreground">Loading version history...</div>
@@ -327,8 +606,12 @@ const VersionHistoryPopup: React.FC<VersionHistoryPopupProps> = ({
             </div>
           )}
           
-          {!isLoading && hasData && (
+          {!isLoading && isComparing && canCompare && renderCompare()}
+
+          {!isLoading && hasData && !(isComparing && canCompare) && (
             <div className="space-y-6">
+              {restorePreview && renderRestorePreview(restorePreview)}
+
               {/* Recent Edits Section */}
               {recentEvents && recentEvents.length > 0 && (
                 <div>
@@ -370,8 +653,22 @@ const VersionHistoryPopup: React.FC<VersionHistoryPopupProps> = ({
                                 <div className="text-sm text-muted-foreground">{snapshot.summary}</div>
                               </div>
                             </div>
-                            <div className="text-sm text-muted-foreground">
+                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
                               {isValidTimestamp(snapshot.createdAt) ? formatTimestamp(snapshot.createdAt) : '-'}
+                              {canRestore && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 px-2 text-xs"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    previewRestore(getSnapshotAsOf(snapshot), snapshot.title, snapshot.content);
+                                  }}
+                                >
+                                  <RotateCcw className="h-3 w-3 mr-1" />
+                                  Restore
+                                </Button>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -0,0 +1,394 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { MessageSquare, CheckCircle2, RotateCcw, Reply, Trash2 } from 'lucide-react'
+import { auth } from '@/firebase'
+import { usePermissionsStore } from '@/store/permissionsStore'
+import { hasUnreadFeedback, useVisitComments, type VisitComments as VisitCommentsState } from '@/hooks/useVisitComments'
+import { notify } from '@/utils/notify'
+import { timestampToDate } from '@/types/firestore'
+import type { VisitCommentDoc, VisitDoc } from '@/types/firestore'
+
+interface Person {
+  uid: string
+  name: string
+}
+
+interface VisitCommentsProps {
+  feedback: VisitCommentsState
+  users: Array<{ uid: string; email?: string; username?: string }>
+}
+
+const MAX_COMMENT_LENGTH = 5000
+const MAX_SUGGESTIONS = 6
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Highlight @Name for the people we can name; other text is left as typed
+const renderCommentText = (text: string, names: string[]): React.ReactNode => {
+  if (names.length === 0) return text
+  const pattern = new RegExp(`(@(?:${names.map(escapeRegExp).join('|')}))`, 'g')
+  return text.split(pattern).map((part, index) => (
+    index % 2 === 1
+      ? <span key={index} className="font-medium text-primary">{part}</span>
+      : <React.Fragment key={index}>{part}</React.Fragment>
+  ))
+}
+
+interface CommentComposerProps {
+  people: Person[]
+  placeholder: string
+  submitLabel: string
+  onSubmit: (text: string, mentionUids: string[]) => Promise<void>
+  onCancel?: () => void
+  autoFocus?: boolean
+}
+
+// Textarea with @mention suggestions from the people who can be named
+const CommentComposer: React.FC<CommentComposerProps> = ({ people, placeholder, submitLabel, onSubmit, onCancel, autoFocus }) => {
+  const [text, setText] = useState('')
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null)
+  const [isPosting, setIsPosting] = useState(false)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  const suggestions = useMemo(() => {
+    if (mentionQuery === null) return []
+    const term = mentionQuery.toLowerCase()
+    return people.filter(person => person.name.toLowerCase().includes(term)).slice(0, MAX_SUGGESTIONS)
+  }, [people, mentionQuery])
+
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = /(^|\s)@([^\s@]*)$/.exec(value.slice(0, caret))
+    setMentionQuery(match ? match[2] : null)
+  }
+
+  const insertMention = (person: Person) => {
+    const textarea = textareaRef.current
+    const caret = textarea?.selectionStart ?? text.length
+    const before = text.slice(0, caret).replace(/@([^\s@]*)$/, `@${person.name} `)
+    const next = before + text.slice(caret)
+    setText(next)
+    setMentionQuery(null)
+    requestAnimationFrame(() => {
+      textarea?.focus()
+      textarea?.setSelectionRange(before.length, before.length)
+    })
+  }
+
+  const handleSubmit = async () => {
+    const trimmed = text.trim()
+    if (!trimmed) return
+    const mentionUids = Array.from(new Set(
+      people.filter(person => trimmed.includes(`@${person.name}`)).map(person => person.uid)
+    ))
+    setIsPosting(true)
+    try {
+      await onSubmit(trimmed, mentionUids)
+      setText('')
+      setMentionQuery(null)
+    } catch (error) {
+      console.error('Failed to post comment', error)
+      notify.error('Failed to post comment.')
+    } finally {
+      setIsPosting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={text}
+          maxLength={MAX_COMMENT_LENGTH}
+          autoFocus={autoFocus}
+          rows={2}
+          placeholder={placeholder}
+          className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+          onChange={(e) => {
+            setText(e.target.value)
+            updateMentionQuery(e.target.value, e.target.selectionStart ?? e.target.value.length)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setMentionQuery(null)
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault()
+              handleSubmit()
+            }
+          }}
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 right-0 top-full z-10 mt-1 rounded-md border bg-popover shadow-md">
+            {suggestions.map(person => (
+              <button
+                key={person.uid}
+                type="button"
+                className="block w-full px-3 py-1.5 text-left text-sm hover:bg-accent"
+                onMouseDown={(e) => {
+                  // Keep focus in the textarea
+                  e.preventDefault()
+                  insertMention(person)
+                }}
+              >
+                @{person.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isPosting}>Cancel</Button>
+        )}
+        <Button type="button" size="sm" onClick={handleSubmit} disabled={isPosting || !text.trim()}>
+          {isPosting ? 'Posting…' : submitLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Threaded cluster feedback for a visit. Threads can be resolved and
+ * reopened; the signed-in user's unread comments are marked read once the
+ * panel is on screen.
+ */
+const VisitComments: React.FC<VisitCommentsProps> = ({ feedback, users }) => {
+  const { userId, isAdmin } = usePermissionsStore()
+  const { comments, isLoading, unreadCount, markRead, addComment, setResolved, deleteComment } = feedback
+  const [showResolved, setShowResolved] = useState(false)
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Everyone we can name: readable profiles plus anyone who has commented
+  const people = useMemo(() => {
+    const byUid = new Map<string, string>()
+    comments.forEach(comment => byUid.set(comment.authorUid, comment.authorName))
+    users.forEach(user => byUid.set(user.uid, user.username || user.email || user.uid))
+    return Array.from(byUid, ([uid, name]) => ({ uid, name }))
+      .filter(person => person.uid !== userId && !!person.name)
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }, [comments, users, userId])
+
+  const authorName = useMemo(() => {
+    const me = users.find(user => user.uid === userId)
+    return me?.username || me?.email || auth.currentUser?.email || 'Unknown'
+  }, [users, userId])
+
+  const nameFor = (uid: string) => (uid === userId ? 'you' : people.find(person => person.uid === uid)?.name || 'someone')
+
+  const mentionNames = useMemo(
+    () => [...people.map(person => person.name), authorName].sort((a, b) => b.length - a.length),
+    [people, authorName]
+  )
+
+  const threads = useMemo(() => {
+    const replies = new Map<string, VisitCommentDoc[]>()
+    comments.forEach(comment => {
+      if (!comment.parentId) return
+      replies.set(comment.parentId, [...(replies.get(comment.parentId) || []), comment])
+    })
+    return comments
+      .filter(comment => !comment.parentId)
+      .map(root => ({ root, replies: replies.get(root.id) || [] }))
+  }, [comments])
+
+  const openThreads = threads.filter(thread => !thread.root.resolved)
+  const resolvedCount = threads.length - openThreads.length
+  const visibleThreads = showResolved ? threads : openThreads
+
+  // Mark comments read while the panel is on screen
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element || unreadCount === 0) return
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        markRead()
+      }
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [unreadCount, markRead])
+
+  // Links to #feedback open the page scrolled to the panel
+  useEffect(() => {
+    if (!isLoading && window.location.hash === '#feedback') {
+      containerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+    }
+  }, [isLoading])
+
+  const handleResolve = async (commentId: string, resolved: boolean) => {
+    try {
+      await setResolved(commentId, resolved)
+    } catch (error) {
+      console.error('Failed to update thread', error)
+      notify.error(resolved ? 'Failed to resolve thread.' : 'Failed to reopen thread.')
+    }
+  }
+
+  const handleDelete = async (comment: VisitCommentDoc) => {
+    if (!window.confirm('Delete this comment?')) return
+    try {
+      await deleteComment(comment.id)
+    } catch (error) {
+      console.error('Failed to delete comment', error)
+      notify.error('Failed to delete comment.')
+    }
+  }
+
+  const renderComment = (comment: VisitCommentDoc, canDelete: boolean) => {
+    const createdAt = timestampToDate(comment.createdAt)
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">{comment.authorName}</span>
+            {createdAt && ` · ${createdAt.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}`}
+          </div>
+          {canDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => handleDelete(comment)}
+              aria-label="Delete comment"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+        <p className="text-sm whitespace-pre-wrap break-words">{renderCommentText(comment.text, mentionNames)}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div id="feedback" ref={containerRef} className="scroll-mt-20">
+      <Card className="mt-6">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              Feedback
+              {unreadCount > 0 && <Badge variant="info">{unreadCount} new</Badge>}
+            </CardTitle>
+            {resolvedCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => setShowResolved(prev => !prev)}>
+                {showResolved ? 'Hide resolved' : `Show resolved (${resolvedCount})`}
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="py-4 text-center text-sm text-muted-foreground">Loading…</div>
+          ) : visibleThreads.length === 0 ? (
+            <div className="py-4 text-center text-sm text-muted-foreground">
+              {threads.length === 0 ? 'No feedback yet.' : 'All threads are resolved.'}
+            </div>
+          ) : (
+            visibleThreads.map(({ root, replies }) => (
+              <div key={root.id} className={`rounded-md border p-3 space-y-3 ${root.resolved ? 'opacity-70' : ''}`}>
+                {renderComment(root, (isAdmin || root.authorUid === userId) && replies.length === 0)}
+                {replies.length > 0 && (
+                  <div className="space-y-3 border-l-2 pl-3">
+                    {replies.map(reply => (
+                      <div key={reply.id}>{renderComment(reply, isAdmin || reply.authorUid === userId)}</div>
+                    ))}
+                  </div>
+                )}
+                {replyingTo === root.id ? (
+                  <CommentComposer
+                    people={people}
+                    placeholder="Reply… type @ to mention someone"
+                    submitLabel="Reply"
+                    autoFocus
+                    onCancel={() => setReplyingTo(null)}
+                    onSubmit={async (text, mentionUids) => {
+                      await addComment(text, { authorName, mentionUids, parentId: root.id })
+                      setReplyingTo(null)
+                    }}
+                  />
+                ) : (
+                  <div className="flex items-center justify-between gap-2">
+                    {root.resolved ? (
+                      <span className="text-xs text-muted-foreground">
+                        Resolved{root.resolvedByUid ? ` by ${nameFor(root.resolvedByUid)}` : ''}
+                      </span>
+                    ) : <span />}
+                    <div className="flex gap-1">
+                      {!root.resolved && (
+                        <Button variant="ghost" size="sm" onClick={() => setReplyingTo(root.id)}>
+                          <Reply className="h-4 w-4 mr-1" />
+                          Reply
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => handleResolve(root.id, !root.resolved)}>
+                        {root.resolved ? <RotateCcw className="h-4 w-4 mr-1" /> : <CheckCircle2 className="h-4 w-4 mr-1" />}
+                        {root.resolved ? 'Reopen' : 'Resolve'}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+          <CommentComposer
+            people={people}
+            placeholder="Leave feedback… type @ to mention someone"
+            submitLabel="Comment"
+            onSubmit={(text, mentionUids) => addComment(text, { authorName, mentionUids })}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+interface UnreadCommentsBadgeProps {
+  visitId: string
+  onClick: (e: React.MouseEvent) => void
+}
+
+// Unread feedback count for a visit; hidden when there is nothing new
+export const UnreadCommentsBadge: React.FC<UnreadCommentsBadgeProps> = ({ visitId, onClick }) => {
+  const { enabled, unreadCount, mentionsMe } = useVisitComments(visitId)
+  if (!enabled || unreadCount === 0) return null
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={mentionsMe ? 'You were mentioned in new feedback' : `${unreadCount} new feedback comment${unreadCount === 1 ? '' : 's'}`}
+      className="flex-shrink-0 ml-2"
+    >
+      <Badge variant={mentionsMe ? 'destructive' : 'info'} className="gap-1">
+        <MessageSquare className="h-3 w-3" />
+        {mentionsMe ? '@' : ''}{unreadCount}
+      </Badge>
+    </button>
+  )
+}
+
+interface NewFeedbackBadgeProps {
+  visit: Pick<VisitDoc, 'id' | 'feedbackSummary'>
+  readMarkers: Map<string, Date>
+  onClick: (e: React.MouseEvent) => void
+}
+
+// Flags unread feedback from the visit's feedback summary, for cards in a list
+// that do not subscribe to the comments themselves
+export const NewFeedbackBadge: React.FC<NewFeedbackBadgeProps> = ({ visit, readMarkers, onClick }) => {
+  const { userId } = usePermissionsStore()
+  if (!hasUnreadFeedback(visit, readMarkers, userId)) return null
+  return (
+    <button type="button" onClick={onClick} title="New feedback" className="flex-shrink-0 ml-2">
+      <Badge variant="info" className="gap-1">
+        <MessageSquare className="h-3 w-3" />
+        New
+      </Badge>
+    </button>
+  )
+}
+
+export default VisitComments
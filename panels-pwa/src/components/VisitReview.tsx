@@ -0,0 +1,165 @@
+import React, { useState } from 'react'
+import { format } from 'date-fns'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { CheckCircle2, Send, Undo2, Lock } from 'lucide-react'
+import { REVIEW_STATE_BADGES, REVIEW_STATE_LABELS, getReviewState, useVisitReview } from '@/hooks/useVisitReview'
+import { notify } from '@/utils/notify'
+import { timestampToDate } from '@/types/firestore'
+import type { VisitDoc } from '@/types/firestore'
+
+const MAX_REVIEW_COMMENT_LENGTH = 2000
+
+type ReviewVisit = Pick<VisitDoc, 'id' | 'filledByUid' | 'reviewState' | 'reviewComment' | 'reviewedAt' | 'reviewSubmittedAt'>
+
+// Drafts carry no badge so untouched visits look as they always have
+export const ReviewStateBadge: React.FC<{ visit: Pick<VisitDoc, 'reviewState'>; className?: string }> = ({ visit, className }) => {
+  const state = getReviewState(visit)
+  if (state === 'draft') return null
+  return (
+    <Badge variant={REVIEW_STATE_BADGES[state]} className={className}>
+      {REVIEW_STATE_LABELS[state]}
+    </Badge>
+  )
+}
+
+interface ReviewActionsProps {
+  visit: ReviewVisit
+  onChange?: () => void
+}
+
+// Approve or return an awaiting visit, or reopen an approved one; reviewers only
+export const ReviewActions: React.FC<ReviewActionsProps> = ({ visit, onChange }) => {
+  const { canReview, approve, returnForChanges } = useVisitReview()
+  const [isReturning, setIsReturning] = useState(false)
+  const [comment, setComment] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const state = getReviewState(visit)
+
+  if (!canReview(visit) || (state !== 'awaiting_review' && state !== 'approved')) return null
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsSaving(true)
+    try {
+      await action()
+      notify.success(success)
+      setIsReturning(false)
+      setComment('')
+      onChange?.()
+    } catch (error) {
+      console.error('Failed to update review', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to update review.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isReturning) {
+    return (
+      <div className="w-full space-y-2">
+        <textarea
+          value={comment}
+          maxLength={MAX_REVIEW_COMMENT_LENGTH}
+          autoFocus
+          rows={2}
+          placeholder={state === 'approved' ? 'Why is this being reopened?' : 'What needs to change?'}
+          className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+          onChange={(e) => setComment(e.target.value)}
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setIsReturning(false)} disabled={isSaving}>Cancel</Button>
+          <Button
+            variant="primary"
+            size="primary-sm"
+            onClick={() => run(() => returnForChanges(visit.id, comment), 'Returned for changes')}
+            disabled={isSaving || !comment.trim()}
+          >
+            {isSaving ? 'Saving…' : 'Return'}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {state === 'awaiting_review' && (
+        <Button variant="primary" size="primary-sm" onClick={() => run(() => approve(visit.id), 'Debrief approved')} disabled={isSaving}>
+          <CheckCircle2 className="h-4 w-4 mr-1" /> Approve
+        </Button>
+      )}
+      <Button variant="outline" size="sm" onClick={() => setIsReturning(true)} disabled={isSaving}>
+        <Undo2 className="h-4 w-4 mr-1" /> {state === 'approved' ? 'Reopen' : 'Return'}
+      </Button>
+    </div>
+  )
+}
+
+interface VisitReviewPanelProps {
+  visit: ReviewVisit
+  canSubmit: boolean // The user may edit the visit and its debrief has text
+  onChange?: () => void
+}
+
+/**
+ * Review state of a visit's debrief with the actions open to the user:
+ * submitting a draft or returned debrief, or reviewing a submitted one.
+ */
+const VisitReviewPanel: React.FC<VisitReviewPanelProps> = ({ visit, canSubmit, onChange }) => {
+  const { submit } = useVisitReview()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const state = getReviewState(visit)
+  const submittedAt = timestampToDate(visit.reviewSubmittedAt)
+  const reviewedAt = timestampToDate(visit.reviewedAt)
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      await submit(visit.id)
+      notify.success('Submitted for review')
+      onChange?.()
+    } catch (error) {
+      console.error('Failed to submit for review', error)
+      notify.error((error as { message?: string } | undefined)?.message || 'Failed to submit for review.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4 space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-medium">Review</span>
+            <Badge variant={REVIEW_STATE_BADGES[state]}>{REVIEW_STATE_LABELS[state]}</Badge>
+            {state === 'awaiting_review' && submittedAt && (
+              <span className="text-xs text-muted-foreground">since {format(submittedAt, 'd MMM, h:mm a')}</span>
+            )}
+            {state === 'approved' && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Lock className="h-3 w-3" /> Editing locked{reviewedAt ? ` · ${format(reviewedAt, 'd MMM')}` : ''}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {(state === 'draft' || state === 'returned') && canSubmit && (
+              <Button variant="primary" size="primary-sm" onClick={handleSubmit} disabled={isSubmitting}>
+                <Send className="h-4 w-4 mr-1" /> {isSubmitting ? 'Submitting…' : 'Submit for review'}
+              </Button>
+            )}
+            <ReviewActions visit={visit} onChange={onChange} />
+          </div>
+        </div>
+        {state === 'returned' && visit.reviewComment && (
+          <div className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-sm whitespace-pre-wrap">
+            {visit.reviewComment}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default VisitReviewPanel
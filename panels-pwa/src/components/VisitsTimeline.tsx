@@ -7,7 +7,7 @@ import { useFirestoreCollection } from '@/hooks/useFirestoreCollection'
 import { useSharedVisitsListener } from '@/hooks/useSharedVisitsListener'
 import { useUsersForVisits } from '@/hooks/useUsersForVisits'
 import { visitsCollection, ccisCollection } from '@/firebase/paths'
-import { updateDocument } from '@/firebase/firestoreService'
+import { updateDocument, visitEditStamp } from '@/firebase/firestoreService'
 import { notify } from '@/utils/notify'
 import { stripHtmlForPreview, stripHtmlForEditing, truncate } from '@/utils/htmlUtils'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -57,7 +57,7 @@ const TimelineCard: React.FC<{
   const { canEditVisit } = usePermissionsStore()
   
   // Use centralized permission check
-  const canEdit = canEditVisit(v.id, v.filledByUid)
+  const canEdit = canEditVisit(v.id, v.filledByUid, v.cci_id)
   
   const initialAgenda = useMemo(() => stripHtmlForEditing(v.agenda), [v.agenda])
   const initialDebrief = useMemo(() => stripHtmlForEditing(v.debrief), [v.debrief])
@@ -87,7 +87,7 @@ const TimelineCard: React.FC<{
 
 
   const save = async (fields: Partial<VisitDoc>) => {
-    try { await updateDocument(visitsCollection(), v.id, fields); onUpdated(); notify.success('Saved') } catch { notify.error('Save failed') }
+    try { await updateDocument(visitsCollection(), v.id, { ...fields, ...visitEditStamp() }); onUpdated(); notify.success('Saved') } catch { notify.error('Save failed') }
   }
 
   useEffect(() => {
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { SegmentedControl } from '@/components/ui/segmented-control'
+import { useYearlyTrends } from '@/hooks/useInsightData'
+import { InsightFreshnessBadge } from '@/components/InsightFreshnessBadge'
+import { TrendingDown, TrendingUp, Minus } from 'lucide-react'
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+interface BarChartProps {
+  values: Array<{ label: string; value: number }>
+  max: number
+  formatValue: (value: number) => string
+  barClassName: string
+}
+
+// Lightweight column chart rendered with flex boxes (no charting dependency)
+const BarChart: React.FC<BarChartProps> = ({ values, max, formatValue, barClassName }) => (
+  <div className="flex items-end gap-1 sm:gap-2 h-40">
+    {values.map(({ label, value }) => {
+      const height = max > 0 ? Math.max((value / max) * 100, value > 0 ? 2 : 0) : 0
+      return (
+        <div key={label} className="flex-1 min-w-0 flex flex-col items-center justify-end h-full" title={`${label}: ${formatValue(value)}`}>
+          <div className="text-[9px] sm:text-[10px] text-muted-foreground mb-1">{value > 0 ? formatValue(value) : ''}</div>
+          <div className={`w-full rounded-t-sm ${barClassName}`} style={{ height: `${height}%` }} />
+          <div className="text-[9px] sm:text-xs text-muted-foreground mt-1">{label}</div>
+        </div>
+      )
+    })}
+  </div>
+)
+
+const GrowthIndicator: React.FC<{ growth: number }> = ({ growth }) => {
+  if (growth > 0) {
+    return (
+      <span className="inline-flex items-center gap-1 text-success">
+        <TrendingUp className="h-4 w-4" />+{growth.toFixed(1)}%
+      </span>
+    )
+  }
+  if (growth < 0) {
+    return (
+      <span className="inline-flex items-center gap-1 text-destructive">
+        <TrendingDown className="h-4 w-4" />{growth.toFixed(1)}%
+      </span>
+    )
+  }
+  return (
+    <span className="inline-flex items-center gap-1 text-muted-foreground">
+      <Minus className="h-4 w-4" />0%
+    </span>
+  )
+}
+
+const YearlyTrendsView: React.FC = () => {
+  const { data: yearlyData, loading: isLoading, error } = useYearlyTrends(5)
+  const [selectedYear, setSelectedYear] = useState<number | null>(null)
+
+  // Default to the most recent year once data arrives
+  useEffect(() => {
+    if (selectedYear === null && yearlyData.length > 0) {
+      setSelectedYear(yearlyData[0].year)
+    }
+  }, [yearlyData, selectedYear])
+
+  const yearData = yearlyData.find(entry => entry.year === selectedYear) ?? yearlyData[0]
+
+  const monthlyVisits = (yearData?.monthlyBreakdown ?? []).map(entry => ({
+    label: MONTH_LABELS[entry.month - 1] ?? String(entry.month),
+    value: entry.visitCount
+  }))
+  const monthlyCompletion = (yearData?.monthlyBreakdown ?? []).map(entry => ({
+    label: MONTH_LABELS[entry.month - 1] ?? String(entry.month),
+    value: entry.completionRate
+  }))
+  const maxVisits = Math.max(0, ...monthlyVisits.map(entry => entry.value))
+  const totalVisits = monthlyVisits.reduce((sum, entry) => sum + entry.value, 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              Yearly Trends
+              <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
+                Pre-aggregated
+              </span>
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Visits and completion rate per month of the fiscal year, with quarter-over-quarter growth.
+              <span className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mt-1">
+                Refreshed a few minutes after visits change
+                <InsightFreshnessBadge
+                  lastUpdated={yearData?.lastUpdated}
+                  lastUpdatedDisplay={yearData?.lastUpdatedDisplay}
+                />
+              </span>
+            </CardDescription>
+          </div>
+          {yearlyData.length > 1 && (
+            <SegmentedControl
+              ariaLabel="Year"
+              size="sm"
+              options={yearlyData.map(entry => ({ label: entry.yearLabel, value: String(entry.year) }))}
+              value={String(yearData?.year ?? '')}
+              onChange={(v) => setSelectedYear(Number(v))}
+            />
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-8 text-center text-muted-foreground">Loading…</div>
+        ) : error ? (
+          <div className="py-8 text-center">
+            <div className="text-destructive mb-2">Failed to load yearly trends.</div>
+            <div className="text-sm text-muted-foreground">
+              {error.message.includes('No insight data available')
+                ? 'The Cloud Function may not have run yet to populate the data.'
+                : 'Please try again later.'}
+            </div>
+          </div>
+        ) : !yearData ? (
+          <div className="py-8 text-center text-muted-foreground">No yearly trends found.</div>
+        ) : (
+          <div className="space-y-8">
+            <section>
+              <div className="flex items-baseline justify-between mb-3">
+                <h3 className="text-sm font-semibold">Visits per month</h3>
+                <span className="text-xs text-muted-foreground">{totalVisits} visits in {yearData.yearLabel}</span>
+              </div>
+              <BarChart
+                values={monthlyVisits}
+                max={maxVisits}
+                formatValue={(value) => value.toString()}
+                barClassName="bg-primary"
+              />
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold mb-3">Completion rate per month</h3>
+              <BarChart
+                values={monthlyCompletion}
+                max={100}
+                formatValue={(value) => `${Math.round(value)}%`}
+                barClassName="bg-success"
+              />
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold mb-3">Quarterly growth</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Quarter</TableHead>
+                    <TableHead className="text-right">Visits</TableHead>
+                    <TableHead className="text-right">Growth vs previous quarter</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {yearData.quarterlyTrends.map(quarter => (
+                    <TableRow key={quarter.quarter}>
+                      <TableCell className="font-medium">Q{quarter.quarter}</TableCell>
+                      <TableCell className="text-right">{quarter.visitCount}</TableCell>
+                      <TableCell className="text-right">
+                        <GrowthIndicator growth={quarter.growth} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </section>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default YearlyTrendsView
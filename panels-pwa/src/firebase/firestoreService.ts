@@ -1,4 +1,4 @@
-import { db } from '../firebase';
+import { auth, db } from '../firebase';
 import { 
   collection, 
   addDoc, 
@@ -9,15 +9,18 @@ import {
   setDoc, 
   query, 
   where, 
+  serverTimestamp,
   Query, 
-  CollectionReference
+  CollectionReference,
+  Timestamp
 } from 'firebase/firestore';
 import type { 
   FirestoreDocument, 
   QueryCondition, 
   CreateData, 
   UpdateData, 
-  DocumentWithId
+  DocumentWithId,
+  VisitDoc
 } from '../types/firestore';
 
 /**
@@ -98,6 +101,17 @@ export const updateDocument = async <T extends FirestoreDocument>(
   }
 };
 
+/**
+ * Fields every visit edit must carry. The security rules check both against
+ * the request, so lastEditedByUid is the real editor and updatedAt the server
+ * time of the write; captureVersionHistory attributes its events from them.
+ */
+export const visitEditStamp = (): Pick<VisitDoc, 'lastEditedByUid' | 'updatedAt'> => ({
+  lastEditedByUid: auth.currentUser?.uid,
+  // Resolved to a Timestamp by the server when the write lands
+  updatedAt: serverTimestamp() as unknown as Timestamp,
+});
+
 // Generic function to set a document with a specific ID (create or update)
 export const setDocument = async <T extends FirestoreDocument>(
   collectionPath: string, 
@@ -27,6 +27,40 @@ export const visitEventDocument = (visitId: string, eventId: string) => `visits/
 export const visitSnapshotsCollection = (visitId: string) => `visits/${visitId}/snapshots`;
 export const visitSnapshotDocument = (visitId: string, snapshotId: string) => `visits/${visitId}/snapshots/${snapshotId}`;
 
+// /visits/{visitId}/comments/{commentId} - Cluster feedback threads
+export const visitCommentsCollection = (visitId: string) => `visits/${visitId}/comments`;
+export const visitCommentDocument = (visitId: string, commentId: string) => `visits/${visitId}/comments/${commentId}`;
+
+// /visits/{visitId}/action_items/{itemId} - Follow-up action items
+export const visitActionItemsCollection = (visitId: string) => `visits/${visitId}/action_items`;
+export const visitActionItemDocument = (visitId: string, itemId: string) => `visits/${visitId}/action_items/${itemId}`;
+// Collection group id for querying action items across visits
+export const actionItemsCollectionGroup = () => 'action_items';
+
+// /users/{userId}/comment_reads/{visitId} - When a user last read a visit's comments
+export const commentReadsCollection = (userId: string) => `users/${userId}/comment_reads`;
+export const commentReadDocument = (userId: string, visitId: string) => `users/${userId}/comment_reads/${visitId}`;
+
+// /insight_jobs/{jobId} - Admin-triggered insight recompute jobs
+export const insightJobsCollection = () => 'insight_jobs';
+export const insightJobDocument = (jobId: string) => `insight_jobs/${jobId}`;
+
+// /backups/{backupId} - Manifest of visit backups and exports
+export const backupsCollection = () => 'backups';
+export const backupDocument = (backupId: string) => `backups/${backupId}`;
+
+// /signup_allowlist/{value} - Email addresses and domains approved at sign-up
+export const signupAllowlistCollection = () => 'signup_allowlist';
+export const signupAllowlistDocument = (value: string) => `signup_allowlist/${value}`;
+
+// /teams/{supervisorUid} - A supervisor's team of EMs, one per supervisor
+export const teamsCollection = () => 'teams';
+export const teamDocument = (supervisorUid: string) => `teams/${supervisorUid}`;
+
+// /audit_log/{entryId} - Append-only record of privileged admin actions
+export const auditLogCollection = () => 'audit_log';
+export const auditLogDocument = (entryId: string) => `audit_log/${entryId}`;
+
 // Add other path generation functions here as your application grows.
 // For example:
 // /posts/{postId}
@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  addDoc,
+  collection,
+  collectionGroup,
+  deleteDoc,
+  doc,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { actionItemsCollectionGroup, visitActionItemDocument, visitActionItemsCollection } from '../firebase/paths';
+import { buildScopedQueries } from '@/services/visitAccess';
+import { usePermissionsStore } from '../store/permissionsStore';
+import { useVisitAccessScope } from './useVisitAccessScope';
+import { timestampToDate } from '@/types/firestore';
+import type { ActionItemDoc, VisitDoc } from '@/types/firestore';
+
+const OPEN_ITEMS_LIMIT = 200;
+
+export interface ActionItemInput {
+  text: string;
+  ownerUid: string;
+  ownerName: string;
+  dueDate: Date | null;
+  source?: ActionItemDoc['source'];
+}
+
+// Due before today (items are due by the end of their day)
+export const isOverdue = (item: Pick<ActionItemDoc, 'dueDate' | 'status'>, now: Date = new Date()) => {
+  const due = timestampToDate(item.dueDate);
+  if (!due || item.status !== 'open') return false;
+  const endOfDue = new Date(due);
+  endOfDue.setHours(23, 59, 59, 999);
+  return endOfDue.getTime() < now.getTime();
+};
+
+// Soonest due first; items without a due date go last
+export const compareActionItems = (a: ActionItemDoc, b: ActionItemDoc) => {
+  const aDue = timestampToDate(a.dueDate)?.getTime() ?? Number.MAX_SAFE_INTEGER;
+  const bDue = timestampToDate(b.dueDate)?.getTime() ?? Number.MAX_SAFE_INTEGER;
+  if (aDue !== bDue) return aDue - bDue;
+  return (timestampToDate(a.createdAt)?.getTime() ?? 0) - (timestampToDate(b.createdAt)?.getTime() ?? 0);
+};
+
+// Text of the unchecked task list items in TipTap HTML
+export const extractOpenTasks = (html?: string): string[] => {
+  if (!html || !html.includes('taskItem')) return [];
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(parsed.querySelectorAll('li[data-type="taskItem"]'))
+    .filter(item => item.getAttribute('data-checked') !== 'true')
+    .map(item => (item.querySelector(':scope > div')?.textContent ?? item.textContent ?? '').trim())
+    .filter(text => text.length > 0);
+};
+
+/**
+ * Action items on one visit with the actions to add and delete them.
+ * Items copy the visit's owner and CCI when created.
+ */
+export const useVisitActionItems = (visit: Pick<VisitDoc, 'id' | 'filledByUid' | 'cci_id' | 'cci_name'> | null | undefined) => {
+  const { userId, isAdmin, isSupervisor, teamMemberUids, canEditVisit } = usePermissionsStore();
+  const visitId = visit?.id;
+  const enabled = !!visitId && visitId !== 'new' && !!userId;
+  // Mirrors canManageActionItems in firestore.rules
+  const canManage = enabled && !!visit && (
+    isAdmin ||
+    visit.filledByUid === userId ||
+    canEditVisit(visit.id, visit.filledByUid, visit.cci_id) ||
+    (isSupervisor && teamMemberUids.includes(visit.filledByUid))
+  );
+  const [items, setItems] = useState<ActionItemDoc[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+
+  useEffect(() => {
+    if (!enabled || !visitId) {
+      setItems([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    const unsubscribe = onSnapshot(
+      query(collection(db, visitActionItemsCollection(visitId)), orderBy('createdAt')),
+      (snapshot) => {
+        setItems(snapshot.docs.map(itemDoc => (
+          { id: itemDoc.id, ...itemDoc.data({ serverTimestamps: 'estimate' }) } as ActionItemDoc
+        )));
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('useVisitActionItems: Error loading action items:', error);
+        setIsLoading(false);
+      }
+    );
+    return unsubscribe;
+  }, [enabled, visitId]);
+
+  const addItem = useCallback(async (input: ActionItemInput) => {
+    if (!enabled || !visit || !userId) return;
+    await addDoc(collection(db, visitActionItemsCollection(visit.id)), {
+      visitId: visit.id,
+      filledByUid: visit.filledByUid,
+      cci_id: visit.cci_id,
+      cci_name: visit.cci_name,
+      text: input.text.trim(),
+      ownerUid: input.ownerUid,
+      ownerName: input.ownerName,
+      dueDate: input.dueDate ? Timestamp.fromDate(input.dueDate) : null,
+      status: 'open',
+      source: input.source ?? 'manual',
+      createdByUid: userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+  }, [enabled, visit, userId]);
+
+  const deleteItem = useCallback(async (itemId: string) => {
+    if (!enabled || !visitId) return;
+    await deleteDoc(doc(db, visitActionItemDocument(visitId, itemId)));
+  }, [enabled, visitId]);
+
+  return { enabled, canManage, items, isLoading, addItem, deleteItem };
+};
+
+export type VisitActionItems = ReturnType<typeof useVisitActionItems>;
+
+// Marking done or reopening is open to the item's owner as well as visit editors
+export const setActionItemStatus = async (item: Pick<ActionItemDoc, 'id' | 'visitId'>, status: ActionItemDoc['status'], userId: string | null) => {
+  await updateDoc(doc(db, visitActionItemDocument(item.visitId, item.id)), {
+    status,
+    completedByUid: status === 'done' ? userId : null,
+    completedAt: status === 'done' ? serverTimestamp() : null,
+    updatedAt: serverTimestamp()
+  });
+};
+
+/**
+ * Open action items across every visit the user can read, plus any they
+ * own elsewhere, soonest due first.
+ */
+export const useOpenActionItems = () => {
+  const scope = useVisitAccessScope();
+  const { userId } = usePermissionsStore();
+  const [items, setItems] = useState<ActionItemDoc[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!scope || !userId) {
+      setItems([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    const group = collectionGroup(db, actionItemsCollectionGroup());
+    const constraints = [orderBy('dueDate'), limit(OPEN_ITEMS_LIMIT)];
+    const queries = [
+      ...buildScopedQueries(group, scope, [where('status', '==', 'open')], constraints),
+      query(group, where('ownerUid', '==', userId), where('status', '==', 'open'), ...constraints)
+    ];
+    const results: ActionItemDoc[][] = queries.map(() => []);
+    const loaded = new Set<number>();
+    // A scope spanning many CCIs runs several listeners; drop any overlap
+    const publish = () => {
+      const byPath = new Map<string, ActionItemDoc>();
+      results.flat().forEach(item => byPath.set(`${item.visitId}/${item.id}`, item));
+      setItems(Array.from(byPath.values()).sort(compareActionItems));
+      if (loaded.size === queries.length) setIsLoading(false);
+    };
+    const unsubscribes = queries.map((itemQuery, index) => onSnapshot(
+      itemQuery,
+      (snapshot) => {
+        results[index] = snapshot.docs.map(itemDoc => (
+          { id: itemDoc.id, ...itemDoc.data({ serverTimestamps: 'estimate' }) } as ActionItemDoc
+        ));
+        loaded.add(index);
+        publish();
+      },
+      (error) => {
+        console.error('useOpenActionItems: Error loading action items:', error);
+        loaded.add(index);
+        publish();
+      }
+    ));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [scope, userId]);
+
+  return { items, isLoading };
+};
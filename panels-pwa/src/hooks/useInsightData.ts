@@ -1,14 +1,26 @@
 import { useState, useEffect, useMemo, useRef } from 'react';
 import { collection, query, where, orderBy, limit, getDocs, Timestamp } from 'firebase/firestore';
 import { db } from '@/firebase';
-import type { WeeklyVisitsCountDoc, InsightQueryOptions } from '@/types/insights';
+import type { WeeklyVisitsCountDoc, MonthlySummaryDoc, YearlyTrendsDoc, InsightDoc, InsightQueryOptions } from '@/types/insights';
 import { isFirestoreNetworkError, logFirestoreError } from '@/utils/firestoreErrorHandler';
 
+/**
+ * Pick the most recently recomputed entry from a list of insight rows
+ */
+export const latestInsightUpdate = <T extends { lastUpdated: Date; lastUpdatedDisplay: string }>(entries: T[]): T | null => {
+  return entries.reduce<T | null>((latest, entry) => {
+    if (!latest || entry.lastUpdated.getTime() > latest.lastUpdated.getTime()) {
+      return entry
+    }
+    return latest
+  }, null)
+}
+
 /**
  * Hook for fetching insight data with caching and fallback logic
  */
-export const useInsightData = (options: InsightQueryOptions = {}) => {
-  const [data, setData] = useState<WeeklyVisitsCountDoc[]>([]);
+export const useInsightData = <T extends InsightDoc = WeeklyVisitsCountDoc>(options: InsightQueryOptions = {}) => {
+  const [data, setData] = useState<T[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [lastFetched, setLastFetched] = useState<Date | null>(null);
@@ -71,7 +83,7 @@ export const useInsightData = (options: InsightQueryOptions = {}) => {
       const insightData = snapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data()
-      })) as WeeklyVisitsCountDoc[];
+      })) as T[];
 
       setData(insightData);
       setLastFetched(new Date());
@@ -216,6 +228,8 @@ export const useWeeklyVisitsCount = (weeks: number = 12) => {
 
     return data.map(doc => ({
       weekId: doc.data.weekId,
+      fiscalYear: doc.data.fiscalYear,
+      weekNumber: doc.data.weekNumber,
       weekStart: doc.data.weekStart.toDate(),
       weekEnd: doc.data.weekEnd.toDate(),
       counts: doc.data.counts,
@@ -257,6 +271,82 @@ export const useWeeklyVisitsCount = (weeks: number = 12) => {
   };
 };
 
+/**
+ * Hook for getting monthly summary data specifically
+ */
+export const useMonthlySummary = (months: number = 12) => {
+  const { startDate, endDate } = useMemo(() => {
+    const now = new Date();
+    const end = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
+    const start = new Date(now.getFullYear(), now.getMonth() - (months - 1), 1);
+    return { startDate: start, endDate: end };
+  }, [months]);
+
+  const { data, loading, error, lastFetched, refetch } = useInsightData<MonthlySummaryDoc>({
+    dataType: 'monthly_summary',
+    startDate,
+    endDate,
+    orderBy: 'monthStart',
+    orderDirection: 'desc',
+    limit: months
+  });
+
+  const processedData = useMemo(() => {
+    return data.map(doc => ({
+      monthId: doc.data.monthId,
+      monthStart: doc.data.monthStart.toDate(),
+      monthEnd: doc.data.monthEnd.toDate(),
+      summary: {
+        ...doc.data.summary,
+        topCcis: doc.data.summary.topCcis || [],
+        topUsers: doc.data.summary.topUsers || []
+      },
+      lastUpdated: doc.lastUpdated.toDate(),
+      lastUpdatedDisplay: doc.lastUpdatedDisplay
+    }));
+  }, [data]);
+
+  return {
+    data: processedData,
+    loading,
+    error,
+    lastFetched,
+    refetch
+  };
+};
+
+/**
+ * Hook for getting yearly trends data specifically
+ */
+export const useYearlyTrends = (years: number = 5) => {
+  const { data, loading, error, lastFetched, refetch } = useInsightData<YearlyTrendsDoc>({
+    dataType: 'yearly_trends',
+    orderBy: 'year',
+    orderDirection: 'desc',
+    limit: years
+  });
+
+  const processedData = useMemo(() => {
+    return data.map(doc => ({
+      year: doc.data.year,
+      yearLabel: doc.data.yearLabel || String(doc.data.year),
+      monthlyBreakdown: [...(doc.data.trends.monthlyBreakdown || [])]
+        .sort((a, b) => (a.fiscalMonth ?? a.month) - (b.fiscalMonth ?? b.month)),
+      quarterlyTrends: [...(doc.data.trends.quarterlyTrends || [])].sort((a, b) => a.quarter - b.quarter),
+      lastUpdated: doc.lastUpdated.toDate(),
+      lastUpdatedDisplay: doc.lastUpdatedDisplay
+    }));
+  }, [data]);
+
+  return {
+    data: processedData,
+    loading,
+    error,
+    lastFetched,
+    refetch
+  };
+};
+
 /**
  * Hook for getting user-level statistics from insight data
  */
@@ -1,8 +1,8 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { sharedListenerCache } from '@/services/SharedListenerCache';
 import type { VisitDoc } from '@/types/firestore';
-import useAuthStore from '@/store/authStore';
-import { usePreferencesStore } from '@/store/preferencesStore';
+import type { VisitAccessScope } from '@/services/visitAccess';
+import { useVisitAccessScope } from './useVisitAccessScope';
 
 /**
  * Shared Visit Queries Hook
@@ -35,8 +35,7 @@ interface UseSharedVisitQueriesResult {
  * Main hook for shared visit queries with real-time listeners
  */
 export const useSharedVisitQueries = (options: UseSharedVisitQueriesOptions = {}): UseSharedVisitQueriesResult => {
-  const { user } = useAuthStore();
-  const { seeAllVisits } = usePreferencesStore();
+  const accessScope = useVisitAccessScope();
   
   const [visits, setVisits] = useState<VisitDoc[]>([]);
   const [loading, setLoading] = useState(true);
@@ -47,27 +46,6 @@ export const useSharedVisitQueries = (options: UseSharedVisitQueriesOptions = {}
   const componentIdRef = useRef(`shared-visits-${Math.random().toString(36).substr(2, 9)}`);
   const unsubscribeRef = useRef<(() => void) | null>(null);
   
-  // Check if user is admin
-  const [isAdmin, setIsAdmin] = useState(false);
-  
-  useEffect(() => {
-    const checkAdminStatus = async () => {
-      if (user) {
-        try {
-          const idTokenResult = await user.getIdTokenResult(true);
-          const role = idTokenResult.claims.role as string;
-          setIsAdmin(role === 'Admin');
-        } catch (err) {
-          console.error('Error checking admin status:', err);
-          setIsAdmin(false);
-        }
-      } else {
-        setIsAdmin(false);
-      }
-    };
-    checkAdminStatus();
-  }, [user]);
-
   // Determine the effective date range
   const effectiveDateRange = useMemo(() => {
     if (options.dateRange) {
@@ -82,13 +60,13 @@ export const useSharedVisitQueries = (options: UseSharedVisitQueriesOptions = {}
     return { start: startOfMonth, end: endOfMonth };
   }, [options.dateRange]);
 
-  // Determine the effective user ID
-  const effectiveUserId = useMemo(() => {
-    if (options.userId !== undefined) {
-      return options.userId;
+  // Determine the effective scope; an explicit user ID narrows to their visits
+  const effectiveScope = useMemo((): VisitAccessScope | null => {
+    if (options.userId) {
+      return { kind: 'own', userId: options.userId };
     }
-    return user?.uid || null;
-  }, [options.userId, user?.uid]);
+    return accessScope;
+  }, [options.userId, accessScope]);
 
   // Subscribe to shared listener cache
   useEffect(() => {
@@ -100,15 +78,19 @@ export const useSharedVisitQueries = (options: UseSharedVisitQueriesOptions = {}
       unsubscribeRef.current = null;
     }
 
+    if (!effectiveScope) {
+      setVisits([]);
+      setLoading(false);
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
     // Subscribe to the shared listener cache
     const unsubscribe = sharedListenerCache.subscribe(
       componentId,
-      effectiveUserId,
-      isAdmin,
-      seeAllVisits,
+      effectiveScope,
       effectiveDateRange,
       (data: VisitDoc[]) => {
         setVisits(data);
@@ -135,9 +117,7 @@ export const useSharedVisitQueries = (options: UseSharedVisitQueriesOptions = {}
       }
     };
   }, [
-    effectiveUserId,
-    isAdmin,
-    seeAllVisits,
+    effectiveScope,
     effectiveDateRange.start.getTime(),
     effectiveDateRange.end.getTime(),
     options.onError
@@ -1,8 +1,7 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { sharedListenerCache } from '@/services/SharedListenerCache';
 import type { VisitDoc } from '@/types/firestore';
-import { usePermissionsStore } from '@/store/permissionsStore';
-import { usePreferencesStore } from '@/store/preferencesStore';
+import { useVisitAccessScope } from './useVisitAccessScope';
 
 interface DateRange {
   start: Date;
@@ -38,8 +37,7 @@ export const useSharedVisitsListener = ({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   
-  const { userId, isAdmin } = usePermissionsStore();
-  const { seeAllVisits } = usePreferencesStore();
+  const scope = useVisitAccessScope();
   
   const unsubscribeRef = useRef<(() => void) | null>(null);
   const componentIdRef = useRef<string | undefined>(undefined);
@@ -72,7 +70,7 @@ export const useSharedVisitsListener = ({
   
   // Subscribe to shared listener cache
   useEffect(() => {
-    if (!enabled) {
+    if (!enabled || !scope) {
       setData([]);
       setLoading(false);
       return;
@@ -90,9 +88,7 @@ export const useSharedVisitsListener = ({
     // Subscribe to new listener
     unsubscribeRef.current = sharedListenerCache.subscribe(
       componentIdRef.current!,
-      userId,
-      isAdmin,
-      seeAllVisits,
+      scope,
       dateRange,
       handleDataUpdate,
       handleError
@@ -107,9 +103,7 @@ export const useSharedVisitsListener = ({
     };
   }, [
     enabled,
-    userId,
-    isAdmin,
-    seeAllVisits,
+    scope,
     dateRange.start.getTime(),
     dateRange.end.getTime(),
     handleDataUpdate,
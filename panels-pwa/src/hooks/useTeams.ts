@@ -0,0 +1,76 @@
+import { useEffect, useMemo, useState } from 'react';
+import { collection, doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../firebase';
+import { teamDocument, teamsCollection } from '../firebase/paths';
+import { usePermissionsStore } from '../store/permissionsStore';
+import { usePreferencesStore } from '../store/preferencesStore';
+import type { TeamDoc } from '@/types/firestore';
+
+/**
+ * Teams the signed-in user can filter by: every team for admins, their own
+ * team for supervisors and none for everyone else.
+ */
+export const useTeams = () => {
+  const { userId, isAdmin, isSupervisor } = usePermissionsStore();
+  const [teams, setTeams] = useState<TeamDoc[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId || (!isAdmin && !isSupervisor)) {
+      setTeams([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    const handleError = (error: Error) => {
+      console.error('useTeams: Error loading teams:', error);
+      setIsLoading(false);
+    };
+    const unsubscribe = isAdmin
+      ? onSnapshot(
+          collection(db, teamsCollection()),
+          (snapshot) => {
+            setTeams(snapshot.docs
+              .map(teamDoc => ({ id: teamDoc.id, ...teamDoc.data() } as TeamDoc))
+              .sort((a, b) => (a.name || '').localeCompare(b.name || '')));
+            setIsLoading(false);
+          },
+          handleError
+        )
+      : onSnapshot(
+          doc(db, teamDocument(userId)),
+          (snapshot) => {
+            setTeams(snapshot.exists() ? [{ id: snapshot.id, ...snapshot.data() } as TeamDoc] : []);
+            setIsLoading(false);
+          },
+          handleError
+        );
+    return unsubscribe;
+  }, [userId, isAdmin, isSupervisor]);
+
+  return { teams, isLoading };
+};
+
+/**
+ * The team filter shared by the day, notes and stats views. `teamUids` holds
+ * the selected team's supervisor and members, or null when showing everyone.
+ */
+export const useTeamFilter = () => {
+  const { teams, isLoading } = useTeams();
+  const { teamFilter, setTeamFilter } = usePreferencesStore();
+  // A remembered team that is no longer available falls back to everyone
+  const selectedTeam = teams.find(team => team.id === teamFilter) || null;
+
+  const teamUids = useMemo(
+    () => (selectedTeam ? new Set([selectedTeam.supervisorUid, ...(selectedTeam.memberUids || [])]) : null),
+    [selectedTeam]
+  );
+
+  return {
+    teams,
+    isLoading,
+    teamFilter: selectedTeam ? selectedTeam.id : 'all',
+    setTeamFilter,
+    teamUids
+  };
+};
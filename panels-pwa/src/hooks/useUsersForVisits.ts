@@ -1,6 +1,10 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { userDocument } from '../firebase/paths';
 import { useFirestoreCollection } from './useFirestoreCollection';
 import { useUserData } from './useUserData';
 import useAuthStore from '../store/authStore';
+import { usePermissionsStore } from '../store/permissionsStore';
 import { useState, useEffect } from 'react';
 import type { UserDoc } from '@/types/firestore';
 
@@ -13,7 +17,9 @@ interface User {
 
 export const useUsersForVisits = () => {
   const { user } = useAuthStore();
+  const { isSupervisor, teamMemberUids } = usePermissionsStore();
   const [isAdmin, setIsAdmin] = useState(false);
+  const [teamMembers, setTeamMembers] = useState<User[]>([]);
 
   // Check if user is admin
   useEffect(() => {
@@ -35,6 +41,24 @@ export const useUsersForVisits = () => {
     checkAdminStatus();
   }, [user]);
 
+  // Supervisors may read their team members' profiles, one document each
+  useEffect(() => {
+    if (!isSupervisor || teamMemberUids.length === 0) {
+      setTeamMembers([]);
+      return;
+    }
+    let cancelled = false;
+    Promise.all(teamMemberUids.map(uid => getDoc(doc(db, userDocument(uid)))))
+      .then(snapshots => {
+        if (cancelled) return;
+        setTeamMembers(snapshots
+          .filter(snapshot => snapshot.exists())
+          .map(snapshot => ({ uid: snapshot.id, ...snapshot.data() } as User)));
+      })
+      .catch(err => console.error('Error loading team members:', err));
+    return () => { cancelled = true; };
+  }, [isSupervisor, teamMemberUids]);
+
   // For admins, fetch all users
   const { data: allUsers, isLoading: isLoadingAllUsers, error: allUsersError } = useFirestoreCollection<UserDoc>('users');
   
@@ -49,7 +73,7 @@ export const useUsersForVisits = () => {
     };
   } else {
     return {
-      data: currentUser ? [currentUser] : [],
+      data: currentUser ? [currentUser, ...teamMembers] : teamMembers,
       isLoading: isLoadingCurrentUser,
       error: currentUserError,
     };
@@ -0,0 +1,22 @@
+import { useMemo } from 'react';
+import { usePermissionsStore } from '@/store/permissionsStore';
+import { usePreferencesStore } from '@/store/preferencesStore';
+import { resolveVisitScope, type VisitAccessScope } from '@/services/visitAccess';
+
+const NO_TEAM: string[] = [];
+
+/**
+ * The visit read scope for the signed-in user and their See All toggle.
+ * Pass it to the visit query layer so queries match the security rules.
+ */
+export const useVisitAccessScope = (): VisitAccessScope | null => {
+  const { userId, isAdmin, isSupervisor, assignedCCIs, teamMemberUids, capabilities } = usePermissionsStore();
+  const { seeAllVisits } = usePreferencesStore();
+  const canSeeAllVisits = capabilities.canViewAllVisits;
+  const teamUids = isSupervisor ? teamMemberUids : NO_TEAM;
+
+  return useMemo(
+    () => resolveVisitScope({ userId, isAdmin, canSeeAllVisits, seeAllVisits, assignedCCIs, teamUids }),
+    [userId, isAdmin, canSeeAllVisits, seeAllVisits, assignedCCIs, teamUids]
+  );
+};
@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { commentReadDocument, commentReadsCollection, visitCommentDocument, visitCommentsCollection } from '../firebase/paths';
+import { usePermissionsStore } from '../store/permissionsStore';
+import { timestampToDate } from '@/types/firestore';
+import type { VisitCommentDoc, VisitDoc } from '@/types/firestore';
+
+// The rules cap how many people one comment may mention
+const MAX_MENTIONS = 20;
+
+/**
+ * Cluster feedback on a visit: the live comment list, the signed-in user's
+ * unread count and the actions to post, resolve and delete comments.
+ * Does nothing for users without the canSeeClusterFeedback capability.
+ */
+export const useVisitComments = (visitId: string | null | undefined) => {
+  const { userId, capabilities } = usePermissionsStore();
+  const enabled = !!visitId && visitId !== 'new' && !!userId && capabilities.canSeeClusterFeedback;
+  const [comments, setComments] = useState<VisitCommentDoc[]>([]);
+  const [lastReadAt, setLastReadAt] = useState<Date | null>(null);
+  const [isLoading, setIsLoading] = useState(enabled);
+
+  useEffect(() => {
+    if (!enabled || !visitId) {
+      setComments([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    const unsubscribe = onSnapshot(
+      query(collection(db, visitCommentsCollection(visitId)), orderBy('createdAt')),
+      (snapshot) => {
+        // Estimate server timestamps so a comment just posted sorts last
+        setComments(snapshot.docs.map(commentDoc => (
+          { id: commentDoc.id, ...commentDoc.data({ serverTimestamps: 'estimate' }) } as VisitCommentDoc
+        )));
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('useVisitComments: Error loading comments:', error);
+        setIsLoading(false);
+      }
+    );
+    return unsubscribe;
+  }, [enabled, visitId]);
+
+  useEffect(() => {
+    if (!enabled || !visitId || !userId) {
+      setLastReadAt(null);
+      return;
+    }
+    const unsubscribe = onSnapshot(
+      doc(db, commentReadDocument(userId, visitId)),
+      (snapshot) => setLastReadAt(timestampToDate(snapshot.data({ serverTimestamps: 'estimate' })?.lastReadAt)),
+      (error) => console.error('useVisitComments: Error loading read marker:', error)
+    );
+    return unsubscribe;
+  }, [enabled, visitId, userId]);
+
+  // Comments by others posted since the user last read the thread
+  const unread = useMemo(() => {
+    const readAt = lastReadAt?.getTime() ?? 0;
+    return comments.filter(comment => (
+      comment.authorUid !== userId && (timestampToDate(comment.createdAt)?.getTime() ?? 0) > readAt
+    ));
+  }, [comments, lastReadAt, userId]);
+
+  const mentionsMe = useMemo(
+    () => !!userId && unread.some(comment => (comment.mentionUids || []).includes(userId)),
+    [unread, userId]
+  );
+
+  const markRead = useCallback(async () => {
+    if (!enabled || !visitId || !userId) return;
+    try {
+      await setDoc(doc(db, commentReadDocument(userId, visitId)), { lastReadAt: serverTimestamp() }, { merge: true });
+    } catch (error) {
+      console.error('useVisitComments: Error marking comments read:', error);
+    }
+  }, [enabled, visitId, userId]);
+
+  const addComment = useCallback(async (
+    text: string,
+    options: { authorName: string; mentionUids?: string[]; parentId?: string | null }
+  ) => {
+    if (!enabled || !visitId || !userId) return;
+    await addDoc(collection(db, visitCommentsCollection(visitId)), {
+      visitId,
+      parentId: options.parentId ?? null,
+      authorUid: userId,
+      authorName: options.authorName,
+      text,
+      mentionUids: (options.mentionUids ?? []).slice(0, MAX_MENTIONS),
+      resolved: false,
+      createdAt: serverTimestamp()
+    });
+  }, [enabled, visitId, userId]);
+
+  const setResolved = useCallback(async (commentId: string, resolved: boolean) => {
+    if (!enabled || !visitId) return;
+    await updateDoc(doc(db, visitCommentDocument(visitId, commentId)), {
+      resolved,
+      resolvedByUid: resolved ? userId : null,
+      resolvedAt: resolved ? serverTimestamp() : null
+    });
+  }, [enabled, visitId, userId]);
+
+  const deleteComment = useCallback(async (commentId: string) => {
+    if (!enabled || !visitId) return;
+    await deleteDoc(doc(db, visitCommentDocument(visitId, commentId)));
+  }, [enabled, visitId]);
+
+  return {
+    enabled,
+    comments,
+    isLoading,
+    unreadCount: unread.length,
+    mentionsMe,
+    markRead,
+    addComment,
+    setResolved,
+    deleteComment
+  };
+};
+
+export type VisitComments = ReturnType<typeof useVisitComments>;
+
+/**
+ * When the signed-in user last read each visit's feedback, from one listener
+ * for a whole list of visits. Null until loaded, or without the capability.
+ */
+export const useCommentReadMarkers = () => {
+  const { userId, capabilities } = usePermissionsStore();
+  const enabled = !!userId && capabilities.canSeeClusterFeedback;
+  const [readMarkers, setReadMarkers] = useState<Map<string, Date> | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !userId) {
+      setReadMarkers(null);
+      return;
+    }
+    const unsubscribe = onSnapshot(
+      collection(db, commentReadsCollection(userId)),
+      (snapshot) => {
+        const markers = new Map<string, Date>();
+        snapshot.docs.forEach(readDoc => {
+          const readAt = timestampToDate(readDoc.data({ serverTimestamps: 'estimate' }).lastReadAt);
+          if (readAt) markers.set(readDoc.id, readAt);
+        });
+        setReadMarkers(markers);
+      },
+      (error) => console.error('useCommentReadMarkers: Error loading read markers:', error)
+    );
+    return unsubscribe;
+  }, [enabled, userId]);
+
+  return readMarkers;
+};
+
+// Whether a visit has feedback by someone else since the user last read it
+export const hasUnreadFeedback = (
+  visit: Pick<VisitDoc, 'id' | 'feedbackSummary'>,
+  readMarkers: Map<string, Date>,
+  userId: string | null
+) => {
+  const summary = visit.feedbackSummary;
+  const lastCommentAt = timestampToDate(summary?.lastCommentAt)?.getTime();
+  if (!summary || !lastCommentAt || summary.lastAuthorUid === userId) return false;
+  return lastCommentAt > (readMarkers.get(visit.id)?.getTime() ?? 0);
+};
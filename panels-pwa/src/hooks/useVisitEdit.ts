@@ -1,8 +1,9 @@
 import { useState, useCallback } from 'react'
 import useAuthStore from '@/store/authStore'
+import { usePermissionsStore } from '@/store/permissionsStore'
 import { useUserCciLinks } from '@/hooks/useUserCciLinks'
 import { useFirestoreCollection } from '@/hooks/useFirestoreCollection'
-import { addDocument, updateDocument } from '@/firebase/firestoreService'
+import { addDocument, updateDocument, visitEditStamp } from '@/firebase/firestoreService'
 import { notify } from '@/utils/notify'
 import type { VisitDoc, CCIDoc, CreateData, UpdateData } from '@/types/firestore'
 import { Timestamp } from 'firebase/firestore'
@@ -41,18 +42,20 @@ export const useVisitEdit = (initialVisit?: VisitDoc | null) => {
     return userCciLinks.cci_id.includes(cciId) ? 'EM' : 'Visitor'
   }, [userCciLinks?.cci_id])
   
-  // Business Logic: Check if user can edit a visit (only the creator can edit)
+  // Business Logic: Check if user can edit a visit (the creator, or the
+  // assigned EM at a CCI that allows shared editing)
+  const canEditCCIVisits = usePermissionsStore(state => state.canEditCCIVisits)
   const canEditVisit = useCallback((visit: VisitDoc | null): boolean => {
     if (!visit || !user?.uid) return false
-    return visit.filledByUid === user.uid
-  }, [user?.uid])
+    return visit.filledByUid === user.uid || canEditCCIVisits(visit.cci_id)
+  }, [user?.uid, canEditCCIVisits])
   
   // Business Logic: Validate edit permissions
   const validateEditPermissions = useCallback((visit: VisitDoc | null): Record<string, string> => {
     const errors: Record<string, string> = {}
     
     if (!canEditVisit(visit)) {
-      errors.permission = 'You can only edit visits that you created'
+      errors.permission = 'You can only edit visits that you created or that are at your CCIs'
     }
     
     return errors
@@ -184,6 +187,7 @@ export const useVisitEdit = (initialVisit?: VisitDoc | null) => {
         personMet: 'none',
         quality: 'none',
         visitHours: 'none',
+        ...visitEditStamp(),
         ...visitData // Allow override of any fields
       }
 
@@ -224,14 +228,16 @@ export const useVisitEdit = (initialVisit?: VisitDoc | null) => {
       }
       
       // Apply business rules to updates
-      const updateData: UpdateData<VisitDoc> = { ...updates }
+      const updateData: UpdateData<VisitDoc> = { ...updates, ...visitEditStamp() }
       
       // NEW BUSINESS RULE: Always recalculate filledBy status based on current user's CCI allocation
-      // This ensures that if the user is the allocated EM for the CCI, they are tagged as EM, otherwise Visitor
+      // This ensures that if the user is the allocated EM for the CCI, they are tagged as EM, otherwise Visitor.
+      // filledBy describes whoever filled the visit in, so co-editors keep the stored value.
+      const isOwnVisit = !!user && currentVisit?.filledByUid === user.uid
       if (updates.cci_id !== undefined) {
-        updateData.filledBy = getFilledByStatus(updates.cci_id)
+        if (isOwnVisit) updateData.filledBy = getFilledByStatus(updates.cci_id)
         updateData.cci_name = getCciName(updates.cci_id)
-      } else if (currentVisit?.cci_id) {
+      } else if (isOwnVisit && currentVisit?.cci_id) {
         // Even if CCI is not being updated, recalculate filledBy status for the current CCI
         updateData.filledBy = getFilledByStatus(currentVisit.cci_id)
       }
@@ -265,7 +271,7 @@ export const useVisitEdit = (initialVisit?: VisitDoc | null) => {
       setState(prev => ({ ...prev, isSaving: false }))
       throw error
     }
-  }, [validateVisitEdit, getFilledByStatus, getCciName, getVisitStatus])
+  }, [user, validateVisitEdit, getFilledByStatus, getCciName, getVisitStatus])
 
   // Start editing mode
   const startEditing = useCallback((visit?: VisitDoc | null) => {
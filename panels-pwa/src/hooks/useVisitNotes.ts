@@ -1,5 +1,5 @@
 import { useState, useCallback } from 'react'
-import { updateDocument } from '@/firebase/firestoreService'
+import { updateDocument, visitEditStamp } from '@/firebase/firestoreService'
 import { visitsCollection } from '@/firebase/paths'
 import { notify } from '@/utils/notify'
 import type { VisitDoc } from '@/types/firestore'
@@ -28,7 +28,7 @@ export const useVisitNotes = (visit: VisitDoc | null) => {
       }
 
       const updatedNotes = [...(visit.notes || []), newNote]
-      await updateDocument(visitsCollection(), visit.id, { notes: updatedNotes })
+      await updateDocument(visitsCollection(), visit.id, { notes: updatedNotes, ...visitEditStamp() })
       
       setNoteDraft('')
       setIsAddingNote(false)
@@ -48,7 +48,7 @@ export const useVisitNotes = (visit: VisitDoc | null) => {
         note.id === noteId ? { ...note, text: text.trim() } : note
       )
       
-      await updateDocument(visitsCollection(), visit.id, { notes: updatedNotes })
+      await updateDocument(visitsCollection(), visit.id, { notes: updatedNotes, ...visitEditStamp() })
       
       setEditingNoteId(null)
       setEditingNoteText('')
@@ -65,7 +65,7 @@ export const useVisitNotes = (visit: VisitDoc | null) => {
 
     try {
       const updatedNotes = (visit.notes || []).filter(note => note.id !== noteId)
-      await updateDocument(visitsCollection(), visit.id, { notes: updatedNotes })
+      await updateDocument(visitsCollection(), visit.id, { notes: updatedNotes, ...visitEditStamp() })
       
       notify.success('Note deleted successfully')
     } catch (error) {
@@ -1,10 +1,11 @@
 import useSWR from 'swr';
-import { useMemo, useState, useCallback, useEffect } from 'react';
+import { useMemo, useState, useCallback } from 'react';
 import { visitQueryManager, type VisitQueryOptions } from '@/services/VisitQueryManager';
+import { visitScopeKey } from '@/services/visitAccess';
 import type { VisitDoc } from '@/types/firestore';
 import type { DocumentSnapshot } from 'firebase/firestore';
 import useAuthStore from '@/store/authStore';
-import { usePreferencesStore } from '@/store/preferencesStore';
+import { useVisitAccessScope } from './useVisitAccessScope';
 
 /**
  * Centralized hook for all visit queries
@@ -24,48 +25,24 @@ interface UseVisitQueriesOptions extends VisitQueryOptions {
  */
 export const useVisitQueries = (options: UseVisitQueriesOptions = {}) => {
   const { user } = useAuthStore();
-  const { seeAllVisits } = usePreferencesStore();
-  
-  // Check if user is admin
-  const [isAdmin, setIsAdmin] = useState(false);
-  
-  useEffect(() => {
-    const checkAdminStatus = async () => {
-      if (user) {
-        try {
-          const idTokenResult = await user.getIdTokenResult(true);
-          const role = idTokenResult.claims.role as string;
-          setIsAdmin(role === 'Admin');
-        } catch (err) {
-          console.error('Error checking admin status:', err);
-          setIsAdmin(false);
-        }
-      } else {
-        setIsAdmin(false);
-      }
-    };
-    checkAdminStatus();
-  }, [user]);
+  // Scope from the permissions store, which RequireAuth fills from the token claims
+  const scope = useVisitAccessScope();
 
   // Inject user context into options for automatic permissions
   const optionsWithUserContext = useMemo(() => ({
     ...options,
-    _user: user,
-    _isAdmin: isAdmin,
-    _respectPermissions: options._respectPermissions !== false, // Default to true
-    _seeAllVisits: seeAllVisits // Include See All setting
-  }), [options, user, isAdmin, seeAllVisits]);
+    _scope: scope,
+    _respectPermissions: options._respectPermissions !== false // Default to true
+  }), [options, scope]);
   
   // Generate cache key for SWR (including user context)
   const cacheKey = useMemo(() => {
-    // Only generate a cache key if we have user context and admin status is determined
-    // This prevents errors during the initial admin status check
-    if (!user) {
+    // Only generate a cache key once the user's scope is known
+    // This prevents queries the security rules would reject
+    if (!user || !scope) {
       return null; // Don't fetch if no user
     }
     
-    // Wait for admin status to be determined (isAdmin starts as false, then gets updated)
-    // We need to ensure we don't make queries before admin status is known
     const keyParts = [
       'visit-queries',
       optionsWithUserContext.startDate?.toISOString() || 'all',
@@ -78,12 +55,11 @@ export const useVisitQueries = (options: UseVisitQueriesOptions = {}) => {
       optionsWithUserContext.orderDirection || 'desc',
       // Include user context for permission-aware caching
       user.uid,
-      isAdmin ? 'admin' : 'user',
-      seeAllVisits ? 'seeAll' : 'seeOwn'
+      visitScopeKey(scope)
     ];
     
     return keyParts.join('|');
-  }, [optionsWithUserContext, user, isAdmin, seeAllVisits]);
+  }, [optionsWithUserContext, user, scope]);
 
   const { data, error, isLoading, mutate } = useSWR(
     cacheKey,
@@ -273,10 +249,11 @@ export const usePaginatedVisits = (
  */
 export const usePreloadVisits = () => {
   const { user } = useAuthStore();
+  const scope = useVisitAccessScope();
   
   const preload = useCallback(async () => {
-    await visitQueryManager.preloadCommonQueries(user?.uid);
-  }, [user?.uid]);
+    await visitQueryManager.preloadCommonQueries(scope, user?.uid);
+  }, [scope, user?.uid]);
 
   return { preload };
 };
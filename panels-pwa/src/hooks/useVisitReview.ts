@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from 'react';
+import { limit, onSnapshot, orderBy, serverTimestamp, where, type Timestamp } from 'firebase/firestore';
+import { updateDocument, visitEditStamp } from '@/firebase/firestoreService';
+import { visitsCollection } from '@/firebase/paths';
+import { buildScopedVisitQueries } from '@/services/visitAccess';
+import { usePermissionsStore } from '@/store/permissionsStore';
+import { useVisitAccessScope } from '@/hooks/useVisitAccessScope';
+import { timestampToDate } from '@/types/firestore';
+import type { VisitDoc, VisitReviewState } from '@/types/firestore';
+
+const REVIEW_QUEUE_LIMIT = 100;
+
+export const REVIEW_STATE_LABELS: Record<VisitReviewState, string> = {
+  draft: 'Draft',
+  awaiting_review: 'Awaiting review',
+  returned: 'Returned',
+  approved: 'Approved'
+};
+
+export const REVIEW_STATE_BADGES: Record<VisitReviewState, 'secondary' | 'warning' | 'destructive' | 'success'> = {
+  draft: 'secondary',
+  awaiting_review: 'warning',
+  returned: 'destructive',
+  approved: 'success'
+};
+
+// Visits created before the review step have no reviewState and count as drafts
+export const getReviewState = (visit: Pick<VisitDoc, 'reviewState'> | null | undefined): VisitReviewState =>
+  visit?.reviewState || 'draft';
+
+/**
+ * Debrief review for the signed-in user: who may review a visit and the
+ * submit, approve, return and reopen transitions. The security rules enforce
+ * the same transitions; captureVersionHistory records each one.
+ */
+export const useVisitReview = () => {
+  const { userId, isAdmin, teamMemberUids, capabilities } = usePermissionsStore();
+
+  // Admins review every visit; supervisors review their team's visits
+  const canReview = useCallback((visit: Pick<VisitDoc, 'filledByUid'> | null | undefined) => {
+    if (!visit || !userId || !capabilities.canApproveDebriefs) return false;
+    return isAdmin || teamMemberUids.includes(visit.filledByUid);
+  }, [userId, isAdmin, teamMemberUids, capabilities.canApproveDebriefs]);
+
+  const submit = useCallback(async (visitId: string) => {
+    await updateDocument<VisitDoc>(visitsCollection(), visitId, {
+      reviewState: 'awaiting_review',
+      reviewSubmittedByUid: userId,
+      // Resolved to a Timestamp by the server when the write lands
+      reviewSubmittedAt: serverTimestamp() as unknown as Timestamp,
+      ...visitEditStamp()
+    });
+  }, [userId]);
+
+  const decide = useCallback(async (visitId: string, reviewState: 'approved' | 'returned', comment: string | null) => {
+    await updateDocument<VisitDoc>(visitsCollection(), visitId, {
+      reviewState,
+      reviewedByUid: userId,
+      reviewedAt: serverTimestamp() as unknown as Timestamp,
+      reviewComment: comment,
+      ...visitEditStamp()
+    });
+  }, [userId]);
+
+  const approve = useCallback((visitId: string) => decide(visitId, 'approved', null), [decide]);
+
+  // Returning an approved visit reopens it for editing
+  const returnForChanges = useCallback(
+    (visitId: string, comment: string) => decide(visitId, 'returned', comment.trim() || null),
+    [decide]
+  );
+
+  return { canReview, submit, approve, returnForChanges };
+};
+
+/**
+ * Live list of the visits the user can read in one review state, newest
+ * first. A scope spanning many CCIs runs several listeners; their results
+ * are merged without duplicates.
+ */
+export const useReviewQueue = (reviewState: VisitReviewState) => {
+  const scope = useVisitAccessScope();
+  const [visits, setVisits] = useState<VisitDoc[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!scope) {
+      setVisits([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    const queries = buildScopedVisitQueries(
+      scope,
+      [where('reviewState', '==', reviewState)],
+      [orderBy('date', 'desc'), limit(REVIEW_QUEUE_LIMIT)]
+    );
+    const results: VisitDoc[][] = queries.map(() => []);
+    const loaded = new Set<number>();
+    const publish = () => {
+      const byId = new Map<string, VisitDoc>();
+      results.flat().forEach(visit => byId.set(visit.id, visit));
+      setVisits(Array.from(byId.values()).sort(
+        (a, b) => (timestampToDate(b.date)?.getTime() ?? 0) - (timestampToDate(a.date)?.getTime() ?? 0)
+      ));
+      if (loaded.size === queries.length) setIsLoading(false);
+    };
+    const unsubscribes = queries.map((visitQuery, index) => onSnapshot(
+      visitQuery,
+      (snapshot) => {
+        results[index] = snapshot.docs.map(visitDoc => ({ ...visitDoc.data(), id: visitDoc.id } as VisitDoc));
+        loaded.add(index);
+        publish();
+      },
+      (error) => {
+        console.error('useReviewQueue: Error loading visits:', error);
+        loaded.add(index);
+        publish();
+      }
+    ));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [scope, reviewState]);
+
+  return { visits, isLoading };
+};
@@ -6,13 +6,11 @@ import {
   Timestamp,
   where,
   orderBy,
-  query,
-  limit,
-  collection
+  limit
 } from 'firebase/firestore';
-import { db } from '@/firebase';
 import type { VisitDoc } from '@/types/firestore';
 import { persistentCache } from './PersistentCache';
+import { buildScopedVisitQueries, visitScopeKey, type VisitAccessScope } from './visitAccess';
 
 interface DateRange {
   start: Date;
@@ -21,16 +19,16 @@ interface DateRange {
 
 interface ListenerCacheEntry {
   // Core data
-  query: Query;
+  queries: Query[]; // More than one when a scope spans many CCIs
   unsubscribe: Unsubscribe;
   data: VisitDoc[];
+  partials: Array<VisitDoc[] | undefined>; // Latest results per query
   lastUpdated: number;
   
   // Metadata
   dateRange: DateRange;
-  userId: string | null;
-  isAdmin: boolean;
-  seeAllVisits: boolean;
+  scope: VisitAccessScope;
+  scopeKey: string;
   
   // TTL and lifecycle
   ttl: number; // Time to live in milliseconds
@@ -70,49 +68,36 @@ class SharedListenerCache {
    * Generate a cache key for a listener based on its parameters
    */
   private generateCacheKey(
-    userId: string | null,
-    isAdmin: boolean,
-    seeAllVisits: boolean,
+    scopeKey: string,
     dateRange: DateRange
   ): string {
     const startStr = dateRange.start.toISOString().split('T')[0];
     const endStr = dateRange.end.toISOString().split('T')[0];
-    return `${userId || 'anonymous'}_${isAdmin ? 'admin' : 'user'}_${seeAllVisits ? 'seeAll' : 'own'}_${startStr}_${endStr}`;
+    return `${scopeKey}_${startStr}_${endStr}`;
   }
   
   /**
-   * Create a Firestore query for visits within a date range
+   * Create the Firestore queries for visits within a date range.
+   * Queries are scoped to what the security rules let this user read.
    */
-  private createVisitQuery(
-    userId: string | null,
-    isAdmin: boolean,
-    seeAllVisits: boolean,
+  private createVisitQueries(
+    scope: VisitAccessScope,
     dateRange: DateRange
-  ): Query {
+  ): Query[] {
     const startTimestamp = Timestamp.fromDate(dateRange.start);
     const endTimestamp = Timestamp.fromDate(dateRange.end);
     
-    let baseQuery = query(
-      collection(db, 'visits'),
-      where('date', '>=', startTimestamp),
-      where('date', '<=', endTimestamp),
-      orderBy('date', 'desc'),
-      limit(1000) // Reasonable limit for performance
-    );
-    
-    // Apply user-specific filtering if not admin and not seeing all visits
-    if (!isAdmin && !seeAllVisits && userId) {
-      baseQuery = query(
-        collection(db, 'visits'),
+    return buildScopedVisitQueries(
+      scope,
+      [
         where('date', '>=', startTimestamp),
-        where('date', '<=', endTimestamp),
-        where('filledByUid', '==', userId),
+        where('date', '<=', endTimestamp)
+      ],
+      [
         orderBy('date', 'desc'),
-        limit(1000)
-      );
-    }
-    
-    return baseQuery;
+        limit(1000) // Reasonable limit for performance
+      ]
+    );
   }
   
   /**
@@ -168,9 +153,7 @@ class SharedListenerCache {
    */
   subscribe(
     componentId: string,
-    userId: string | null,
-    isAdmin: boolean,
-    seeAllVisits: boolean,
+    scope: VisitAccessScope,
     dateRange: DateRange,
     callback: (data: VisitDoc[]) => void,
     onError?: (error: Error) => void
@@ -184,12 +167,7 @@ class SharedListenerCache {
     });
     
     // Find or create appropriate listener
-    const listenerKey = this.findOrCreateListener(
-      userId,
-      isAdmin,
-      seeAllVisits,
-      dateRange
-    );
+    const listenerKey = this.findOrCreateListener(scope, dateRange);
     
     const listener = this.listeners.get(listenerKey)!;
     listener.subscribers.add(componentId);
@@ -210,17 +188,15 @@ class SharedListenerCache {
    * Find existing listener or create new one for the given parameters
    */
   private findOrCreateListener(
-    userId: string | null,
-    isAdmin: boolean,
-    seeAllVisits: boolean,
+    scope: VisitAccessScope,
     dateRange: DateRange
   ): string {
+    const scopeKey = visitScopeKey(scope);
+    
     // First, try to find an existing listener that can cover this range
     for (const [key, listener] of this.listeners) {
       if (
-        listener.userId === userId &&
-        listener.isAdmin === isAdmin &&
-        listener.seeAllVisits === seeAllVisits &&
+        listener.scopeKey === scopeKey &&
         listener.isActive &&
         !this.needsRangeExtension(listener.dateRange, dateRange)
       ) {
@@ -233,15 +209,14 @@ class SharedListenerCache {
     }
     
     // No compatible listener found, create new one
-    return this.createNewListener(userId, isAdmin, seeAllVisits, dateRange);
+    return this.createNewListener(scope, scopeKey, dateRange);
   }
   
   /**
    * Determine appropriate TTL based on data characteristics
    */
   private calculateTTL(
-    _userId: string | null,
-    isAdmin: boolean,
+    scope: VisitAccessScope,
     dateRange: DateRange,
     subscriberCount: number
   ): number {
@@ -250,8 +225,8 @@ class SharedListenerCache {
     const isHistoricalData = !isRecentData;
     const hasMultipleSubscribers = subscriberCount > 1;
     
-    // Admin data needs fresher updates
-    if (isAdmin) {
+    // Admin (all visits) data needs fresher updates
+    if (scope.kind === 'all') {
       return this.TTL_STRATEGY.ADMIN_DATA;
     }
     
@@ -281,7 +256,7 @@ class SharedListenerCache {
     const isRecentData = listener.dateRange.start.getTime() > (now - this.RECENT_DATA_THRESHOLD);
     
     // Persistent cache can be longer-lived
-    if (listener.isAdmin) {
+    if (listener.scope.kind === 'all') {
       return 30 * 60 * 1000; // 30 minutes for admin data
     }
     
@@ -296,9 +271,8 @@ class SharedListenerCache {
    * Create a new listener for the given parameters
    */
   private createNewListener(
-    userId: string | null,
-    isAdmin: boolean,
-    seeAllVisits: boolean,
+    scope: VisitAccessScope,
+    scopeKey: string,
     dateRange: DateRange
   ): string {
     // Use initial range for new listeners to start small
@@ -307,21 +281,21 @@ class SharedListenerCache {
       ? this.extendDateRange(initialRange, dateRange)
       : initialRange;
     
-    const cacheKey = this.generateCacheKey(userId, isAdmin, seeAllVisits, actualRange);
-    const query = this.createVisitQuery(userId, isAdmin, seeAllVisits, actualRange);
+    const cacheKey = this.generateCacheKey(scopeKey, actualRange);
+    const queries = this.createVisitQueries(scope, actualRange);
     
     // Calculate appropriate TTL
-    const ttl = this.calculateTTL(userId, isAdmin, actualRange, 1);
+    const ttl = this.calculateTTL(scope, actualRange, 1);
     
     const listener: ListenerCacheEntry = {
-      query,
+      queries,
       unsubscribe: () => {}, // Will be set below
       data: [],
+      partials: [],
       lastUpdated: Date.now(),
       dateRange: actualRange,
-      userId,
-      isAdmin,
-      seeAllVisits,
+      scope,
+      scopeKey,
       ttl,
       subscribers: new Set(),
       isActive: true,
@@ -339,17 +313,8 @@ class SharedListenerCache {
       console.log(`Loaded ${cachedData.length} visits from persistent cache for ${cacheKey}`);
     }
     
-    // Set up the actual Firestore listener
-    listener.unsubscribe = onSnapshot(
-      query,
-      (snapshot: QuerySnapshot) => {
-        this.handleSnapshotUpdate(listener, snapshot);
-      },
-      (error) => {
-        console.error('Firestore listener error:', error);
-        this.handleListenerError(listener, error);
-      }
-    );
+    // Set up the actual Firestore listeners
+    listener.unsubscribe = this.listen(listener, 'Firestore listener error:');
     
     this.listeners.set(cacheKey, listener);
     return cacheKey;
@@ -364,33 +329,34 @@ class SharedListenerCache {
   ): void {
     const newRange = this.extendDateRange(listener.dateRange, requestedRange);
     
-    // Create new query with extended range
-    const newQuery = this.createVisitQuery(
-      listener.userId,
-      listener.isAdmin,
-      listener.seeAllVisits,
-      newRange
-    );
-    
     // Unsubscribe from old listener
     listener.unsubscribe();
     
-    // Update listener with new range and query
+    // Update listener with new range and queries
     listener.dateRange = newRange;
-    listener.query = newQuery;
+    listener.queries = this.createVisitQueries(listener.scope, newRange);
+    listener.partials = [];
     listener.hasExtendedRange = true;
     
     // Set up new listener
-    listener.unsubscribe = onSnapshot(
-      newQuery,
+    listener.unsubscribe = this.listen(listener, 'Extended Firestore listener error:');
+  }
+  
+  /**
+   * Attach snapshot listeners for each of the entry's queries
+   */
+  private listen(listener: ListenerCacheEntry, errorLabel: string): Unsubscribe {
+    const unsubscribes = listener.queries.map((visitQuery, index) => onSnapshot(
+      visitQuery,
       (snapshot: QuerySnapshot) => {
-        this.handleSnapshotUpdate(listener, snapshot);
+        this.handleSnapshotUpdate(listener, index, snapshot);
       },
       (error) => {
-        console.error('Extended Firestore listener error:', error);
+        console.error(errorLabel, error);
         this.handleListenerError(listener, error);
       }
-    );
+    ));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
   }
   
   /**
@@ -398,24 +364,26 @@ class SharedListenerCache {
    */
   private handleSnapshotUpdate(
     listener: ListenerCacheEntry,
+    queryIndex: number,
     snapshot: QuerySnapshot
   ): void {
-    const newData = snapshot.docs.map(doc => ({
+    listener.partials[queryIndex] = snapshot.docs.map(doc => ({
       id: doc.id,
       ...doc.data()
     })) as VisitDoc[];
     
+    // Wait until every query has reported before publishing
+    if (listener.partials.filter(Boolean).length < listener.queries.length) {
+      return;
+    }
+    const newData = this.mergePartials(listener.partials);
+    
     listener.data = newData;
     listener.lastUpdated = Date.now();
     listener.isInitialLoad = false;
     
     // Save to persistent cache
-    const cacheKey = this.generateCacheKey(
-      listener.userId,
-      listener.isAdmin,
-      listener.seeAllVisits,
-      listener.dateRange
-    );
+    const cacheKey = this.generateCacheKey(listener.scopeKey, listener.dateRange);
     const persistentKey = `listener_${cacheKey}`;
     const persistentTTL = this.calculatePersistentTTL(listener);
     persistentCache.set(persistentKey, newData, persistentTTL);
@@ -430,6 +398,23 @@ class SharedListenerCache {
     }
   }
   
+  /**
+   * Combine per-query results, newest first, without duplicates
+   */
+  private mergePartials(partials: Array<VisitDoc[] | undefined>): VisitDoc[] {
+    if (partials.length === 1) {
+      return partials[0] || [];
+    }
+    const byId = new Map<string, VisitDoc>();
+    for (const partial of partials) {
+      for (const visit of partial || []) {
+        byId.set(visit.id, visit);
+      }
+    }
+    const toTime = (visit: VisitDoc) => (visit.date instanceof Timestamp ? visit.date.toMillis() : visit.date.getTime());
+    return Array.from(byId.values()).sort((a, b) => toTime(b) - toTime(a));
+  }
+  
   /**
    * Handle listener errors
    */
@@ -491,8 +476,7 @@ class SharedListenerCache {
       // Recalculate TTL for active listeners with multiple subscribers
       if (listener.subscribers.size > 1 && !isExpired) {
         const newTTL = this.calculateTTL(
-          listener.userId,
-          listener.isAdmin,
+          listener.scope,
           listener.dateRange,
           listener.subscribers.size
         );
@@ -1,19 +1,17 @@
 import { 
-  collection, 
-  query, 
   where, 
   orderBy, 
   limit, 
   startAfter, 
   getDocs, 
   Timestamp,
-  QueryConstraint,
-  DocumentSnapshot
+  DocumentSnapshot,
+  type QueryFieldFilterConstraint,
+  type QueryNonFilterConstraint
 } from 'firebase/firestore';
-import { db } from '@/firebase';
 import type { VisitDoc, DocumentWithId } from '@/types/firestore';
 import { timestampToDate } from '@/types/firestore';
-import type { User } from 'firebase/auth';
+import { buildScopedVisitQueries, visitScopeKey, type VisitAccessScope } from './visitAccess';
 
 /**
  * Centralized Visit Query Manager
@@ -49,10 +47,8 @@ export interface VisitQueryOptions {
   forceRefresh?: boolean;
   
   // User context for permissions (internal use)
-  _user?: User | null;
-  _isAdmin?: boolean;
+  _scope?: VisitAccessScope | null; // What the rules let this user read
   _respectPermissions?: boolean; // Default: true
-  _seeAllVisits?: boolean; // See All toggle setting
 }
 
 export interface VisitQueryResult {
@@ -75,36 +71,19 @@ class VisitQueryManager {
   private readonly MAX_LIMIT = 1000;
 
   /**
-   * Apply permissions logic to query options
+   * Resolve the access scope the query must carry.
+   * Firestore rejects queries that could return visits the rules deny, so
+   * non-admin queries are always narrowed to the user's own visits and, with
+   * See All on, their assigned CCIs.
    */
-  private applyPermissions(options: VisitQueryOptions): VisitQueryOptions {
-    // If permissions are disabled, return as-is
+  private resolveScope(options: VisitQueryOptions): VisitAccessScope {
+    // If permissions are disabled, query broadly (admin tooling only)
     if (options._respectPermissions === false) {
-      return options;
+      return { kind: 'all' };
     }
 
-    // If no user context, return as-is (will likely fail at Firestore level)
-    if (!options._user) {
-      return options;
-    }
-
-    // If user is admin, they can see all visits (no additional filtering needed)
-    if (options._isAdmin) {
-      return options;
-    }
-
-    // If "See All" is on for a non-admin, we perform a broad query.
-    // The security rules will enforce which documents can be read.
-    if (options._seeAllVisits) {
-      return options;
-    }
-
-    // If "See All" is off, we strictly query for the user's own documents.
-    // This is the most restrictive and safest query.
-    return {
-      ...options,
-      filledByUid: options._user.uid
-    };
+    // If no user context, query broadly (will fail at Firestore level)
+    return options._scope || { kind: 'all' };
   }
 
   /**
@@ -122,10 +101,8 @@ class VisitQueryManager {
       options.orderBy || 'date',
       options.orderDirection || 'desc',
       // Include user context in cache key for permission-aware caching
-      options._user?.uid || 'anonymous',
-      options._isAdmin ? 'admin' : 'user',
       options._respectPermissions !== false ? 'secured' : 'unsecured',
-      options._seeAllVisits ? 'seeAll' : 'seeOwn'
+      visitScopeKey(options._scope ?? null)
     ];
     
     return keyParts.join('|');
@@ -139,34 +116,43 @@ class VisitQueryManager {
   }
 
   /**
-   * Build Firestore query constraints from options
+   * Build Firestore filters from options
    */
-  private buildQueryConstraints(options: VisitQueryOptions): QueryConstraint[] {
-    const constraints: QueryConstraint[] = [];
+  private buildQueryFilters(options: VisitQueryOptions): QueryFieldFilterConstraint[] {
+    const filters: QueryFieldFilterConstraint[] = [];
 
     // Date filtering
     if (options.startDate) {
-      constraints.push(where('date', '>=', Timestamp.fromDate(options.startDate)));
+      filters.push(where('date', '>=', Timestamp.fromDate(options.startDate)));
     }
     if (options.endDate) {
-      constraints.push(where('date', '<=', Timestamp.fromDate(options.endDate)));
+      filters.push(where('date', '<=', Timestamp.fromDate(options.endDate)));
     }
 
     // User filtering
     if (options.filledByUid) {
-      constraints.push(where('filledByUid', '==', options.filledByUid));
+      filters.push(where('filledByUid', '==', options.filledByUid));
     }
 
     // CCI filtering
     if (options.cciId) {
-      constraints.push(where('cci_id', '==', options.cciId));
+      filters.push(where('cci_id', '==', options.cciId));
     }
 
     // Status filtering
     if (options.status) {
-      constraints.push(where('status', '==', options.status));
+      filters.push(where('status', '==', options.status));
     }
 
+    return filters;
+  }
+
+  /**
+   * Build ordering, pagination and limit constraints from options
+   */
+  private buildQueryConstraints(options: VisitQueryOptions, queryLimit: number): QueryNonFilterConstraint[] {
+    const constraints: QueryNonFilterConstraint[] = [];
+
     // Ordering
     const orderField = options.orderBy || 'date';
     const orderDir = options.orderDirection || 'desc';
@@ -178,43 +164,60 @@ class VisitQueryManager {
     }
 
     // Limit
-    const queryLimit = Math.min(options.limit || this.DEFAULT_LIMIT, this.MAX_LIMIT);
     constraints.push(limit(queryLimit + 1)); // +1 to check if there are more results
 
     return constraints;
   }
 
   /**
-   * Execute the Firestore query
+   * Execute the Firestore queries for a scope and merge their results
    */
-  private async executeQuery(constraints: QueryConstraint[]): Promise<VisitQueryResult> {
-    const visitsQuery = query(collection(db, 'visits'), ...constraints);
-    const snapshot = await getDocs(visitsQuery);
+  private async executeQuery(
+    options: VisitQueryOptions,
+    scope: VisitAccessScope
+  ): Promise<VisitQueryResult> {
+    const queryLimit = Math.min(options.limit || this.DEFAULT_LIMIT, this.MAX_LIMIT);
+    const visitQueries = buildScopedVisitQueries(
+      scope,
+      this.buildQueryFilters(options),
+      this.buildQueryConstraints(options, queryLimit)
+    );
+    const snapshots = await Promise.all(visitQueries.map(visitQuery => getDocs(visitQuery)));
     
-    const docs = snapshot.docs;
-    const hasMore = docs.length > (constraints.find(c => c.type === 'limit') as any)?.limit - 1;
+    // A scope spanning many CCIs runs several queries; drop any overlap
+    const seen = new Set<string>();
+    const docs = snapshots.flatMap(snapshot => snapshot.docs).filter(docSnap => {
+      if (seen.has(docSnap.id)) return false;
+      seen.add(docSnap.id);
+      return true;
+    });
+    const hasMore = snapshots.some(snapshot => snapshot.docs.length > queryLimit);
     
-    // Remove the extra doc if we fetched one more than requested
-    const visits = docs.slice(0, hasMore ? docs.length - 1 : docs.length).map((docSnap) => {
+    const visits = docs.map((docSnap) => {
       const raw = docSnap.data() as VisitDoc;
       const { id: _ignored, ...rest } = (raw ?? {}) as VisitDoc & { id?: string };
       return { id: docSnap.id, ...(rest as Omit<VisitDoc, "id">) };
     });
 
-    // Sort by date if not already sorted by date
-    const orderField = constraints.find(c => c.type === 'orderBy') as any;
-    if (!orderField || orderField.field !== 'date') {
+    // Sort by date if not already sorted by date, or if results were merged
+    const sortedByDate = (options.orderBy || 'date') === 'date';
+    if (!sortedByDate || snapshots.length > 1) {
+      const ascending = sortedByDate && options.orderDirection === 'asc';
       visits.sort((a, b) => {
         const aDate = timestampToDate(a.date)?.getTime() ?? 0;
         const bDate = timestampToDate(b.date)?.getTime() ?? 0;
-        return bDate - aDate; // Most recent first
+        return ascending ? aDate - bDate : bDate - aDate; // Most recent first by default
       });
     }
 
+    // Remove the extra docs fetched to detect more results
+    const pageVisits = visits.slice(0, queryLimit);
+
     return {
-      visits,
+      visits: pageVisits,
       hasMore,
-      lastDoc: hasMore ? docs[docs.length - 2] : undefined
+      // Cursor pagination only works over a single query
+      lastDoc: hasMore && snapshots.length === 1 ? docs[queryLimit - 1] : undefined
     };
   }
 
@@ -223,9 +226,9 @@ class VisitQueryManager {
    */
   async queryVisits(options: VisitQueryOptions = {}): Promise<VisitQueryResult> {
     // Apply permissions logic first
-    const permissionAwareOptions = this.applyPermissions(options);
+    const scope = this.resolveScope(options);
     
-    const cacheKey = options.cacheKey || this.generateCacheKey(permissionAwareOptions);
+    const cacheKey = options.cacheKey || this.generateCacheKey(options);
     
     // Check cache first (unless force refresh is requested)
     if (!options.forceRefresh) {
@@ -235,9 +238,8 @@ class VisitQueryManager {
       }
     }
 
-    // Execute query with permission-aware options
-    const constraints = this.buildQueryConstraints(permissionAwareOptions);
-    const result = await this.executeQuery(constraints);
+    // Execute query with permission-aware scope
+    const result = await this.executeQuery(options, scope);
 
     // Cache the result
     this.cache.set(cacheKey, {
@@ -341,20 +343,20 @@ class VisitQueryManager {
   /**
    * Preload common queries
    */
-  async preloadCommonQueries(userId?: string): Promise<void> {
+  async preloadCommonQueries(scope: VisitAccessScope | null, userId?: string): Promise<void> {
     const now = new Date();
     const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
     const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
 
     const preloadPromises = [
       // Current month visits
-      this.getVisitsInRange(startOfMonth, endOfMonth),
+      this.getVisitsInRange(startOfMonth, endOfMonth, { _scope: scope }),
     ];
 
     if (userId) {
       preloadPromises.push(
         // User's current month visits
-        this.getVisitsInRange(startOfMonth, endOfMonth, { filledByUid: userId })
+        this.getVisitsInRange(startOfMonth, endOfMonth, { filledByUid: userId, _scope: scope })
       );
     }
 
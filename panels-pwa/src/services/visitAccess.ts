@@ -0,0 +1,136 @@
+import {
+  and,
+  collection,
+  or,
+  query,
+  where,
+  type Query,
+  type QueryFieldFilterConstraint,
+  type QueryFilterConstraint,
+  type QueryNonFilterConstraint
+} from 'firebase/firestore';
+import { db } from '@/firebase';
+
+/**
+ * Visit Access Scope
+ *
+ * Mirrors the `visits` read rule in firestore.rules. Firestore rejects a whole
+ * query if it could return a single document the rules would deny, so every
+ * visit query is built from one of these scopes:
+ * - `all`: admins, and users an admin granted See All access
+ * - `assigned`: the user's own visits plus those at their assigned CCIs and,
+ *   for supervisors, those filled in by their team members
+ * - `own`: only visits the user filled in
+ */
+export type VisitAccessScope =
+  | { kind: 'all' }
+  | { kind: 'assigned'; userId: string; cciIds: string[]; teamUids: string[] }
+  | { kind: 'own'; userId: string };
+
+export interface VisitAccessContext {
+  userId: string | null;
+  isAdmin: boolean;
+  canSeeAllVisits: boolean;
+  seeAllVisits: boolean;
+  assignedCCIs: string[];
+  teamUids: string[];
+}
+
+// Firestore allows at most 30 disjunctions per query
+const MAX_DISJUNCTIONS = 30;
+
+/**
+ * Resolve the scope for the current user and See All toggle.
+ * Returns null when there is no signed-in user to scope to.
+ */
+export const resolveVisitScope = ({
+  userId,
+  isAdmin,
+  canSeeAllVisits,
+  seeAllVisits,
+  assignedCCIs,
+  teamUids
+}: VisitAccessContext): VisitAccessScope | null => {
+  if (isAdmin) return { kind: 'all' };
+  if (!userId) return null;
+  if (seeAllVisits && canSeeAllVisits) return { kind: 'all' };
+  // A supervisor's team stays in scope whatever the See All toggle says
+  const cciIds = seeAllVisits ? [...assignedCCIs].sort() : [];
+  const teamMembers = teamUids.filter(uid => uid !== userId).sort();
+  if (cciIds.length === 0 && teamMembers.length === 0) return { kind: 'own', userId };
+  return { kind: 'assigned', userId, cciIds, teamUids: teamMembers };
+};
+
+/**
+ * Stable key for caching results per scope
+ */
+export const visitScopeKey = (scope: VisitAccessScope | null): string => {
+  if (!scope) return 'anonymous';
+  switch (scope.kind) {
+    case 'all':
+      return 'all';
+    case 'own':
+      return `own:${scope.userId}`;
+    case 'assigned':
+      return `assigned:${scope.userId}:${scope.cciIds.join(',')}:${scope.teamUids.join(',')}`;
+  }
+};
+
+/**
+ * The filter each query must carry for the scope, one entry per query.
+ * Large CCI assignments and teams are split so no query exceeds the
+ * disjunction limit; callers merge the results.
+ */
+const scopeFilters = (scope: VisitAccessScope): Array<QueryFilterConstraint | null> => {
+  switch (scope.kind) {
+    case 'all':
+      return [null];
+    case 'own':
+      return [where('filledByUid', '==', scope.userId)];
+    case 'assigned': {
+      // Every filler and CCI value is one disjunction; the first query also
+      // covers the user's own visits
+      const terms: Array<[field: 'filledByUid' | 'cci_id', value: string]> = [
+        ...[scope.userId, ...scope.teamUids].map((uid): ['filledByUid', string] => ['filledByUid', uid]),
+        ...scope.cciIds.map((cciId): ['cci_id', string] => ['cci_id', cciId])
+      ];
+      const filters: QueryFilterConstraint[] = [];
+      for (let start = 0; start < terms.length; start += MAX_DISJUNCTIONS) {
+        const chunk = terms.slice(start, start + MAX_DISJUNCTIONS);
+        const parts = (['filledByUid', 'cci_id'] as const)
+          .map(field => ({ field, values: chunk.filter(([f]) => f === field).map(([, value]) => value) }))
+          .filter(({ values }) => values.length > 0)
+          .map(({ field, values }) => where(field, 'in', values));
+        filters.push(parts.length > 1 ? or(...parts) : parts[0]);
+      }
+      return filters;
+    }
+  }
+};
+
+/**
+ * Build the queries for a scope over `source`, which may be any collection
+ * whose documents carry the visit's filledByUid and cci_id. `filters` are
+ * ANDed with the scope filter; ordering, pagination and limits apply to
+ * each query.
+ */
+export const buildScopedQueries = (
+  source: Query,
+  scope: VisitAccessScope,
+  filters: QueryFieldFilterConstraint[],
+  constraints: QueryNonFilterConstraint[]
+): Query[] => scopeFilters(scope).map(scopeFilter => {
+  const allFilters = scopeFilter ? [...filters, scopeFilter] : filters;
+  return allFilters.length > 0
+    ? query(source, and(...allFilters), ...constraints)
+    : query(source, ...constraints);
+});
+
+/**
+ * Build the visit queries for a scope
+ */
+export const buildScopedVisitQueries = (
+  scope: VisitAccessScope,
+  filters: QueryFieldFilterConstraint[],
+  constraints: QueryNonFilterConstraint[]
+): Query[] => buildScopedQueries(collection(db, 'visits'), scope, filters, constraints);
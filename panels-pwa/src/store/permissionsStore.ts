@@ -3,9 +3,10 @@ import { create } from 'zustand';
 interface UserPermissions {
   // Core role information
   userId: string | null;
-  role: 'Admin' | 'EM' | 'Visitor' | 'Pending' | null;
+  role: 'Admin' | 'Supervisor' | 'EM' | 'Visitor' | 'Pending' | null;
   isAdmin: boolean;
   isEM: boolean;
+  isSupervisor: boolean;
   
   // Capability flags
   capabilities: {
@@ -16,6 +17,7 @@ interface UserPermissions {
     canManageUsers: boolean;
     canManageCCIs: boolean;
     canSeeClusterFeedback: boolean;
+    canApproveDebriefs: boolean;
     canExportData: boolean;
     canImportData: boolean;
     canViewReports: boolean;
@@ -24,6 +26,9 @@ interface UserPermissions {
   
   // CCI-specific permissions
   assignedCCIs: string[];
+  coEditableCCIs: string[]; // CCIs whose assigned EMs may edit any visit there
+  seeAllGranted: boolean;
+  teamMemberUids: string[]; // Members of the team a supervisor leads
   canEditCCIVisits: (cciId: string) => boolean;
   
   // Permission cache for performance
@@ -32,11 +37,14 @@ interface UserPermissions {
 
 interface PermissionsState extends UserPermissions {
   // User management
-  setUser: (userId: string | null, role: string | null, assignedCCIs?: string[]) => void;
+  setUser: (userId: string | null, role: string | null, assignedCCIs?: string[], canSeeAllVisits?: boolean) => void;
+  setAssignedCCIs: (assignedCCIs: string[]) => void;
+  setCoEditableCCIs: (cciIds: string[]) => void;
+  setTeamMemberUids: (memberUids: string[]) => void;
   clearUser: () => void;
   
   // Permission checks
-  canEditVisit: (visitId: string, filledByUid: string) => boolean;
+  canEditVisit: (visitId: string, filledByUid: string, cciId?: string) => boolean;
   canViewVisit: (visitId: string, filledByUid: string) => boolean;
   canDeleteVisit: (visitId: string, filledByUid: string) => boolean;
   
@@ -47,12 +55,44 @@ interface PermissionsState extends UserPermissions {
 
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
+// Role flags and capabilities for a role and its CCI assignments
+const derivePermissions = (role: string | null, assignedCCIs: string[], canSeeAllVisits: boolean) => {
+  const normalizedRole = role as PermissionsState['role'];
+  const isAdmin = normalizedRole === 'Admin';
+  const isEM = normalizedRole === 'EM' || assignedCCIs.length > 0;
+  // Supervisors review their team's work but do not manage users or CCIs
+  const isSupervisor = normalizedRole === 'Supervisor';
+  
+  return {
+    role: normalizedRole,
+    isAdmin,
+    isEM,
+    isSupervisor,
+    capabilities: {
+      canEditVisits: isAdmin || isEM || isSupervisor,
+      canDeleteVisits: isAdmin,
+      canCreateVisits: isAdmin || isEM || isSupervisor,
+      canViewAllVisits: isAdmin || canSeeAllVisits,
+      canManageUsers: isAdmin,
+      canManageCCIs: isAdmin,
+      // By role only, as the rules check it; visitors with CCIs assigned stay out
+      canSeeClusterFeedback: isAdmin || isSupervisor || normalizedRole === 'EM',
+      canApproveDebriefs: isAdmin || isSupervisor,
+      canExportData: isAdmin,
+      canImportData: isAdmin,
+      canViewReports: isAdmin || isEM || isSupervisor,
+      canManageSettings: isAdmin
+    }
+  };
+};
+
 export const usePermissionsStore = create<PermissionsState>((set, get) => ({
   // Initial state
   userId: null,
   role: null,
   isAdmin: false,
   isEM: false,
+  isSupervisor: false,
   
   capabilities: {
     canEditVisits: false,
@@ -62,6 +102,7 @@ export const usePermissionsStore = create<PermissionsState>((set, get) => ({
     canManageUsers: false,
     canManageCCIs: false,
     canSeeClusterFeedback: false,
+    canApproveDebriefs: false,
     canExportData: false,
     canImportData: false,
     canViewReports: false,
@@ -69,61 +110,70 @@ export const usePermissionsStore = create<PermissionsState>((set, get) => ({
   },
   
   assignedCCIs: [],
+  coEditableCCIs: [],
+  seeAllGranted: false,
+  teamMemberUids: [],
+  // Assigned EMs may edit others' visits only at CCIs that opted in
   canEditCCIVisits: (cciId: string) => {
-    const { assignedCCIs, isAdmin } = get();
-    return isAdmin || assignedCCIs.includes(cciId);
+    const { assignedCCIs, coEditableCCIs, isAdmin } = get();
+    return isAdmin || (assignedCCIs.includes(cciId) && coEditableCCIs.includes(cciId));
   },
   
   permissionCache: {},
   
   // User management
-  setUser: (userId: string | null, role: string | null, assignedCCIs: string[] = []) => {
-    const normalizedRole = role as PermissionsState['role'];
-    const isAdmin = normalizedRole === 'Admin';
-    const isEM = normalizedRole === 'EM' || assignedCCIs.length > 0;
+  // Assignments and team members are kept when omitted, unless another user
+  // was signed in, since the live listeners may have delivered them first
+  setUser: (userId: string | null, role: string | null, assignedCCIs?: string[], canSeeAllVisits = false) => {
+    const current = get();
+    const keepAssignments = current.userId === null || current.userId === userId;
+    const cciIds = assignedCCIs ?? (keepAssignments ? current.assignedCCIs : []);
+    const permissions = derivePermissions(role, cciIds, canSeeAllVisits);
     
     // Debug logging to help identify the issue
     console.log('setUser debug:', {
       userId,
       role,
-      normalizedRole,
-      isAdmin,
-      isEM,
-      assignedCCIs
+      normalizedRole: permissions.role,
+      isAdmin: permissions.isAdmin,
+      isEM: permissions.isEM,
+      assignedCCIs: cciIds
     });
     
-    // Calculate capabilities based on role
-    const capabilities = {
-      canEditVisits: isAdmin || isEM,
-      canDeleteVisits: isAdmin,
-      canCreateVisits: isAdmin || isEM,
-      canViewAllVisits: isAdmin,
-      canManageUsers: isAdmin,
-      canManageCCIs: isAdmin,
-      canSeeClusterFeedback: isAdmin,
-      canExportData: isAdmin,
-      canImportData: isAdmin,
-      canViewReports: isAdmin || isEM,
-      canManageSettings: isAdmin
-    };
-    
     set({
       userId,
-      role: normalizedRole,
-      isAdmin,
-      isEM,
-      capabilities,
-      assignedCCIs,
+      ...permissions,
+      assignedCCIs: cciIds,
+      teamMemberUids: keepAssignments ? current.teamMemberUids : [],
+      seeAllGranted: canSeeAllVisits,
       permissionCache: {} // Clear cache when user changes
     });
   },
   
+  setAssignedCCIs: (assignedCCIs: string[]) => {
+    const { role, seeAllGranted } = get();
+    set({
+      ...derivePermissions(role, assignedCCIs, seeAllGranted),
+      assignedCCIs,
+      permissionCache: {} // Edit rights depend on assignments
+    });
+  },
+  
+  setCoEditableCCIs: (cciIds: string[]) => {
+    set({ coEditableCCIs: cciIds, permissionCache: {} });
+  },
+  
+  setTeamMemberUids: (memberUids: string[]) => {
+    set({ teamMemberUids: memberUids });
+  },
+  
   clearUser: () => {
     set({
       userId: null,
       role: null,
       isAdmin: false,
       isEM: false,
+      isSupervisor: false,
       capabilities: {
         canEditVisits: false,
         canDeleteVisits: false,
@@ -132,18 +182,22 @@ export const usePermissionsStore = create<PermissionsState>((set, get) => ({
         canManageUsers: false,
         canManageCCIs: false,
         canSeeClusterFeedback: false,
+        canApproveDebriefs: false,
         canExportData: false,
         canImportData: false,
         canViewReports: false,
         canManageSettings: false
       },
       assignedCCIs: [],
+      coEditableCCIs: [],
+      seeAllGranted: false,
+      teamMemberUids: [],
       permissionCache: {}
     });
   },
   
   // Permission checks
-  canEditVisit: (visitId: string, filledByUid: string) => {
+  canEditVisit: (visitId: string, filledByUid: string, cciId?: string) => {
     const state = get();
     const { userId, isAdmin, capabilities, permissionCache } = state;
     
@@ -173,9 +227,11 @@ export const usePermissionsStore = create<PermissionsState>((set, get) => ({
       stringComparison: String(userId) === String(filledByUid)
     });
     
-    // Business rule: Only the creator can edit their visit
+    // Business rule: The creator can edit their visit, and so can the
+    // assigned EM when the visit's CCI has opted in to shared editing
     // Use string comparison to handle potential type mismatches
-    const canEdit = capabilities.canEditVisits && String(userId) === String(filledByUid);
+    const canEdit = capabilities.canEditVisits &&
+      (String(userId) === String(filledByUid) || (!!cciId && state.canEditCCIVisits(cciId)));
     
     // Cache the result
     set({
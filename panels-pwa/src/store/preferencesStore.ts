@@ -25,6 +25,10 @@ interface PreferencesState {
   setSeeAllVisits: (seeAll: boolean) => void;
   getDefaultSeeAllSetting: (isEM: boolean) => boolean;
   
+  // Team filter: a team ID (the supervisor's uid) or 'all'
+  teamFilter: string;
+  setTeamFilter: (teamId: string) => void;
+  
   // Default filters
   defaultFilters: FilterPreferences;
   setDefaultFilters: (filters: FilterPreferences) => void;
@@ -150,6 +154,10 @@ export const usePreferencesStore = create<PreferencesState>()(
         return isEM;
       },
       
+      // Team filter
+      teamFilter: 'all',
+      setTeamFilter: (teamId: string) => set({ teamFilter: teamId }),
+      
       // Default filters
       defaultFilters: {},
       setDefaultFilters: (filters: FilterPreferences) => set({ defaultFilters: filters }),
@@ -196,6 +204,7 @@ export const usePreferencesStore = create<PreferencesState>()(
       partialize: (state) => ({
         currentTheme: state.currentTheme,
         seeAllVisits: state.seeAllVisits,
+        teamFilter: state.teamFilter,
         defaultFilters: state.defaultFilters,
         compactMode: state.compactMode,
         showTooltips: state.showTooltips,
@@ -24,8 +24,22 @@ export interface UserDoc extends TimestampedDocument {
   uid: string
   email: string
   username?: string
-  role: 'Admin' | 'EM' | 'Pending'
+  role: 'Admin' | 'Supervisor' | 'EM' | 'Pending'
   status: 'Active' | 'Inactive'
+  deactivatedAt?: Timestamp | Date
+  deactivatedByUid?: string
+  // Approval queue: sign-up details and the admin's decision
+  reviewStatus?: 'pending' | 'approved' | 'rejected'
+  signupNote?: string
+  signupSubmittedAt?: Timestamp | Date
+  rejectionReason?: string
+  reviewedAt?: Timestamp | Date
+  reviewedByUid?: string
+  // Admin grant that lets a non-admin read every visit (seeAllVisits claim)
+  canSeeAllVisits?: boolean
+  // Sign-up allowlist entry that approves this user once their email is verified
+  pendingAutoApproval?: string
+  approvedByAllowlist?: string
   displayName?: string
   pinnedVisits?: string[] // Array of visit IDs
 }
@@ -44,6 +58,7 @@ export interface CCIDoc extends FirestoreDocument {
   status?: 'Active' | 'Inactive'
   cohort?: string
   mapLocation?: string
+  assignedEmsCanEdit?: boolean // Opt-in: assigned EMs may edit any visit at this CCI
 }
 
 // Visit-related types
@@ -62,6 +77,66 @@ export interface VisitDoc extends TimestampedDocument {
   personMet?: string
   visitHours?: 'Full' | 'Half' | 'Drop-In' | 'Special' | 'none'
   order?: number // For timeline ordering
+  lastEditedByUid?: string // Set on every edit, verified by the security rules
+  reviewState?: VisitReviewState // Missing means draft
+  reviewSubmittedAt?: Timestamp | Date | null
+  reviewSubmittedByUid?: string | null
+  reviewedAt?: Timestamp | Date | null
+  reviewedByUid?: string | null
+  reviewComment?: string | null // Reviewer's reason for returning the debrief
+  feedbackSummary?: VisitFeedbackSummary // Written by the summarizeVisitFeedback function
+}
+
+// Latest cluster feedback on a visit, so lists can flag unread feedback
+export interface VisitFeedbackSummary {
+  count: number
+  lastCommentAt: Timestamp | Date | null
+  lastAuthorUid: string | null
+}
+
+// Debrief review: submitted debriefs await review, then are approved (locking
+// the visit) or returned to the author with a comment
+export type VisitReviewState = 'draft' | 'awaiting_review' | 'returned' | 'approved'
+
+// Cluster feedback on a visit: visits/{visitId}/comments/{commentId}
+export interface VisitCommentDoc extends FirestoreDocument {
+  id: string
+  visitId: string
+  parentId: string | null // Replies point at the comment that started the thread
+  authorUid: string
+  authorName: string
+  text: string
+  mentionUids: string[]
+  resolved: boolean // Set on the comment that started the thread
+  resolvedByUid?: string | null
+  resolvedAt?: Timestamp | Date | null
+  createdAt: Timestamp | Date
+}
+
+// Follow-up from a visit: visits/{visitId}/action_items/{itemId}
+export interface ActionItemDoc extends FirestoreDocument {
+  id: string
+  visitId: string
+  filledByUid: string // Copied from the visit so queries follow the visit read scope; kept in sync by a function
+  cci_id: string
+  cci_name: string
+  text: string
+  ownerUid: string
+  ownerName: string
+  dueDate: Timestamp | Date | null
+  status: 'open' | 'done'
+  source: 'manual' | 'task' // 'task' when created from a task list item in the notes
+  createdByUid: string
+  createdAt: Timestamp | Date
+  updatedAt: Timestamp | Date
+  completedAt?: Timestamp | Date | null
+  completedByUid?: string | null
+}
+
+// When a user last read a visit's comments: users/{uid}/comment_reads/{visitId}
+export interface CommentReadDoc extends FirestoreDocument {
+  id: string
+  lastReadAt: Timestamp | Date
 }
 
 // Visit note types
@@ -96,6 +171,10 @@ export interface VersionEventDoc extends FirestoreDocument {
   afterValue?: string
   timestamp: Timestamp | Date
   diff?: string
+  metadata?: {
+    noteId?: string
+    fieldName?: string
+  }
 }
 
 export interface VersionSnapshotDoc extends FirestoreDocument {
@@ -106,6 +185,83 @@ export interface VersionSnapshotDoc extends FirestoreDocument {
   createdAt: Timestamp | Date
   createdBy: string
   summary?: string
+  trigger?: 'events' | 'idle'
+  asOf?: Timestamp | Date
+  content?: {
+    agenda: string
+    debrief: string
+    notes: VisitNote[]
+  }
+}
+
+// Backup manifest entry written for every visits export
+export interface BackupDoc extends FirestoreDocument {
+  id: string
+  kind: 'backup' | 'export' | 'archive'
+  trigger: 'scheduled' | 'manual'
+  status: 'available' | 'pruned'
+  fileName: string
+  filePath: string
+  bucket: string
+  gsUri: string
+  format: string
+  rowCount: number
+  sizeBytes: number
+  checksumSha256: string
+  details?: Record<string, unknown>
+  createdByUid: string | null
+  createdByEmail: string | null
+  createdAt: Timestamp | Date
+  prunedAt?: Timestamp | Date
+}
+
+// Sign-up allowlist entry; the document ID is the lowercased address or domain
+export interface SignupAllowlistDoc extends TimestampedDocument {
+  id: string
+  value: string
+  kind: 'email' | 'domain'
+  role: string
+  cciIds: string[]
+  updatedByUid?: string
+}
+
+// A supervisor's team; the document ID is the supervisor's uid
+export interface TeamDoc extends TimestampedDocument {
+  id: string
+  name: string
+  supervisorUid: string
+  memberUids: string[]
+  updatedByUid?: string
+}
+
+// Audit log entry for a privileged action; written only by Cloud Functions
+export type AuditAction =
+  | 'user.create'
+  | 'user.update'
+  | 'user.approve'
+  | 'user.reject'
+  | 'allowlist.update'
+  | 'allowlist.delete'
+  | 'team.update'
+  | 'team.delete'
+  | 'cci.delete'
+  | 'assignments.update'
+  | 'visit.delete'
+  | 'visit_history.clear'
+  | 'visits.restore'
+
+export interface AuditLogDoc extends FirestoreDocument {
+  id: string
+  action: AuditAction
+  actorUid: string | null
+  actorEmail: string | null
+  targetType: 'user' | 'cci' | 'cci_user_link' | 'visit' | 'backup' | 'allowlist' | 'team'
+  targetId: string
+  targetLabel: string | null
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  details: Record<string, unknown> | null
+  createdAt: Timestamp | Date
 }
 
 // Collection names as const
@@ -115,7 +271,14 @@ export const COLLECTIONS = {
   CCIS: 'ccis',
   CCI_USER_LINKS: 'cci_user_links',
   EVENTS: 'events',
-  SNAPSHOTS: 'snapshots'
+  SNAPSHOTS: 'snapshots',
+  BACKUPS: 'backups',
+  AUDIT_LOG: 'audit_log',
+  SIGNUP_ALLOWLIST: 'signup_allowlist',
+  TEAMS: 'teams',
+  COMMENTS: 'comments',
+  COMMENT_READS: 'comment_reads',
+  ACTION_ITEMS: 'action_items'
 } as const
 
 // Type for collection names
@@ -129,6 +292,12 @@ export type AnyDocument =
   | CciUserLinkDoc 
   | VersionEventDoc 
   | VersionSnapshotDoc
+  | BackupDoc
+  | AuditLogDoc
+  | SignupAllowlistDoc
+  | TeamDoc
+  | VisitCommentDoc
+  | CommentReadDoc
 
 // Utility types for Firestore operations
 export type DocumentData = Record<string, any>
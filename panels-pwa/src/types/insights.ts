@@ -40,8 +40,11 @@ export interface InsightPerUserStatsEntry {
 export interface WeeklyVisitsCountDoc extends BaseInsightDoc {
   dataType: 'weekly_visits_count';
   data: {
-    // Week identifier (YYYY-WW format)
+    // Fiscal week identifier (FY{YYYY}-W{WW} format; older docs used YYYY-WW)
     weekId: string;
+    // Fiscal year (named after its starting calendar year) and week number within it
+    fiscalYear?: number;
+    weekNumber?: number;
     // Start and end dates of the week
     weekStart: Timestamp;
     weekEnd: Timestamp;
@@ -160,7 +163,7 @@ export interface MonthlySummaryDoc extends BaseInsightDoc {
     summary: {
       totalVisits: number;
       averageVisitsPerWeek: number;
-      completionRate: number;
+      completionRate: number; // percentage (0-100) of visits marked complete
       topCcis: Array<{
         cciId: string;
         cciName: string;
@@ -181,10 +184,12 @@ export interface MonthlySummaryDoc extends BaseInsightDoc {
 export interface YearlyTrendsDoc extends BaseInsightDoc {
   dataType: 'yearly_trends';
   data: {
-    year: number;
+    year: number; // Fiscal year, named after the calendar year it starts in
+    yearLabel?: string; // e.g. FY2025-26; absent on documents aggregated by calendar year
     trends: {
       monthlyBreakdown: Array<{
-        month: number;
+        month: number; // Calendar month, 1-12
+        fiscalMonth?: number; // Position in the fiscal year, 1-12
         visitCount: number;
         completionRate: number;
       }>;
@@ -218,3 +223,23 @@ export interface InsightQueryOptions {
  * Insight data aggregation period
  */
 export type AggregationPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * Progress document written by the panelRecomputeInsights callable
+ */
+export interface InsightRecomputeJobDoc {
+  id: string;
+  type: 'recompute_insights';
+  status: 'running' | 'completed' | 'failed';
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  totalWeeks: number;
+  completedWeeks: number;
+  failedWeeks: string[];
+  startedByUid: string;
+  startedByEmail: string | null;
+  error?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  finishedAt?: Timestamp;
+}
@@ -0,0 +1,2 @@
+// The fiscal calendar lives with the Cloud Functions so both sides share one copy
+export * from '../../../functions/src/fiscalCalendar';
@@ -0,0 +1,7 @@
+import { resolveFiscalCalendarConfig } from './fiscalCalendar';
+
+// Must match the calendar.* runtime config used by the insight aggregator
+export const FISCAL_CALENDAR = resolveFiscalCalendarConfig({
+  fiscalYearStartMonth: import.meta.env.VITE_FISCAL_YEAR_START_MONTH,
+  weekStartsOn: import.meta.env.VITE_WEEK_STARTS_ON,
+});
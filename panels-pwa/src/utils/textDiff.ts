@@ -0,0 +1,168 @@
+/**
+ * Word and sentence level text diff used by version history.
+ *
+ * Implements Myers' O(ND) algorithm over tokens, so long debriefs with a few
+ * edits stay cheap. Inputs are plain text; strip HTML before diffing.
+ */
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export type DiffGranularity = 'word' | 'sentence';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+// Beyond this many edits the texts share too little for a diff to help,
+// and the trace kept for backtracking grows quadratically
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Split text into tokens whose concatenation is the original text.
+ * Words and the whitespace between them are separate tokens; sentences keep
+ * their trailing whitespace.
+ */
+export const tokenize = (text: string, granularity: DiffGranularity = 'word'): string[] => {
+  if (!text) return [];
+  const pattern = granularity === 'sentence' ? /[^.!?\n]+(?:[.!?]+|\n|$)\s*|[.!?\n]+\s*/g : /\s+|\S+/g;
+  return text.match(pattern) || [];
+};
+
+// Whitespace differences alone are not worth highlighting
+const tokenKey = (token: string): string => token.trim() || ' ';
+
+const pushSegment = (segments: DiffSegment[], op: DiffOp, text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+};
+
+/**
+ * Edit script between two token lists, or null when it exceeds MAX_EDIT_DISTANCE
+ */
+const myersDiff = (a: string[], b: string[]): Array<{ op: DiffOp; token: string }> | null => {
+  const n = a.length;
+  const m = b.length;
+  const aKeys = a.map(tokenKey);
+  const bKeys = b.map(tokenKey);
+  // trace[d][k + d] is the furthest x reached on diagonal k after d edits
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= Math.min(n + m, MAX_EDIT_DISTANCE) && !found; d++) {
+    const prev = trace[d - 1];
+    const current = new Int32Array(2 * d + 1);
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (d === 0) {
+        x = 0;
+      } else if (k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1])) {
+        x = prev[k + 1 + d - 1];
+      } else {
+        x = prev[k - 1 + d - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && aKeys[x] === bKeys[y]) {
+        x++;
+        y++;
+      }
+      current[k + d] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+    trace.push(current);
+  }
+  if (!found) return null;
+
+  const ops: Array<{ op: DiffOp; token: string }> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1]);
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = prev[prevK + d - 1];
+    const prevY = prevX - prevK;
+    const midX = down ? prevX : prevX + 1;
+    const midY = down ? prevY + 1 : prevY;
+    while (x > midX && y > midY) {
+      ops.push({ op: 'equal', token: b[y - 1] });
+      x--;
+      y--;
+    }
+    if (down) {
+      ops.push({ op: 'insert', token: b[prevY] });
+    } else {
+      ops.push({ op: 'delete', token: a[prevX] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ op: 'equal', token: b[y - 1] });
+    x--;
+    y--;
+  }
+  return ops.reverse();
+};
+
+/**
+ * Diff two plain-text values into equal, inserted and deleted segments.
+ * Adjacent segments of the same kind are merged.
+ */
+export const diffText = (before: string, after: string, granularity: DiffGranularity = 'word'): DiffSegment[] => {
+  const a = tokenize(before, granularity);
+  const b = tokenize(after, granularity);
+
+  // Common prefix and suffix never need the diff engine
+  let start = 0;
+  while (start < a.length && start < b.length && tokenKey(a[start]) === tokenKey(b[start])) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && tokenKey(a[endA - 1]) === tokenKey(b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, 'equal', b.slice(0, start).join(''));
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const ops = myersDiff(middleA, middleB);
+  if (ops) {
+    ops.forEach(({ op, token }) => pushSegment(segments, op, token));
+  } else {
+    pushSegment(segments, 'delete', middleA.join(''));
+    pushSegment(segments, 'insert', middleB.join(''));
+  }
+
+  pushSegment(segments, 'equal', b.slice(endB).join(''));
+  return segments;
+};
+
+const countWords = (text: string): number => (text.match(/\S+/g) || []).length;
+
+/**
+ * Number of words inserted and deleted by a diff
+ */
+export const countChangedWords = (segments: DiffSegment[]): { inserted: number; deleted: number } => {
+  return segments.reduce(
+    (totals, segment) => {
+      if (segment.op === 'insert') totals.inserted += countWords(segment.text);
+      if (segment.op === 'delete') totals.deleted += countWords(segment.text);
+      return totals;
+    },
+    { inserted: 0, deleted: 0 }
+  );
+};
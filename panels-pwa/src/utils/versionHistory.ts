@@ -1,5 +1,8 @@
 import { addDocument } from '@/firebase/firestoreService';
 import { visitEventsCollection } from '@/firebase/paths';
+import { timestampToDate } from '@/types/firestore';
+import { countChangedWords, diffText } from '@/utils/textDiff';
+import type { VersionEventDoc, VisitNote } from '@/types/firestore';
 
 export interface VersionEvent {
   id?: string;
@@ -16,6 +19,26 @@ export interface VersionEvent {
   };
 }
 
+// Labels for the visit detail fields captureVersionHistory records as visit_edit events
+export const VISIT_EDIT_FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  quality: 'Quality',
+  personMet: 'Person met',
+  visitHours: 'Visit hours',
+  date: 'Date',
+  cci_id: 'CCI',
+};
+
+/**
+ * Display label for the field a visit_edit event changed
+ */
+export const getVisitEditLabel = (event: Pick<VersionEvent, 'field' | 'metadata'>): string => {
+  return event.metadata?.fieldName
+    || (event.field ? VISIT_EDIT_FIELD_LABELS[event.field] : undefined)
+    || event.field
+    || 'Visit details';
+};
+
 /**
  * Captures a version history event when content is modified
  */
@@ -45,8 +68,134 @@ export const captureVersionEvent = async (
   }
 };
 
+export interface VisitContent {
+  agenda: string;
+  debrief: string;
+  notes: VisitNote[];
+}
+
+export type VisitContentField = keyof VisitContent;
+
+export interface VisitContentRestore {
+  content: VisitContent;
+  changedFields: VisitContentField[];
+  undoneEventCount: number;
+}
+
+/**
+ * Normalises content the same way captureVersionHistory does before storing
+ * beforeValue/afterValue, so current HTML can be compared with event values
+ */
+export const toEventText = (value?: string): string => {
+  if (!value) return '';
+  return value
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const eventTime = (event: VersionEventDoc): number => {
+  // Events still waiting for their server timestamp are the newest ones
+  return timestampToDate(event.timestamp)?.getTime() ?? Number.POSITIVE_INFINITY;
+};
+
+const notesSignature = (notes: VisitNote[]): string => {
+  return JSON.stringify(notes.map(note => [note.id, toEventText(note.text)]));
+};
+
 /**
- * Creates a simple text diff for display purposes
+ * Rebuilds agenda, debrief and notes as they were at a point in time by
+ * undoing every later event, newest first, from the current content.
+ * Events store plain text, so fields that changed since are restored without
+ * formatting while untouched fields keep their current HTML.
+ */
+export const rebuildVisitContentAt = (
+  current: VisitContent,
+  events: VersionEventDoc[],
+  asOf: Date
+): VisitContentRestore => {
+  const laterEvents = events
+    .filter(event => eventTime(event) > asOf.getTime())
+    .sort((a, b) => eventTime(b) - eventTime(a));
+
+  let agenda = current.agenda;
+  let debrief = current.debrief;
+  let notes = current.notes.map(note => ({ ...note }));
+  let restoredDeletedNote = false;
+
+  for (const event of laterEvents) {
+    const noteId = event.metadata?.noteId;
+    switch (event.type) {
+      case 'agenda_edit':
+        agenda = event.beforeValue || '';
+        break;
+      case 'debrief_edit':
+        debrief = event.beforeValue || '';
+        break;
+      case 'note_add':
+        if (noteId) {
+          notes = notes.filter(note => note.id !== noteId);
+        }
+        break;
+      case 'note_edit':
+        if (noteId) {
+          notes = notes.map(note => note.id === noteId ? { ...note, text: event.beforeValue || '' } : note);
+        }
+        break;
+      case 'note_delete':
+        if (noteId && !notes.some(note => note.id === noteId)) {
+          // The original creation time is only known if its note_add event survives
+          const added = events.find(e => e.type === 'note_add' && e.metadata?.noteId === noteId);
+          notes.push({
+            id: noteId,
+            text: event.beforeValue || '',
+            createdAt: timestampToDate(added?.timestamp) || timestampToDate(event.timestamp) || new Date(),
+          });
+          restoredDeletedNote = true;
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  if (restoredDeletedNote) {
+    notes.sort((a, b) => (timestampToDate(a.createdAt)?.getTime() ?? 0) - (timestampToDate(b.createdAt)?.getTime() ?? 0));
+  }
+
+  return compareVisitContent(current, { agenda, debrief, notes }, laterEvents.length);
+};
+
+/**
+ * Works out which fields restoring `target` would change. Fields whose text
+ * already matches keep the current value, including its formatting.
+ */
+export const compareVisitContent = (
+  current: VisitContent,
+  target: VisitContent,
+  undoneEventCount: number
+): VisitContentRestore => {
+  const changedFields: VisitContentField[] = [];
+  const content: VisitContent = { ...current };
+  if (toEventText(target.agenda) !== toEventText(current.agenda)) {
+    changedFields.push('agenda');
+    content.agenda = target.agenda;
+  }
+  if (toEventText(target.debrief) !== toEventText(current.debrief)) {
+    changedFields.push('debrief');
+    content.debrief = target.debrief;
+  }
+  if (notesSignature(target.notes) !== notesSignature(current.notes)) {
+    changedFields.push('notes');
+    content.notes = target.notes;
+  }
+
+  return { content, changedFields, undoneEventCount };
+};
+
+/**
+ * One-line summary of a change (words added and removed) for display purposes
  */
 export const createSimpleDiff = (before: string, after: string): string => {
   if (!before && !after) return 'No changes';
@@ -60,27 +209,13 @@ export const createSimpleDiff = (before: string, after: string): string => {
   
   if (beforeStripped === afterStripped) return 'Formatting changed';
   
-  // Show a preview of what changed
-  const beforeWords = beforeStripped.split(/\s+/);
-  const afterWords = afterStripped.split(/\s+/);
+  const { inserted, deleted } = countChangedWords(diffText(beforeStripped, afterStripped));
+  const parts = [
+    inserted ? `${inserted} word${inserted !== 1 ? 's' : ''} added` : '',
+    deleted ? `${deleted} word${deleted !== 1 ? 's' : ''} removed` : '',
+  ].filter(Boolean);
   
-  if (beforeWords.length !== afterWords.length) {
-    return `Changed from ${beforeWords.length} words to ${afterWords.length} words`;
-  }
-  
-  // Try to find the first difference
-  const maxLength = Math.min(beforeStripped.length, afterStripped.length, 200);
-  for (let i = 0; i < maxLength; i++) {
-    if (beforeStripped[i] !== afterStripped[i]) {
-      const start = Math.max(0, i - 20);
-      const end = Math.min(maxLength, i + 20);
-      const beforeSnippet = beforeStripped.substring(start, end);
-      const afterSnippet = afterStripped.substring(start, end);
-      return `Changed: "${stripHtmlAndTruncate(beforeSnippet, 50)}" → "${stripHtmlAndTruncate(afterSnippet, 50)}"`;
-    }
-  }
-  
-  return 'Content modified';
+  return parts.length > 0 ? parts.join(', ') : 'Whitespace changed';
 };
 
 /**
@@ -127,9 +262,13 @@ export const formatVersionEvent = (event: VersionEvent): {
     }
   };
 
+  const isDetailEdit = event.type === 'visit_edit';
+
   return {
-    title: getEventTitle(event.type),
-    description: createSimpleDiff(event.beforeValue, event.afterValue),
+    title: isDetailEdit ? `${getVisitEditLabel(event)} Updated` : getEventTitle(event.type),
+    description: isDetailEdit
+      ? `${getVisitEditLabel(event)}: ${event.beforeValue || 'Not set'} → ${event.afterValue || 'Not set'}`
+      : createSimpleDiff(event.beforeValue, event.afterValue),
     timestamp: (() => {
       try {
         if (!event.timestamp) {
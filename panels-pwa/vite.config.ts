@@ -1,4 +1,4 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, searchForWorkspaceRoot } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
 import path from 'path';
@@ -10,6 +10,10 @@ export default defineConfig(({ mode }) => {
     plugins: [react(), tailwindcss()],
     server: {
       port: 5174,
+      fs: {
+        // utils/fiscalCalendar.ts re-exports the functions' copy
+        allow: [searchForWorkspaceRoot(process.cwd()), path.resolve(__dirname, '../functions/src/fiscalCalendar.ts')],
+      },
     },
     resolve: {
       alias: {